@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/test/tsconfig.json' }]
+  },
+  moduleNameMapper: {
+    '^vscode$': '<rootDir>/test/mocks/vscode.ts',
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+};
@@ -16,6 +16,7 @@
     let settingsBtn;
     let historyBtn;
     let welcomeMessage;
+    let attachmentList;
 
     // State management
     let isTyping = false;
@@ -37,6 +38,7 @@
             settingsBtn = document.getElementById('settingsBtn');
             historyBtn = document.getElementById('historyBtn');
             welcomeMessage = document.getElementById('welcomeMessage');
+            attachmentList = document.getElementById('attachmentList');
 
             if (!messageInput || !sendButton || !messagesContainer) {
                 console.error('Required DOM elements not found');
@@ -285,6 +287,22 @@
             }
 
             content.appendChild(text);
+
+            // Context that was sent along with the message
+            const attachments = (message.metadata && message.metadata.attachments) || [];
+            if (attachments.length > 0) {
+                const list = document.createElement('div');
+                list.className = 'message-attachments';
+                for (const attachment of attachments) {
+                    const item = document.createElement('span');
+                    item.className = 'attachment-chip';
+                    item.textContent = `📎 ${attachment.label}`;
+                    item.title = attachment.source;
+                    list.appendChild(item);
+                }
+                content.appendChild(list);
+            }
+
             messageEl.appendChild(avatar);
             messageEl.appendChild(content);
 
@@ -367,6 +385,141 @@
         }
     }
 
+    /**
+     * Handle tool activity reported while Claude calls tools
+     */
+    function handleToolActivity(payload) {
+        try {
+            const activity = payload.activity;
+            if (!activity) return;
+
+            // Tool calls can arrive before any streamed text
+            if (!currentStreamingMessage) {
+                currentStreamingMessage = addMessageToUI({
+                    id: payload.messageId || generateId(),
+                    role: 'assistant',
+                    content: '',
+                    timestamp: new Date()
+                });
+                if (!currentStreamingMessage) return;
+            }
+
+            const content = currentStreamingMessage.querySelector('.message-content');
+            let list = content.querySelector('.tool-activity-list');
+            if (!list) {
+                list = document.createElement('div');
+                list.className = 'tool-activity-list';
+                content.insertBefore(list, content.firstChild);
+            }
+
+            let item = Array.from(list.children).find(child => child.dataset.toolId === activity.id);
+            if (!item) {
+                item = document.createElement('div');
+                item.dataset.toolId = activity.id;
+                list.appendChild(item);
+            }
+
+            const icons = { 'awaiting-approval': '?', running: '⏳', completed: '✓', error: '✗', denied: '⊘' };
+            const input = Object.entries(activity.input || {})
+                .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+                .join(', ');
+
+            item.className = `tool-activity ${activity.status}`;
+            item.textContent = '';
+
+            const summary = document.createElement('div');
+            summary.className = 'tool-activity-summary';
+            summary.textContent = `${icons[activity.status] || '•'} ${activity.name}${input ? ` (${input})` : ''}`;
+            summary.title = summary.textContent;
+            item.appendChild(summary);
+
+            if (activity.status === 'awaiting-approval') {
+                item.appendChild(createToolApprovalActions(activity.id));
+            } else if (activity.result) {
+                // Results stay collapsed unless the call failed
+                const details = document.createElement('details');
+                details.className = 'tool-activity-result';
+                details.open = activity.status === 'error';
+                const label = document.createElement('summary');
+                label.textContent = activity.status === 'denied' ? 'Denied' : 'Result';
+                const result = document.createElement('pre');
+                result.textContent = activity.result.length > 4000
+                    ? `${activity.result.substring(0, 4000)}\n... (truncated)`
+                    : activity.result;
+                details.appendChild(label);
+                details.appendChild(result);
+                item.appendChild(details);
+            }
+            scrollToBottom();
+        } catch (error) {
+            console.error('Failed to handle tool activity:', error);
+        }
+    }
+
+    /**
+     * Create the allow/deny buttons for a tool call awaiting approval
+     */
+    function createToolApprovalActions(toolCallId) {
+        const actions = document.createElement('div');
+        actions.className = 'tool-approval-actions';
+
+        const choices = [
+            { decision: 'allow-once', label: 'Allow once' },
+            { decision: 'allow-always', label: 'Always allow this tool' },
+            { decision: 'deny', label: 'Deny' }
+        ];
+
+        for (const choice of choices) {
+            const button = document.createElement('button');
+            button.className = `tool-approval-btn ${choice.decision}`;
+            button.textContent = choice.label;
+            button.addEventListener('click', () => {
+                actions.querySelectorAll('button').forEach(btn => { btn.disabled = true; });
+                vscode.postMessage({
+                    type: 'chat.toolApproval',
+                    payload: { toolCallId, decision: choice.decision }
+                });
+            });
+            actions.appendChild(button);
+        }
+
+        return actions;
+    }
+
+    /**
+     * Show the context attached to the next message
+     */
+    function renderAttachments(attachments) {
+        if (!attachmentList) return;
+
+        attachmentList.textContent = '';
+        attachmentList.classList.toggle('hidden', attachments.length === 0);
+
+        for (const attachment of attachments) {
+            const chip = document.createElement('span');
+            chip.className = 'attachment-chip';
+            chip.title = attachment.source;
+
+            const label = document.createElement('span');
+            label.textContent = `📎 ${attachment.label}`;
+
+            const remove = document.createElement('button');
+            remove.className = 'attachment-remove';
+            remove.title = 'Remove attachment';
+            remove.textContent = '×';
+            remove.addEventListener('click', () => {
+                vscode.postMessage({
+                    type: 'chat.removeAttachment',
+                    payload: { attachmentId: attachment.id }
+                });
+            });
+
+            chip.appendChild(label);
+            chip.appendChild(remove);
+            attachmentList.appendChild(chip);
+        }
+    }
+
     /**
      * Show typing indicator
      */
@@ -439,6 +592,9 @@
                     // Handle complete message
                     if (message.payload.message) {
                         hideTypingIndicator();
+                        if (welcomeMessage) {
+                            welcomeMessage.classList.add('hidden');
+                        }
                         addMessageToUI(message.payload.message);
                         messageHistory.push(message.payload.message);
                     }
@@ -449,6 +605,15 @@
                     handleStreamingMessage(message.payload);
                     break;
 
+                case 'chat.tool':
+                    // Handle tool call activity
+                    handleToolActivity(message.payload);
+                    break;
+
+                case 'chat.attachments':
+                    renderAttachments(message.payload.attachments || []);
+                    break;
+
                 case 'chat.typing':
                     if (message.payload.isTyping) {
                         showTypingIndicator();
@@ -0,0 +1,85 @@
+import Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * A tool Claude can call during a chat turn
+ */
+export interface ChatTool {
+	definition: Anthropic.Tool;
+	// Calls must be approved by the user before they run
+	requiresApproval?: boolean;
+	execute(input: Record<string, any>): Promise<string>;
+}
+
+/**
+ * Outcome of a single tool call
+ */
+export interface ChatToolResult {
+	content: string;
+	isError: boolean;
+}
+
+/**
+ * ChatToolRegistry - Tools offered to Claude in the chat tool-use loop
+ *
+ * Keeps tool definitions and their implementations together so the loop in
+ * RSWEManager can advertise them to the model and dispatch calls by name.
+ */
+export class ChatToolRegistry {
+	private readonly _tools = new Map<string, ChatTool>();
+
+	/**
+	 * Register a tool, replacing any tool with the same name
+	 */
+	public register(tool: ChatTool): void {
+		this._tools.set(tool.definition.name, tool);
+	}
+
+	/**
+	 * Register several tools at once
+	 */
+	public registerAll(tools: ChatTool[]): void {
+		for (const tool of tools) {
+			this.register(tool);
+		}
+	}
+
+	/**
+	 * Remove a tool by name
+	 */
+	public unregister(name: string): void {
+		this._tools.delete(name);
+	}
+
+	/**
+	 * Check whether calls to a tool need user approval
+	 */
+	public requiresApproval(name: string): boolean {
+		return this._tools.get(name)?.requiresApproval === true;
+	}
+
+	/**
+	 * Get the tool definitions sent to Claude
+	 */
+	public getDefinitions(): Anthropic.Tool[] {
+		return Array.from(this._tools.values()).map(tool => tool.definition);
+	}
+
+	/**
+	 * Execute a tool call, turning failures into error results for the model
+	 */
+	public async execute(name: string, input: Record<string, any>): Promise<ChatToolResult> {
+		const tool = this._tools.get(name);
+		if (!tool) {
+			return { content: `Unknown tool: ${name}`, isError: true };
+		}
+
+		try {
+			return { content: await tool.execute(input), isError: false };
+		} catch (error) {
+			return {
+				content: `Tool ${name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+				isError: true
+			};
+		}
+	}
+}
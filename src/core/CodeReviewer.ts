@@ -0,0 +1,353 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import Anthropic from '@anthropic-ai/sdk';
+import {
+	CODE_REVIEW_CATEGORIES,
+	CodeReviewIssue,
+	CodeReviewIssueSchema,
+	CodeReviewSchema,
+	RSWEError,
+	ValidationResult,
+	ValidationSuggestion
+} from '@/types';
+import { RSWEManager } from '@/core/RSWEManager';
+
+const execFileAsync = promisify(execFile);
+
+// Largest file or diff sent for review
+const MAX_REVIEW_CHARS = 120000;
+
+// Output read from a git command
+const GIT_MAX_BUFFER = 20 * 1024 * 1024;
+
+// Source shown on review diagnostics in the Problems panel
+export const REVIEW_DIAGNOSTIC_SOURCE = 'RSWE Review';
+
+// Structured output schema Claude fills in
+const REPORT_REVIEW_TOOL: Anthropic.Tool = {
+	name: 'report_review',
+	description: 'Report the result of a code review.',
+	input_schema: {
+		type: 'object',
+		properties: {
+			summary: { type: 'string', description: 'One or two sentences on the overall state of the code' },
+			issues: {
+				type: 'array',
+				items: {
+					type: 'object',
+					properties: {
+						file: { type: 'string', description: 'Workspace-relative path of the file' },
+						category: { type: 'string', enum: [...CODE_REVIEW_CATEGORIES] },
+						severity: { type: 'string', enum: ['error', 'warning', 'info'], description: 'error: will break or is unsafe; warning: likely problem; info: improvement' },
+						startLine: { type: 'number', description: 'First line of the issue, as numbered in the input' },
+						endLine: { type: 'number', description: 'Last line of the issue, as numbered in the input' },
+						title: { type: 'string', description: 'Short description of the issue' },
+						explanation: { type: 'string', description: 'Why this is a problem and how to address it' },
+						suggestedFix: { type: 'string', description: 'Replacement for lines startLine-endLine in full, without line numbers. Omit if the fix is not local.' }
+					},
+					required: ['file', 'category', 'severity', 'startLine', 'endLine', 'title', 'explanation']
+				}
+			}
+		},
+		required: ['summary', 'issues']
+	}
+};
+
+/**
+ * Result of a review with the entries found per file
+ */
+export interface CodeReviewOutcome {
+	summary: string;
+	results: Map<string, ValidationResult>;
+	// Issues dropped because they failed schema validation or named unknown files
+	skippedIssues: number;
+}
+
+/**
+ * CodeReviewer - AI review of a document or the uncommitted git diff
+ *
+ * Claude reports issues through a tool schema; the input is parsed with zod
+ * into validation entries and published as diagnostics under the "RSWE
+ * Review" source, separate from compiler diagnostics, until cleared.
+ */
+export class CodeReviewer {
+	private readonly _diagnostics = vscode.languages.createDiagnosticCollection('rswe-review');
+	private readonly _suggestions = new Map<string, { version: number; suggestions: ValidationSuggestion[] }>();
+
+	constructor(private readonly _rsweManager: RSWEManager) {}
+
+	/**
+	 * Review the full contents of a document
+	 */
+	public async reviewDocument(document: vscode.TextDocument): Promise<CodeReviewOutcome> {
+		const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+		const text = document.getText();
+		if (text.length > MAX_REVIEW_CHARS) {
+			throw new RSWEError(`${relativePath} is too large to review (${text.length} characters)`, 'REVIEW_TOO_LARGE');
+		}
+
+		const numbered = text.split('\n').map((line, index) => `${index + 1}| ${line}`).join('\n');
+		const prompt = [
+			`Review ${relativePath} for bugs, security problems, performance issues and maintainability.`,
+			'Report every real issue with the report_review tool using the line numbers shown; an empty list is fine.',
+			'',
+			`\`\`\`${document.languageId}`,
+			numbered,
+			'```'
+		].join('\n');
+
+		return this._runReview(prompt, new Map([[path.normalize(relativePath), document.uri]]));
+	}
+
+	/**
+	 * Review the uncommitted (staged, unstaged and new untracked) changes of
+	 * the workspace repository, which may have no commits yet. Resolves to
+	 * null when there are no changes.
+	 */
+	public async reviewChanges(): Promise<CodeReviewOutcome | null> {
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		if (!workspaceFolder) {
+			throw new RSWEError('No workspace folder found', 'NO_WORKSPACE');
+		}
+
+		let root: string;
+		let diff: string;
+		try {
+			root = (await execFileAsync('git', ['rev-parse', '--show-toplevel'], { cwd: workspaceFolder.uri.fsPath })).stdout.trim();
+			diff = (await execFileAsync('git', ['diff', await _getDiffBase(root), '--no-color', '--no-ext-diff'], { cwd: root, maxBuffer: GIT_MAX_BUFFER })).stdout;
+			diff += await _getUntrackedDiff(root, MAX_REVIEW_CHARS - diff.length);
+		} catch (error) {
+			throw new RSWEError(
+				`Could not read the git diff: ${error instanceof Error ? error.message : 'Unknown error'}`,
+				'GIT_ERROR'
+			);
+		}
+
+		if (!diff.trim()) {
+			return null;
+		}
+		if (diff.length > MAX_REVIEW_CHARS) {
+			throw new RSWEError(`The uncommitted diff is too large to review (${diff.length} characters)`, 'REVIEW_TOO_LARGE');
+		}
+
+		const { annotated, files } = _annotateDiff(diff);
+		const uris = new Map(files.map(file => {
+			const uri = vscode.Uri.file(path.join(root, file));
+			return [path.normalize(vscode.workspace.asRelativePath(uri, false)), uri] as const;
+		}));
+
+		const prompt = [
+			'Review the uncommitted changes below for bugs, security problems, performance issues and maintainability.',
+			'Only report issues in added or changed code. Lines of the new file version are numbered; use those numbers and the workspace-relative paths listed here:',
+			[...uris.keys()].map(file => `- ${file}`).join('\n'),
+			'Report every real issue with the report_review tool; an empty list is fine.',
+			'',
+			'```diff',
+			annotated,
+			'```'
+		].join('\n');
+
+		return this._runReview(prompt, uris);
+	}
+
+	/**
+	 * Suggestions from the last review of a document, if it has not changed since
+	 */
+	public getSuggestions(document: vscode.TextDocument): ValidationSuggestion[] {
+		const entry = this._suggestions.get(document.uri.toString());
+		return entry && entry.version === document.version ? entry.suggestions : [];
+	}
+
+	/**
+	 * Remove all review diagnostics
+	 */
+	public clear(): void {
+		this._diagnostics.clear();
+		this._suggestions.clear();
+	}
+
+	public dispose(): void {
+		this._diagnostics.dispose();
+		this._suggestions.clear();
+	}
+
+	private async _runReview(prompt: string, files: Map<string, vscode.Uri>): Promise<CodeReviewOutcome> {
+		const raw = await this._rsweManager.requestStructuredOutput(prompt, REPORT_REVIEW_TOOL);
+
+		const review = CodeReviewSchema.safeParse(raw);
+		if (!review.success) {
+			throw new RSWEError(`Claude returned an invalid review: ${review.error.issues[0]?.message ?? 'unknown error'}`, 'REVIEW_PARSE_ERROR');
+		}
+
+		const issues: CodeReviewIssue[] = [];
+		let skippedIssues = 0;
+		for (const rawIssue of review.data.issues) {
+			const parsed = CodeReviewIssueSchema.safeParse(rawIssue);
+			if (parsed.success) {
+				issues.push(parsed.data);
+			} else {
+				skippedIssues++;
+			}
+		}
+
+		this.clear();
+		const results = new Map<string, ValidationResult>();
+		const diagnostics = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+
+		for (const issue of issues) {
+			const uri = files.get(path.normalize(issue.file.replace(/^\.?[\\/]/, '')));
+			if (!uri) {
+				skippedIssues++;
+				continue;
+			}
+
+			const document = await vscode.workspace.openTextDocument(uri);
+			const key = uri.toString();
+			const result = results.get(key) ?? { isValid: true, errors: [], warnings: [], suggestions: [] };
+			results.set(key, result);
+			_addIssue(result, issue, document);
+
+			const entry = diagnostics.get(key) ?? { uri, diagnostics: [] };
+			diagnostics.set(key, entry);
+			entry.diagnostics.push(_createDiagnostic(issue, document));
+
+			this._suggestions.set(key, { version: document.version, suggestions: result.suggestions });
+		}
+
+		for (const { uri, diagnostics: fileDiagnostics } of diagnostics.values()) {
+			this._diagnostics.set(uri, fileDiagnostics);
+		}
+
+		console.log(`🔎 CodeReviewer: ${review.data.issues.length - skippedIssues} issues in ${results.size} files, ${skippedIssues} skipped`);
+		return { summary: review.data.summary, results, skippedIssues };
+	}
+}
+
+/**
+ * Add a review issue to a file's result as error, warning or suggestion,
+ * plus a suggestion carrying the fix when one was given
+ */
+function _addIssue(result: ValidationResult, issue: CodeReviewIssue, document: vscode.TextDocument): void {
+	const range = _getIssueRange(issue, document);
+	const entry = {
+		id: `review-${issue.category}-${range.start.line + 1}`,
+		message: `${issue.title}: ${issue.explanation}`,
+		file: document.uri.fsPath,
+		line: range.start.line + 1,
+		column: range.start.character + 1
+	};
+
+	if (issue.severity === 'error') {
+		result.errors.push({ ...entry, severity: 'error' });
+		result.isValid = false;
+	} else if (issue.severity === 'warning') {
+		result.warnings.push(entry);
+	} else if (issue.suggestedFix === undefined) {
+		result.suggestions.push(entry);
+	}
+
+	if (issue.suggestedFix !== undefined) {
+		// The fix replaces the reported lines in full
+		const lastLine = document.lineAt(range.end.line);
+		result.suggestions.push({
+			...entry,
+			id: `${entry.id}-fix`,
+			message: issue.title,
+			column: 1,
+			fix: issue.suggestedFix,
+			endLine: lastLine.lineNumber + 1,
+			endColumn: lastLine.text.length + 1
+		});
+	}
+}
+
+function _createDiagnostic(issue: CodeReviewIssue, document: vscode.TextDocument): vscode.Diagnostic {
+	const severity = issue.severity === 'error'
+		? vscode.DiagnosticSeverity.Error
+		: issue.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information;
+	const diagnostic = new vscode.Diagnostic(_getIssueRange(issue, document), `${issue.title}: ${issue.explanation}`, severity);
+	diagnostic.source = REVIEW_DIAGNOSTIC_SOURCE;
+	diagnostic.code = issue.category;
+	return diagnostic;
+}
+
+/**
+ * Range from the first non-blank character of startLine to the end of
+ * endLine, clamped to the document
+ */
+function _getIssueRange(issue: CodeReviewIssue, document: vscode.TextDocument): vscode.Range {
+	const startLine = document.lineAt(Math.min(issue.startLine, document.lineCount) - 1);
+	const endLine = document.lineAt(Math.min(Math.max(issue.endLine, issue.startLine), document.lineCount) - 1);
+	return new vscode.Range(startLine.lineNumber, startLine.firstNonWhitespaceCharacterIndex, endLine.lineNumber, endLine.text.length);
+}
+
+/**
+ * HEAD, or the empty tree in a repository without commits
+ */
+async function _getDiffBase(root: string): Promise<string> {
+	try {
+		await execFileAsync('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], { cwd: root });
+		return 'HEAD';
+	} catch {
+		const hashing = execFileAsync('git', ['hash-object', '-t', 'tree', '--stdin'], { cwd: root });
+		hashing.child.stdin?.end();
+		return (await hashing).stdout.trim();
+	}
+}
+
+/**
+ * Diffs adding the untracked files that are not ignored, stopping once they
+ * exceed `budget` characters
+ */
+async function _getUntrackedDiff(root: string, budget: number): Promise<string> {
+	const { stdout } = await execFileAsync('git', ['ls-files', '--others', '--exclude-standard', '-z'], { cwd: root, maxBuffer: GIT_MAX_BUFFER });
+	let diff = '';
+	for (const file of stdout.split('\0').filter(Boolean)) {
+		if (diff.length > budget) break;
+		try {
+			await execFileAsync('git', ['diff', '--no-index', '--no-color', '--no-ext-diff', '--', '/dev/null', file], { cwd: root, maxBuffer: GIT_MAX_BUFFER });
+		} catch (error) {
+			// --no-index exits with 1 when the files differ, which a new file always does
+			const result = error as { code?: number; stdout?: string };
+			if (result.code !== 1 || result.stdout === undefined) throw error;
+			diff += result.stdout;
+		}
+	}
+	return diff;
+}
+
+/**
+ * Number the lines of the new file version in a unified diff and list the
+ * files it changes (deleted files excluded)
+ */
+function _annotateDiff(diff: string): { annotated: string; files: string[] } {
+	const files: string[] = [];
+	const output: string[] = [];
+	let newLine = 0;
+
+	for (const line of diff.split('\n')) {
+		const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+		if (hunk) {
+			newLine = Number(hunk[1]);
+			output.push(line);
+		} else if (line.startsWith('+++ ')) {
+			if (line.startsWith('+++ b/')) {
+				files.push(line.substring('+++ b/'.length));
+			}
+			output.push(line);
+		} else if (line.startsWith('--- ') || line.startsWith('diff ') || line.startsWith('index ')) {
+			output.push(line);
+		} else if (line.startsWith('+') || line.startsWith(' ')) {
+			output.push(`${String(newLine).padStart(5)}| ${line}`);
+			newLine++;
+		} else if (line.startsWith('-')) {
+			output.push(`     | ${line}`);
+		} else {
+			output.push(line);
+		}
+	}
+
+	return { annotated: output.join('\n'), files };
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { RSWEError, ProjectAnalysis, ProjectFile } from '../types';
+import { yieldToEventLoop } from '../utils/async';
 
 /**
  * File type classification
@@ -587,6 +588,13 @@ export class DependencyGraphManager {
 		}
 	}
 
+	/**
+	 * Whether the graph has been built
+	 */
+	public isInitialized(): boolean {
+		return this._isInitialized;
+	}
+
 	/**
 	 * Get dependency information for a specific file
 	 */
@@ -635,6 +643,37 @@ export class DependencyGraphManager {
 		return circularDeps;
 	}
 
+	/**
+	 * Find the imports of a file that lead back to it, with the shortest
+	 * cycle through each (starting and ending at the file). Stops with an
+	 * error between imports once `signal` aborts.
+	 */
+	public async findCyclesThrough(filePath: string, signal?: AbortSignal): Promise<Array<{ lineNumber: number; cycle: string[] }>> {
+		if (!this._isInitialized) {
+			throw new RSWEError('Dependency graph not initialized', 'DEPENDENCY_GRAPH_NOT_INITIALIZED');
+		}
+
+		const node = this._dependencyGraph.get(filePath);
+		if (!node) return [];
+
+		const cycles: Array<{ lineNumber: number; cycle: string[] }> = [];
+		const checked = new Set<string>();
+		for (const importInfo of node.imports) {
+			const dependency = this._resolveImportPath(importInfo.source, node.relativePath);
+			if (!dependency || checked.has(dependency)) continue;
+			checked.add(dependency);
+
+			// One graph search per import, with a chance to stop in between
+			await yieldToEventLoop(signal);
+			const pathBack = this._findShortestPath(dependency, filePath);
+			if (pathBack) {
+				cycles.push({ lineNumber: importInfo.lineNumber, cycle: [filePath, ...pathBack] });
+			}
+		}
+
+		return cycles;
+	}
+
 	/**
 	 * Get dependency graph visualization data
 	 */
@@ -762,6 +801,34 @@ export class DependencyGraphManager {
 		return [];
 	}
 
+	/**
+	 * Breadth-first search for the shortest dependency path between two files
+	 */
+	private _findShortestPath(from: string, to: string): string[] | null {
+		const previous = new Map<string, string | null>([[from, null]]);
+		const queue = [from];
+
+		while (queue.length > 0) {
+			const current = queue.shift()!;
+			if (current === to) {
+				const result: string[] = [];
+				for (let step: string | null = current; step !== null; step = previous.get(step) ?? null) {
+					result.unshift(step);
+				}
+				return result;
+			}
+
+			for (const dependency of this._dependencyGraph.get(current)?.dependencies ?? []) {
+				if (!previous.has(dependency)) {
+					previous.set(dependency, current);
+					queue.push(dependency);
+				}
+			}
+		}
+
+		return null;
+	}
+
 	/**
 	 * Calculate severity of circular dependency
 	 */
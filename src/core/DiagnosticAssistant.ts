@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { CodeValidationError, RSWEError } from '@/types';
+import { RSWEManager } from '@/core/RSWEManager';
+import { PreExecutionGate } from '@/core/PreExecutionGate';
+
+// Lines of code around a diagnostic sent to Claude
+const CONTEXT_LINES = 15;
+
+/**
+ * DiagnosticAssistant - Explains and fixes editor diagnostics with Claude
+ *
+ * Fixes are requested for the lines around the diagnostic and go through the
+ * pre-execution gate, so they are validated and shown as a diff before they
+ * are applied. Errors a fix introduces are sent back for another attempt.
+ */
+export class DiagnosticAssistant {
+	constructor(
+		private readonly _rsweManager: RSWEManager,
+		private readonly _gate: PreExecutionGate
+	) {}
+
+	/**
+	 * Build the chat message asking Claude to explain a diagnostic
+	 */
+	public buildExplainPrompt(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): string {
+		const snippet = _getSnippet(document, diagnostic.range);
+		return [
+			`Explain this ${_describeDiagnostic(document, diagnostic)}`,
+			'What causes it, and how should it be fixed?',
+			'',
+			`Lines ${snippet.startLine}-${snippet.endLine}:`,
+			`\`\`\`${document.languageId}`,
+			snippet.text,
+			'```'
+		].join('\n');
+	}
+
+	/**
+	 * Ask Claude for a fix and propose it through the gate. Resolves to
+	 * whether the fix was applied.
+	 */
+	public async fix(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): Promise<boolean> {
+		const snippet = _getSnippet(document, diagnostic.range);
+		const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+		let feedback = '';
+
+		// The gate limits how often a fix is sent back, so this loop ends
+		while (true) {
+			const prompt = [
+				`Fix this ${_describeDiagnostic(document, diagnostic)}`,
+				'',
+				`Lines ${snippet.startLine}-${snippet.endLine} of the file:`,
+				`\`\`\`${document.languageId}`,
+				snippet.text,
+				'```',
+				feedback,
+				`Reply with only the corrected version of exactly these lines in a single \`\`\`${document.languageId} code block. Keep every line that does not need to change.`
+			].join('\n');
+
+			const response = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: 'RSWE: Generating a fix...' },
+				() => this._rsweManager.sendChatMessage(prompt)
+			);
+
+			const fixed = _extractCodeBlock(response.content);
+			if (fixed === null) {
+				throw new RSWEError('RSWE did not return a code fix', 'FIX_FAILED', { file: relativePath });
+			}
+
+			try {
+				await this._gate.propose({ path: relativePath, oldText: snippet.text, newText: fixed });
+				return true;
+			} catch (error) {
+				if (error instanceof CodeValidationError) {
+					feedback = `\nYour previous fix was not applied:\n${error.message}\n`;
+					continue;
+				}
+				if (error instanceof RSWEError && error.code === 'EDIT_REJECTED') {
+					return false;
+				}
+				throw error;
+			}
+		}
+	}
+}
+
+function _describeDiagnostic(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): string {
+	const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+	const origin = [diagnostic.source, code].filter(part => part !== undefined && part !== '').join(' ');
+	const severity = diagnostic.severity === vscode.DiagnosticSeverity.Error ? 'error' : 'problem';
+	return `${severity} in ${vscode.workspace.asRelativePath(document.uri, false)} at line ${diagnostic.range.start.line + 1}${origin ? ` (${origin})` : ''}:\n${diagnostic.message}`;
+}
+
+function _getSnippet(document: vscode.TextDocument, range: vscode.Range): { startLine: number; endLine: number; text: string } {
+	const startLine = Math.max(0, range.start.line - CONTEXT_LINES);
+	const endLine = Math.min(document.lineCount - 1, range.end.line + CONTEXT_LINES);
+	const text = document.getText(new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length));
+	return { startLine: startLine + 1, endLine: endLine + 1, text };
+}
+
+/**
+ * Get the contents of the first fenced code block in a response
+ */
+function _extractCodeBlock(content: string): string | null {
+	const match = /```[^\n]*\n([\s\S]*?)\n?```/.exec(content);
+	return match ? match[1]! : null;
+}
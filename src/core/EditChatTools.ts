@@ -0,0 +1,33 @@
+import { ChatTool } from '@/core/ChatToolRegistry';
+import { PreExecutionGate } from '@/core/PreExecutionGate';
+
+/**
+ * Create the chat tools that let Claude change workspace files. Every edit
+ * goes through the pre-execution gate, which validates it and asks the user.
+ */
+export function createEditChatTools(gate: PreExecutionGate): ChatTool[] {
+	return [
+		{
+			definition: {
+				name: 'propose_edit',
+				description: 'Propose a change to a workspace file. Replace one exact occurrence of old_text with new_text, or give the full content (required for new files). The change is type-checked and linted before it is written and the user reviews a diff; if new errors are reported, fix them and propose again.',
+				input_schema: {
+					type: 'object',
+					properties: {
+						path: { type: 'string', description: 'Workspace-relative file path' },
+						old_text: { type: 'string', description: 'Exact text to replace, including enough surrounding lines to be unique' },
+						new_text: { type: 'string', description: 'Replacement for old_text' },
+						content: { type: 'string', description: 'Full new file content, instead of old_text/new_text' }
+					},
+					required: ['path']
+				}
+			},
+			execute: async input => gate.propose({
+				path: String(input.path),
+				...(typeof input.content === 'string' ? { content: input.content } : {}),
+				...(typeof input.old_text === 'string' ? { oldText: input.old_text } : {}),
+				...(typeof input.new_text === 'string' ? { newText: input.new_text } : {})
+			})
+		}
+	];
+}
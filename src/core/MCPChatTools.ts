@@ -0,0 +1,127 @@
+import { MCPError, MCPServer, MCPTool } from '@/types';
+import { ChatTool, ChatToolRegistry } from '@/core/ChatToolRegistry';
+import { MCPManager } from '@/core/MCPManager';
+import { MCPPromptResult, MCPResourceContents, MCPToolCallResult } from '@/services/mcp/MCPClient';
+
+// Prefix marking chat tools that are served by MCP servers
+export const MCP_TOOL_PREFIX = 'mcp__';
+
+// Anthropic tool names are limited to 64 characters of [a-zA-Z0-9_-]
+const MAX_TOOL_NAME_LENGTH = 64;
+const MAX_RESULT_CHARS = 60000;
+
+/**
+ * Create chat tools for every tool discovered on the connected MCP servers.
+ * Tools are namespaced by server id and always require user approval.
+ */
+export function createMCPChatTools(mcpManager: MCPManager): ChatTool[] {
+	return mcpManager.getServers()
+		.filter(server => server.status === 'connected')
+		.flatMap(server => server.tools.map(tool => _createChatTool(mcpManager, server, tool)));
+}
+
+/**
+ * Replace the MCP tools in a registry with those of the currently connected servers
+ */
+export function syncMCPChatTools(registry: ChatToolRegistry, mcpManager: MCPManager): void {
+	for (const definition of registry.getDefinitions()) {
+		if (isMCPToolName(definition.name)) {
+			registry.unregister(definition.name);
+		}
+	}
+	registry.registerAll(createMCPChatTools(mcpManager));
+}
+
+/**
+ * Build the namespaced chat tool name for an MCP server tool
+ */
+export function getMCPToolName(serverId: string, toolName: string): string {
+	const name = `${MCP_TOOL_PREFIX}${_sanitize(serverId)}__${_sanitize(toolName)}`;
+	return name.substring(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Check whether a chat tool name belongs to an MCP server tool
+ */
+export function isMCPToolName(name: string): boolean {
+	return name.startsWith(MCP_TOOL_PREFIX);
+}
+
+function _createChatTool(mcpManager: MCPManager, server: MCPServer, tool: MCPTool): ChatTool {
+	return {
+		definition: {
+			name: getMCPToolName(server.id, tool.name),
+			description: `[MCP server "${server.name}"] ${tool.description || tool.name}`,
+			input_schema: {
+				type: 'object',
+				...(tool.inputSchema ?? { properties: tool.parameters })
+			}
+		},
+		requiresApproval: true,
+		execute: async input => {
+			// Look the client up per call so reconnects are picked up
+			const client = mcpManager.getClient(server.id);
+			if (!client) {
+				throw new MCPError(`MCP server ${server.name} is not connected`);
+			}
+
+			const result = await client.callTool(tool.name, input);
+			const content = _formatToolResult(result);
+			if (result.isError) {
+				throw new MCPError(content || 'The tool reported an error');
+			}
+			return content || 'The tool returned no content.';
+		}
+	};
+}
+
+/**
+ * Flatten the contents of a read resource into text for the chat context
+ */
+export function formatMCPResourceContents(contents: MCPResourceContents[]): string {
+	return _truncate(contents.map(item => item.text !== undefined
+		? item.text
+		: `[Binary content of ${item.uri}${item.mimeType ? ` (${item.mimeType})` : ''} omitted]`
+	).join('\n\n'));
+}
+
+/**
+ * Flatten a rendered prompt into a single chat message
+ */
+export function formatMCPPromptMessages(result: MCPPromptResult): string {
+	// A lone user message is sent as-is; conversations keep their roles visible
+	if (result.messages.length === 1 && result.messages[0]!.role === 'user') {
+		return _truncate(_formatContentPart(result.messages[0]!.content));
+	}
+	return _truncate(result.messages
+		.map(message => `**${message.role === 'user' ? 'User' : 'Assistant'}:** ${_formatContentPart(message.content)}`)
+		.join('\n\n'));
+}
+
+/**
+ * Flatten MCP result content into text for the model
+ */
+function _formatToolResult(result: MCPToolCallResult): string {
+	return _truncate(result.content.map(_formatContentPart).join('\n'));
+}
+
+function _formatContentPart(part: { type: string; text?: string; [key: string]: any }): string {
+	switch (part.type) {
+		case 'text':
+			return part.text ?? '';
+		case 'resource':
+			return part.resource?.text ?? `[Resource: ${part.resource?.uri ?? 'unknown'}]`;
+		default:
+			return `[${part.type} content${part.mimeType ? ` (${part.mimeType})` : ''} omitted]`;
+	}
+}
+
+function _truncate(text: string): string {
+	return text.length > MAX_RESULT_CHARS
+		? `${text.substring(0, MAX_RESULT_CHARS)}\n... (truncated)`
+		: text;
+}
+
+function _sanitize(value: string): string {
+	return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
@@ -0,0 +1,343 @@
+import * as vscode from 'vscode';
+import { MCPError, MCPServer, MCPServerConfig, MCPTool } from '@/types';
+import { MCPClient } from '@/services/mcp/MCPClient';
+import { MCPTransport } from '@/services/mcp/MCPTransport';
+import { StdioTransport } from '@/services/mcp/StdioTransport';
+import { HttpTransport } from '@/services/mcp/HttpTransport';
+import { SseTransport } from '@/services/mcp/SseTransport';
+
+// Interval between health-check pings of connected servers
+const PING_INTERVAL_MS = 30000;
+
+// Reconnect backoff for remote (http/sse) servers
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+/**
+ * A configured server together with its live client connection
+ */
+interface MCPConnection {
+	server: MCPServer;
+	config: MCPServerConfig;
+	client: MCPClient | null;
+	reconnectAttempts: number;
+	reconnectTimer: NodeJS.Timeout | null;
+}
+
+/**
+ * MCPManager - Lifecycle of the configured MCP servers
+ *
+ * Connects to every enabled server, performs the MCP handshake, discovers the
+ * server's tools and keeps each MCPServer's status in sync with its connection.
+ * Server processes are shut down on refresh and on dispose.
+ */
+export class MCPManager {
+	private _connections = new Map<string, MCPConnection>();
+	private _pingTimer: NodeJS.Timeout | null = null;
+	private _isDisposed = false;
+
+	// Event emitter for server status changes
+	private _onDidChangeServers = new vscode.EventEmitter<MCPServer[]>();
+	public readonly onDidChangeServers = this._onDidChangeServers.event;
+
+	/**
+	 * Disconnect all servers and reconnect the enabled ones from configuration
+	 */
+	public async refresh(configs: Record<string, MCPServerConfig>, enabledServers: string[]): Promise<MCPServer[]> {
+		await this._disconnectAll();
+
+		for (const id of enabledServers) {
+			const config = configs[id];
+			if (!config) {
+				console.warn(`MCPManager: Server "${id}" is enabled but has no definition in rswe.mcp.servers`);
+				continue;
+			}
+			this._connections.set(id, {
+				server: this._createServer(id, config),
+				config,
+				client: null,
+				reconnectAttempts: 0,
+				reconnectTimer: null
+			});
+		}
+
+		// Report each server as it connects so one slow handshake doesn't hold up the rest
+		this._fireChange();
+		await Promise.all(Array.from(this._connections.values()).map(async connection => {
+			await this._connect(connection);
+			this._fireChange();
+		}));
+		this._startPinging();
+
+		return this.getServers();
+	}
+
+	/**
+	 * Restart a single server
+	 */
+	public async restartServer(id: string): Promise<MCPServer> {
+		const connection = this._connections.get(id);
+		if (!connection) {
+			throw new MCPError(`Unknown MCP server: ${id}`);
+		}
+
+		await this._disconnect(connection);
+		connection.server = this._createServer(id, connection.config);
+		connection.reconnectAttempts = 0;
+		await this._connect(connection);
+
+		this._fireChange();
+		return connection.server;
+	}
+
+	/**
+	 * Ping a server and record the round-trip, returning the latency in milliseconds
+	 */
+	public async pingServer(id: string): Promise<number> {
+		const client = this.requireClient(id);
+		const connection = this._connections.get(id)!;
+
+		try {
+			const latency = await client.ping();
+			connection.server.lastPing = new Date();
+			this._fireChange();
+			return latency;
+		} catch (error) {
+			connection.server.status = 'error';
+			connection.server.error = `Ping failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+			await this._disconnect(connection);
+			this._scheduleReconnect(connection);
+			this._fireChange();
+			throw error;
+		}
+	}
+
+	/**
+	 * Connect to a server configuration once to check it works, returning the
+	 * server's name and tools. The connection is closed again afterwards.
+	 */
+	public async testServer(config: MCPServerConfig): Promise<{ serverName: string; tools: MCPTool[] }> {
+		const client = new MCPClient(this._createTransport(config));
+		try {
+			const info = await client.connect();
+			const tools = info.capabilities.tools ? await client.listTools() : [];
+			return { serverName: info.serverInfo.name, tools };
+		} finally {
+			await client.close().catch(error => console.warn('MCPManager: Failed to close test connection:', error));
+		}
+	}
+
+	/**
+	 * Get all configured servers with their current status
+	 */
+	public getServers(): MCPServer[] {
+		return Array.from(this._connections.values()).map(connection => connection.server);
+	}
+
+	/**
+	 * Get the live client for a connected server
+	 */
+	public getClient(id: string): MCPClient | undefined {
+		const client = this._connections.get(id)?.client;
+		return client?.isConnected() ? client : undefined;
+	}
+
+	/**
+	 * Get the live client for a server, failing if it is not connected
+	 */
+	public requireClient(id: string): MCPClient {
+		const connection = this._connections.get(id);
+		if (!connection) {
+			throw new MCPError(`Unknown MCP server: ${id}`);
+		}
+		if (!connection.client?.isConnected()) {
+			throw new MCPError(`MCP server ${connection.server.name} is not connected`);
+		}
+		return connection.client;
+	}
+
+	/**
+	 * Shut down all servers and release resources
+	 */
+	public async dispose(): Promise<void> {
+		this._isDisposed = true;
+		if (this._pingTimer) {
+			clearInterval(this._pingTimer);
+			this._pingTimer = null;
+		}
+		await this._disconnectAll();
+		this._onDidChangeServers.dispose();
+	}
+
+	/**
+	 * Create the initial server entry for a configuration
+	 */
+	private _createServer(id: string, config: MCPServerConfig): MCPServer {
+		return {
+			id,
+			name: config.name ?? id,
+			status: 'disconnected',
+			transport: config.transport,
+			tools: [],
+			resources: [],
+			prompts: [],
+			...(config.command ? { command: config.command } : {}),
+			...(config.args ? { args: config.args } : {}),
+			...(config.url ? { url: config.url } : {})
+		};
+	}
+
+	/**
+	 * Connect a server, run the handshake and discover its tools
+	 */
+	private async _connect(connection: MCPConnection): Promise<void> {
+		const { server } = connection;
+
+		try {
+			const client = new MCPClient(this._createTransport(connection.config));
+			connection.client = client;
+
+			client.onClose = error => {
+				// Ignore close events from clients that were already replaced
+				if (connection.client !== client) return;
+
+				connection.client = null;
+				server.status = error ? 'error' : 'disconnected';
+				if (error) {
+					server.error = error.message;
+					this._scheduleReconnect(connection);
+				}
+				this._fireChange();
+			};
+
+			const info = await client.connect();
+			server.tools = info.capabilities.tools ? await client.listTools() : [];
+			server.resources = info.capabilities.resources ? await client.listResources() : [];
+			server.prompts = info.capabilities.prompts ? await client.listPrompts() : [];
+			server.status = 'connected';
+			server.lastPing = new Date();
+			delete server.error;
+			connection.reconnectAttempts = 0;
+
+			console.log(`✅ MCPManager: Connected to ${server.name} (${info.serverInfo.name}) with ${server.tools.length} tools, ${server.resources.length} resources and ${server.prompts.length} prompts`);
+		} catch (error) {
+			server.status = 'error';
+			server.error = error instanceof Error ? error.message : 'Unknown error';
+			console.warn(`⚠️ MCPManager: Failed to connect to ${server.name}:`, error);
+			await this._disconnect(connection);
+			this._scheduleReconnect(connection);
+		}
+	}
+
+	/**
+	 * Reconnect a remote server with exponential backoff
+	 */
+	private _scheduleReconnect(connection: MCPConnection): void {
+		// Local processes that exit are not restarted automatically
+		if (connection.config.transport === 'stdio' || this._isDisposed || connection.reconnectTimer) {
+			return;
+		}
+		if (connection.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+			console.warn(`MCPManager: Giving up on ${connection.server.name} after ${connection.reconnectAttempts} reconnect attempts`);
+			return;
+		}
+
+		const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** connection.reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+		connection.reconnectAttempts++;
+		console.log(`🔄 MCPManager: Reconnecting to ${connection.server.name} in ${delay}ms (attempt ${connection.reconnectAttempts})`);
+
+		connection.reconnectTimer = setTimeout(async () => {
+			connection.reconnectTimer = null;
+			// The server may have been removed or restarted in the meantime
+			if (this._isDisposed || this._connections.get(connection.server.id) !== connection || connection.client) {
+				return;
+			}
+			await this._connect(connection);
+			this._fireChange();
+		}, delay);
+	}
+
+	/**
+	 * Periodically ping connected servers to keep lastPing and status current
+	 */
+	private _startPinging(): void {
+		if (this._pingTimer || this._isDisposed) return;
+
+		this._pingTimer = setInterval(() => {
+			for (const connection of this._connections.values()) {
+				if (connection.client?.isConnected()) {
+					this.pingServer(connection.server.id).catch(error => {
+						console.warn(`MCPManager: Ping to ${connection.server.name} failed:`, error);
+					});
+				}
+			}
+		}, PING_INTERVAL_MS);
+	}
+
+	/**
+	 * Create the transport for a server configuration
+	 */
+	private _createTransport(config: MCPServerConfig): MCPTransport {
+		switch (config.transport) {
+			case 'stdio': {
+				if (!config.command) {
+					throw new MCPError('Stdio MCP servers require a command');
+				}
+				const cwd = config.cwd ?? this._getWorkspaceRoot();
+				return new StdioTransport({
+					command: config.command,
+					args: config.args ?? [],
+					env: config.env ?? {},
+					...(cwd ? { cwd } : {})
+				});
+			}
+			case 'http':
+			case 'sse': {
+				if (!config.url) {
+					throw new MCPError(`${config.transport.toUpperCase()} MCP servers require a url`);
+				}
+				const options = { url: config.url, headers: config.headers ?? {} };
+				return config.transport === 'http' ? new HttpTransport(options) : new SseTransport(options);
+			}
+			default:
+				throw new MCPError(`Unsupported MCP transport: ${config.transport}`);
+		}
+	}
+
+	/**
+	 * Close a server's connection
+	 */
+	private async _disconnect(connection: MCPConnection): Promise<void> {
+		if (connection.reconnectTimer) {
+			clearTimeout(connection.reconnectTimer);
+			connection.reconnectTimer = null;
+		}
+
+		const client = connection.client;
+		connection.client = null;
+		if (!client) return;
+
+		try {
+			await client.close();
+		} catch (error) {
+			console.warn(`MCPManager: Failed to close ${connection.server.name}:`, error);
+		}
+	}
+
+	/**
+	 * Close all connections and forget the servers
+	 */
+	private async _disconnectAll(): Promise<void> {
+		await Promise.all(Array.from(this._connections.values()).map(connection => this._disconnect(connection)));
+		this._connections.clear();
+	}
+
+	private _getWorkspaceRoot(): string | undefined {
+		return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	}
+
+	private _fireChange(): void {
+		this._onDidChangeServers.fire(this.getServers());
+	}
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { MCPServerConfig, MCPServerConfigSchema } from '@/types';
+
+/**
+ * A server definition from settings together with where it is stored
+ */
+export interface ConfiguredMCPServer {
+	id: string;
+	config: MCPServerConfig;
+	target: vscode.ConfigurationTarget;
+	enabled: boolean;
+}
+
+/**
+ * List the servers defined in rswe.mcp.servers. Workspace definitions take
+ * precedence over user definitions with the same id.
+ */
+export function getConfiguredMCPServers(): ConfiguredMCPServer[] {
+	const config = vscode.workspace.getConfiguration('rswe');
+	const servers = config.inspect<Record<string, unknown>>('mcp.servers');
+	const enabledServers = config.get<string[]>('mcp.enabledServers') || [];
+
+	const result = new Map<string, ConfiguredMCPServer>();
+	const levels: Array<[Record<string, unknown> | undefined, vscode.ConfigurationTarget]> = [
+		[servers?.globalValue, vscode.ConfigurationTarget.Global],
+		[servers?.workspaceValue, vscode.ConfigurationTarget.Workspace]
+	];
+
+	for (const [definitions, target] of levels) {
+		for (const [id, config] of Object.entries(parseMCPServerDefinitions(definitions ?? {}))) {
+			result.set(id, { id, config, target, enabled: enabledServers.includes(id) });
+		}
+	}
+
+	return Array.from(result.values());
+}
+
+/**
+ * Validate rswe.mcp.servers entries one by one, skipping invalid definitions
+ * with a warning so they don't prevent the other servers from loading
+ */
+export function parseMCPServerDefinitions(definitions: Record<string, unknown>): Record<string, MCPServerConfig> {
+	const servers: Record<string, MCPServerConfig> = {};
+	for (const [id, raw] of Object.entries(definitions)) {
+		const parsed = MCPServerConfigSchema.safeParse(raw);
+		if (!parsed.success) {
+			console.warn(`MCPSettings: Ignoring invalid definition for MCP server "${id}"`);
+			continue;
+		}
+		servers[id] = parsed.data;
+	}
+	return servers;
+}
+
+/**
+ * Save a server definition at the given settings level and enable it there
+ */
+export async function saveMCPServer(id: string, server: MCPServerConfig, target: vscode.ConfigurationTarget): Promise<void> {
+	const config = vscode.workspace.getConfiguration('rswe');
+
+	const servers = { ..._getValueAt<Record<string, unknown>>(config, 'mcp.servers', target) };
+	servers[id] = _compact(server);
+	await config.update('mcp.servers', servers, target);
+
+	const enabledServers = _getValueAt<string[]>(config, 'mcp.enabledServers', target) ?? [];
+	if (!enabledServers.includes(id)) {
+		await config.update('mcp.enabledServers', [...enabledServers, id], target);
+	}
+}
+
+/**
+ * Stop connecting to a server without deleting its definition
+ */
+export async function disableMCPServer(id: string): Promise<void> {
+	const config = vscode.workspace.getConfiguration('rswe');
+
+	for (const target of _getWritableTargets()) {
+		const enabledServers = _getValueAt<string[]>(config, 'mcp.enabledServers', target);
+		if (enabledServers?.includes(id)) {
+			await config.update('mcp.enabledServers', enabledServers.filter(serverId => serverId !== id), target);
+		}
+	}
+}
+
+/**
+ * Delete a server definition from every settings level
+ */
+export async function removeMCPServer(id: string): Promise<void> {
+	await disableMCPServer(id);
+
+	const config = vscode.workspace.getConfiguration('rswe');
+	for (const target of _getWritableTargets()) {
+		const servers = _getValueAt<Record<string, unknown>>(config, 'mcp.servers', target);
+		if (servers && id in servers) {
+			const { [id]: _removed, ...remaining } = servers;
+			await config.update('mcp.servers', remaining, target);
+		}
+	}
+}
+
+function _getValueAt<T>(config: vscode.WorkspaceConfiguration, key: string, target: vscode.ConfigurationTarget): T | undefined {
+	const inspected = config.inspect<T>(key);
+	return target === vscode.ConfigurationTarget.Global ? inspected?.globalValue : inspected?.workspaceValue;
+}
+
+function _getWritableTargets(): vscode.ConfigurationTarget[] {
+	return vscode.workspace.workspaceFolders?.length
+		? [vscode.ConfigurationTarget.Global, vscode.ConfigurationTarget.Workspace]
+		: [vscode.ConfigurationTarget.Global];
+}
+
+/**
+ * Drop empty optional fields so saved settings stay readable
+ */
+function _compact(server: MCPServerConfig): Record<string, unknown> {
+	return Object.fromEntries(Object.entries(server).filter(([, value]) => {
+		if (value === undefined || value === '') return false;
+		if (Array.isArray(value)) return value.length > 0;
+		if (typeof value === 'object') return Object.keys(value).length > 0;
+		return true;
+	}));
+}
@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CodeValidationError, RSWEError, ValidationDiagnostic } from '@/types';
+import { RSWEManager } from '@/core/RSWEManager';
+import { resolveWorkspacePath } from '@/core/ProjectChatTools';
+import { SecretRedactor } from '@/core/SecretRedactor';
+import { EslintValidator } from '@/services/validation/EslintValidator';
+
+// Scheme of the read-only documents showing proposed file contents
+const PROPOSED_SCHEME = 'rswe-proposed';
+
+// Importers of an edited file that are type-checked along with it
+const MAX_CHECKED_IMPORTERS = 30;
+
+// Issues listed in messages to Claude and the user
+const MAX_REPORTED_ISSUES = 20;
+
+const TYPESCRIPT_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+
+/**
+ * A change to one workspace file proposed by the assistant
+ */
+export interface ProposedEdit {
+	// Workspace-relative path
+	path: string;
+	// Full new contents; required for new files
+	content?: string;
+	// Exact text to replace, which must occur once in the file
+	oldText?: string;
+	newText?: string;
+}
+
+/**
+ * Problems an overlay introduces compared with the files as they are now
+ */
+export interface EditValidationReport {
+	newErrors: ValidationDiagnostic[];
+	newWarnings: ValidationDiagnostic[];
+	checkedFiles: number;
+	// Set when the workspace cannot be linted
+	lintUnavailable?: string;
+	durationMs: number;
+}
+
+/**
+ * PreExecutionGate - Validates assistant edits before they touch the workspace
+ *
+ * A proposed edit is applied to an in-memory overlay, which is type-checked
+ * (together with the files importing it) and linted. Problems that are not
+ * already present in the current files are either sent back to Claude for a
+ * fix, up to `validation.maxAutoFixAttempts` times per file, or shown to the
+ * user with a diff before anything is written.
+ */
+export class PreExecutionGate {
+	private readonly _proposedContents = new Map<string, string>();
+	private readonly _fixAttempts = new Map<string, number>();
+	private readonly _diagnostics = vscode.languages.createDiagnosticCollection('rswe-proposed');
+	private readonly _disposables: vscode.Disposable[] = [];
+	private _proposalCount = 0;
+
+	constructor(private readonly _rsweManager: RSWEManager) {
+		this._disposables.push(
+			vscode.workspace.registerTextDocumentContentProvider(PROPOSED_SCHEME, {
+				provideTextDocumentContent: uri => this._proposedContents.get(uri.toString()) ?? ''
+			})
+		);
+	}
+
+	/**
+	 * Validate an edit, then write it once the user approves. Resolves to a
+	 * summary for the model; rejections and edits sent back for fixing throw.
+	 */
+	public async propose(edit: ProposedEdit): Promise<string> {
+		const config = this._rsweManager.getConfig();
+		const fileName = resolveWorkspacePath(edit.path);
+		const relativePath = vscode.workspace.asRelativePath(fileName);
+
+		const original = await _readCurrentText(fileName);
+		// Claude only saw placeholders for secrets in the file
+		const proposed = _applyEdit(_restoreSecrets(edit, this._rsweManager.getSecretRedactor()), relativePath, original);
+		if (proposed === original) {
+			return `No changes: the proposed content of ${relativePath} is identical to the current file`;
+		}
+
+		let report: EditValidationReport | null = null;
+		if (config?.validation.enablePreExecution) {
+			report = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Window, title: `RSWE: Validating edit to ${relativePath}` },
+				() => this.validateOverlay(new Map([[fileName, proposed]]))
+			);
+
+			const attempts = this._fixAttempts.get(fileName) ?? 0;
+			if (report.newErrors.length > 0 && config.validation.autoFix && attempts < config.validation.maxAutoFixAttempts) {
+				this._fixAttempts.set(fileName, attempts + 1);
+				throw new CodeValidationError(
+					`Edit not applied: it introduces ${report.newErrors.length} new error(s).\n` +
+					`${_formatIssues(report.newErrors)}\n` +
+					`Fix them and call propose_edit again (automatic fix attempt ${attempts + 1} of ${config.validation.maxAutoFixAttempts}).`,
+					{ file: relativePath }
+				);
+			}
+		}
+
+		const approved = await this._askUser(fileName, relativePath, original, proposed, report);
+		this._fixAttempts.delete(fileName);
+		if (!approved) {
+			throw new RSWEError(
+				`The user rejected the edit to ${relativePath}. Do not retry it unless asked; explain or ask how to proceed.`,
+				'EDIT_REJECTED'
+			);
+		}
+
+		await _writeText(fileName, original, proposed);
+		return _describeAppliedEdit(relativePath, report);
+	}
+
+	/**
+	 * Type-check and lint files as if the overlay (absolute path to new
+	 * contents) were written, reporting only problems the overlay introduces
+	 */
+	public async validateOverlay(overlay: ReadonlyMap<string, string>): Promise<EditValidationReport> {
+		const startTime = Date.now();
+		const typeScriptValidator = this._rsweManager.getTypeScriptValidator();
+
+		const editedFiles = [...overlay.keys()].filter(fileName => TYPESCRIPT_EXTENSIONS.has(path.extname(fileName).toLowerCase()));
+		const checkedFiles = [...editedFiles, ...typeScriptValidator.findImporters(editedFiles, MAX_CHECKED_IMPORTERS)];
+
+		const before = typeScriptValidator.checkFiles(checkedFiles);
+		const after = typeScriptValidator.checkFiles(checkedFiles, overlay);
+
+		const eslintValidator = this._getEslintValidator();
+		if (eslintValidator) {
+			for (const fileName of editedFiles) {
+				const current = await _readCurrentText(fileName);
+				const currentLint = current === null ? [] : await eslintValidator.lintText(fileName, current);
+				const proposedLint = await eslintValidator.lintText(fileName, overlay.get(fileName)!);
+				if (currentLint === null || proposedLint === null) break;
+
+				before.push(...currentLint);
+				after.push(...proposedLint);
+			}
+		}
+
+		const introduced = _subtractDiagnostics(after, before);
+		const lintUnavailable = eslintValidator?.getUnavailableReason() ?? (eslintValidator ? undefined : 'No workspace folder');
+		const report: EditValidationReport = {
+			newErrors: introduced.filter(diagnostic => diagnostic.severity === 'error'),
+			newWarnings: introduced.filter(diagnostic => diagnostic.severity === 'warning'),
+			checkedFiles: checkedFiles.length,
+			...(lintUnavailable ? { lintUnavailable } : {}),
+			durationMs: Date.now() - startTime
+		};
+
+		console.log(`🛡️ PreExecutionGate: Checked ${report.checkedFiles} files in ${report.durationMs}ms, ${report.newErrors.length} new errors, ${report.newWarnings.length} new warnings`);
+		return report;
+	}
+
+	public dispose(): void {
+		this._disposables.forEach(disposable => disposable.dispose());
+		this._diagnostics.dispose();
+		this._proposedContents.clear();
+	}
+
+	/**
+	 * Show the diff and the introduced problems, resolving to whether the
+	 * user chose to apply the edit
+	 */
+	private async _askUser(
+		fileName: string,
+		relativePath: string,
+		original: string | null,
+		proposed: string,
+		report: EditValidationReport | null
+	): Promise<boolean> {
+		const id = ++this._proposalCount;
+		const proposedUri = vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: fileName, query: `proposal=${id}` });
+		const originalUri = original === null
+			? vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: fileName, query: `original=${id}` })
+			: vscode.Uri.file(fileName);
+		this._proposedContents.set(proposedUri.toString(), proposed);
+		if (original === null) {
+			this._proposedContents.set(originalUri.toString(), '');
+		}
+
+		// Point at the new problems in the proposed contents of the edited file
+		const issues = [...(report?.newErrors ?? []), ...(report?.newWarnings ?? [])];
+		this._diagnostics.set(proposedUri, issues
+			.filter(issue => path.resolve(issue.file) === path.resolve(fileName))
+			.map(issue => {
+				const position = new vscode.Position(issue.line - 1, issue.column - 1);
+				const diagnostic = new vscode.Diagnostic(
+					new vscode.Range(position, position.translate(0, 1)),
+					issue.message,
+					issue.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+				);
+				diagnostic.source = 'RSWE';
+				diagnostic.code = issue.code;
+				return diagnostic;
+			}));
+
+		try {
+			await vscode.commands.executeCommand(
+				'vscode.diff',
+				originalUri,
+				proposedUri,
+				`${relativePath} (proposed by RSWE)`,
+				{ preview: true }
+			);
+
+			const errorCount = report?.newErrors.length ?? 0;
+			const status = !report
+				? 'Pre-execution validation is disabled.'
+				: errorCount > 0
+					? `It introduces ${errorCount} new error(s): ${_formatIssues(report.newErrors, 3).replace(/\n/g, '; ')}`
+					: `No new errors${report.newWarnings.length > 0 ? `, ${report.newWarnings.length} new warning(s)` : ''}.`;
+			const applyLabel = errorCount > 0 ? 'Apply Anyway' : 'Apply';
+			const show = errorCount > 0 ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+
+			const choice = await show(`RSWE wants to ${original === null ? 'create' : 'edit'} ${relativePath}. ${status}`, applyLabel, 'Reject');
+			return choice === applyLabel;
+		} finally {
+			this._diagnostics.delete(proposedUri);
+			this._proposedContents.delete(proposedUri.toString());
+			this._proposedContents.delete(originalUri.toString());
+		}
+	}
+
+	/**
+	 * The registry's ESLint validator, shared so ESLint is loaded once
+	 */
+	private _getEslintValidator(): EslintValidator | null {
+		const validator = this._rsweManager.getValidatorRegistry().get('eslint');
+		return validator instanceof EslintValidator ? validator : null;
+	}
+}
+
+/**
+ * Current contents of a file: the editor buffer if open, else the file on
+ * disk, or null if it does not exist
+ */
+async function _readCurrentText(fileName: string): Promise<string | null> {
+	const document = vscode.workspace.textDocuments.find(
+		candidate => candidate.uri.scheme === 'file' && path.resolve(candidate.uri.fsPath) === path.resolve(fileName)
+	);
+	if (document) {
+		return document.getText();
+	}
+
+	try {
+		return await fs.readFile(fileName, 'utf-8');
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Put redacted secrets back into an edit's text
+ */
+function _restoreSecrets(edit: ProposedEdit, redactor: SecretRedactor): ProposedEdit {
+	const restored: ProposedEdit = { path: edit.path };
+	if (edit.content !== undefined) restored.content = redactor.restore(edit.content);
+	if (edit.oldText !== undefined) restored.oldText = redactor.restore(edit.oldText);
+	if (edit.newText !== undefined) restored.newText = redactor.restore(edit.newText);
+	return restored;
+}
+
+function _applyEdit(edit: ProposedEdit, relativePath: string, original: string | null): string {
+	if (edit.content !== undefined) {
+		return edit.content;
+	}
+	if (original === null) {
+		throw new RSWEError(`${relativePath} does not exist; provide its full content to create it`, 'INVALID_EDIT');
+	}
+	if (!edit.oldText || edit.newText === undefined) {
+		throw new RSWEError('Provide either content, or old_text and new_text', 'INVALID_EDIT');
+	}
+
+	const occurrences = original.split(edit.oldText).length - 1;
+	if (occurrences === 0) {
+		throw new RSWEError(`old_text was not found in ${relativePath}; read the file and copy the text exactly`, 'INVALID_EDIT');
+	}
+	if (occurrences > 1) {
+		throw new RSWEError(`old_text occurs ${occurrences} times in ${relativePath}; include more surrounding lines so it is unique`, 'INVALID_EDIT');
+	}
+
+	const index = original.indexOf(edit.oldText);
+	return original.substring(0, index) + edit.newText + original.substring(index + edit.oldText.length);
+}
+
+/**
+ * Write through the editor so open documents, undo and save hooks behave as
+ * for a manual change
+ */
+async function _writeText(fileName: string, original: string | null, proposed: string): Promise<void> {
+	const uri = vscode.Uri.file(fileName);
+	const workspaceEdit = new vscode.WorkspaceEdit();
+
+	if (original === null) {
+		workspaceEdit.createFile(uri, { ignoreIfExists: true });
+		workspaceEdit.insert(uri, new vscode.Position(0, 0), proposed);
+	} else {
+		const document = await vscode.workspace.openTextDocument(uri);
+		const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length));
+		workspaceEdit.replace(uri, fullRange, proposed);
+	}
+
+	if (!await vscode.workspace.applyEdit(workspaceEdit)) {
+		throw new RSWEError(`Failed to apply the edit to ${vscode.workspace.asRelativePath(uri)}`, 'EDIT_FAILED');
+	}
+	await (await vscode.workspace.openTextDocument(uri)).save();
+}
+
+/**
+ * Diagnostics in `after` that have no counterpart in `before`. Positions are
+ * ignored so problems that only moved are not reported as new.
+ */
+function _subtractDiagnostics(after: ValidationDiagnostic[], before: ValidationDiagnostic[]): ValidationDiagnostic[] {
+	const key = (diagnostic: ValidationDiagnostic) =>
+		`${path.resolve(diagnostic.file)}|${diagnostic.source}|${diagnostic.code}|${diagnostic.message}`;
+
+	const remaining = new Map<string, number>();
+	for (const diagnostic of before) {
+		remaining.set(key(diagnostic), (remaining.get(key(diagnostic)) ?? 0) + 1);
+	}
+
+	return after.filter(diagnostic => {
+		const count = remaining.get(key(diagnostic)) ?? 0;
+		if (count > 0) {
+			remaining.set(key(diagnostic), count - 1);
+			return false;
+		}
+		return true;
+	});
+}
+
+function _formatIssues(issues: ValidationDiagnostic[], limit = MAX_REPORTED_ISSUES): string {
+	const lines = issues.slice(0, limit).map(issue =>
+		`${vscode.workspace.asRelativePath(issue.file)}:${issue.line}:${issue.column} ${issue.code} ${issue.message}`
+	);
+	if (issues.length > limit) {
+		lines.push(`... and ${issues.length - limit} more`);
+	}
+	return lines.join('\n');
+}
+
+function _describeAppliedEdit(relativePath: string, report: EditValidationReport | null): string {
+	const parts = [`Applied the edit to ${relativePath}.`];
+	if (report && report.newErrors.length > 0) {
+		parts.push(`The user applied it despite ${report.newErrors.length} new error(s):\n${_formatIssues(report.newErrors)}`);
+	}
+	if (report && report.newWarnings.length > 0) {
+		parts.push(`New warnings:\n${_formatIssues(report.newWarnings)}`);
+	}
+	if (report?.lintUnavailable) {
+		parts.push(`Linting was skipped: ${report.lintUnavailable}`);
+	}
+	return parts.join('\n');
+}
@@ -0,0 +1,195 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { RSWEError } from '@/types';
+import { ChatTool } from '@/core/ChatToolRegistry';
+import { SemanticSearchManager, SemanticSearchResult } from '@/core/SemanticSearchManager';
+import { DependencyGraphManager } from '@/core/DependencyGraphManager';
+import { SEARCHABLE_ITEM_TYPES } from '@/services/search/SearchableCodeItem';
+
+// Limits that keep tool results within a reasonable share of the context window
+const MAX_READ_LINES = 400;
+const MAX_READ_CHARS = 60000;
+const MAX_LISTED_FILES = 200;
+const LIST_EXCLUDE_GLOB = '**/{node_modules,.git,dist,out,build,coverage}/**';
+
+/**
+ * Create the chat tools backed by RSWE's project intelligence indexes
+ */
+export function createProjectChatTools(
+	semanticSearchManager: SemanticSearchManager,
+	dependencyGraphManager: DependencyGraphManager
+): ChatTool[] {
+	return [
+		{
+			definition: {
+				name: 'search_code',
+				description: 'Search the indexed project for functions, classes and variables relevant to a natural language query.',
+				input_schema: {
+					type: 'object',
+					properties: {
+						query: { type: 'string', description: 'Natural language or keyword query. Supports kind:function, lang:ts, path:src/** and in:tests filters, "quoted phrases", -word exclusions and a OR b' },
+						limit: { type: 'number', description: 'Maximum number of results (default 10)' }
+					},
+					required: ['query']
+				}
+			},
+			execute: async input => {
+				const results = await semanticSearchManager.searchCode(String(input.query), _clampLimit(input.limit, 10));
+				return _formatSearchResults(results);
+			}
+		},
+		{
+			definition: {
+				name: 'find_symbol',
+				description: 'Find functions, classes, methods, interfaces, types, enums or variables by name across the project.',
+				input_schema: {
+					type: 'object',
+					properties: {
+						name: { type: 'string', description: 'Symbol name or part of it' },
+						type: { type: 'string', enum: [...SEARCHABLE_ITEM_TYPES], description: 'Restrict results to a symbol kind' }
+					},
+					required: ['name']
+				}
+			},
+			execute: async input => {
+				const results = await semanticSearchManager.searchSymbols(String(input.name), input.type);
+				return _formatSearchResults(results);
+			}
+		},
+		{
+			definition: {
+				name: 'get_dependencies',
+				description: 'Get the imports, exports, dependencies and dependents of a project file.',
+				input_schema: {
+					type: 'object',
+					properties: {
+						file: { type: 'string', description: 'Workspace-relative file path, e.g. src/core/RSWEManager.ts' }
+					},
+					required: ['file']
+				}
+			},
+			execute: async input => {
+				const file = _normalizeRelativePath(String(input.file));
+				const info = dependencyGraphManager.getDependencies(file);
+				if (!info) {
+					return `No dependency information for ${file}. The file may not exist or is not a tracked source file.`;
+				}
+				return JSON.stringify(info, null, 2);
+			}
+		},
+		{
+			definition: {
+				name: 'read_file',
+				description: `Read a workspace file, optionally a line range. At most ${MAX_READ_LINES} lines are returned per call.`,
+				input_schema: {
+					type: 'object',
+					properties: {
+						path: { type: 'string', description: 'Workspace-relative file path' },
+						startLine: { type: 'number', description: 'First line to read (1-based, default 1)' },
+						endLine: { type: 'number', description: 'Last line to read (inclusive)' }
+					},
+					required: ['path']
+				}
+			},
+			execute: async input => {
+				const filePath = resolveWorkspacePath(String(input.path));
+				const lines = (await fs.readFile(filePath, 'utf-8')).split('\n');
+
+				const start = Math.max(1, Math.floor(Number(input.startLine) || 1));
+				const requestedEnd = Math.floor(Number(input.endLine) || lines.length);
+				const end = Math.min(lines.length, requestedEnd, start + MAX_READ_LINES - 1);
+
+				let content = lines
+					.slice(start - 1, end)
+					.map((line, index) => `${start + index}: ${line}`)
+					.join('\n');
+				if (content.length > MAX_READ_CHARS) {
+					content = `${content.substring(0, MAX_READ_CHARS)}\n[... truncated]`;
+				}
+
+				return `${String(input.path)} (lines ${start}-${end} of ${lines.length})\n${content}`;
+			}
+		},
+		{
+			definition: {
+				name: 'list_files',
+				description: `List workspace files matching a glob pattern, optionally inside a directory. At most ${MAX_LISTED_FILES} files are returned.`,
+				input_schema: {
+					type: 'object',
+					properties: {
+						directory: { type: 'string', description: 'Workspace-relative directory (default: workspace root)' },
+						pattern: { type: 'string', description: 'Glob pattern relative to the directory (default **/*)' }
+					}
+				}
+			},
+			execute: async input => {
+				const directory = resolveWorkspacePath(input.directory ? String(input.directory) : '.');
+				const pattern = input.pattern ? String(input.pattern) : '**/*';
+				const uris = await vscode.workspace.findFiles(
+					new vscode.RelativePattern(directory, pattern),
+					LIST_EXCLUDE_GLOB,
+					MAX_LISTED_FILES
+				);
+
+				if (uris.length === 0) {
+					return 'No files found';
+				}
+
+				const files = uris.map(uri => vscode.workspace.asRelativePath(uri)).sort();
+				return `${files.length} files${files.length === MAX_LISTED_FILES ? ' (limit reached)' : ''}:\n${files.join('\n')}`;
+			}
+		}
+	];
+}
+
+/**
+ * Format semantic search results for the model
+ */
+function _formatSearchResults(results: SemanticSearchResult[]): string {
+	if (results.length === 0) {
+		return 'No matches found';
+	}
+
+	return results
+		.map(result => [
+			`${result.file}:${result.item.lineNumber} ${result.item.name} (${result.item.type}) - score ${result.relevanceScore.toFixed(2)}, ${result.matchReason}`,
+			'```',
+			result.item.content,
+			'```'
+		].join('\n'))
+		.join('\n\n');
+}
+
+/**
+ * Clamp a model-provided result limit to a sane range
+ */
+function _clampLimit(value: unknown, fallback: number): number {
+	const limit = Math.floor(Number(value));
+	return Number.isFinite(limit) && limit > 0 ? Math.min(limit, 50) : fallback;
+}
+
+/**
+ * Normalize a model-provided relative path to the form used by the indexes
+ */
+function _normalizeRelativePath(filePath: string): string {
+	return path.normalize(filePath.replace(/^\.?[\\/]/, ''));
+}
+
+/**
+ * Resolve a workspace-relative path, refusing paths outside the workspace
+ */
+export function resolveWorkspacePath(relativePath: string): string {
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	if (!workspaceFolder) {
+		throw new RSWEError('No workspace folder found', 'NO_WORKSPACE');
+	}
+
+	const root = workspaceFolder.uri.fsPath;
+	const resolved = path.resolve(root, relativePath);
+	if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+		throw new RSWEError(`Path is outside the workspace: ${relativePath}`, 'PATH_OUTSIDE_WORKSPACE');
+	}
+
+	return resolved;
+}
@@ -236,7 +236,7 @@ ${Array.from(analysis.dependencies.entries())
 		analysis.structure = classifiedFiles.structure;
 
 		// Step 3: Analysis - Deep analyze each code file
-		analysis.files = await this._analyzeCodeFiles(classifiedFiles.codeFiles);
+		analysis.files = await this._analyzeCodeFiles(classifiedFiles.codeFiles, workspaceRoot);
 		
 		// Step 4: Dependency Mapping - Build dependency graph
 		analysis.dependencies = await this._buildDependencyGraph(analysis.files);
@@ -329,7 +329,7 @@ ${Array.from(analysis.dependencies.entries())
 		return { codeFiles, structure };
 	}
 
-	private async _analyzeCodeFiles(codeFiles: string[]): Promise<ProjectFile[]> {
+	private async _analyzeCodeFiles(codeFiles: string[], workspaceRoot: string): Promise<ProjectFile[]> {
 		const fs = require('fs').promises;
 		const path = require('path');
 		const analyzedFiles: ProjectFile[] = [];
@@ -342,7 +342,7 @@ ${Array.from(analysis.dependencies.entries())
 
 				const projectFile: ProjectFile = {
 					path: filePath,
-					relativePath: path.relative(process.cwd(), filePath),
+					relativePath: path.relative(workspaceRoot, filePath),
 					name: path.basename(filePath),
 					extension: ext,
 					type: 'file',
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode';
+import { PromptSectionCaps } from '@/types';
+import { SYSTEM_PROMPT } from '@/utils/system_prompt';
+import { ProjectContextManager } from '@/core/ProjectContextManager';
+import { DependencyGraphManager } from '@/core/DependencyGraphManager';
+
+// Lines shown around the cursor when the active editor has no selection
+const CURSOR_CONTEXT_LINES = 40;
+
+/**
+ * A single section of the assembled system prompt
+ */
+export interface PromptSection {
+	name: string;
+	content: string;
+	originalLength: number;
+	truncated: boolean;
+}
+
+/**
+ * System prompt assembled for a Claude request
+ */
+export interface AssembledPrompt {
+	text: string;
+	sections: PromptSection[];
+	assembledAt: Date;
+}
+
+/**
+ * PromptAssembler - Builds the Claude system prompt for every request
+ *
+ * Combines:
+ * - The RSWE base system prompt
+ * - The current project analysis summary
+ * - The dependency graph status
+ * - The active editor's file and selection
+ *
+ * Each section is capped to a configurable number of characters, and the last
+ * assembled prompt is kept so it can be inspected for debugging.
+ */
+export class PromptAssembler {
+	private _lastPrompt: AssembledPrompt | null = null;
+
+	constructor(
+		private readonly _projectContextManager: ProjectContextManager,
+		private readonly _dependencyGraphManager: DependencyGraphManager
+	) {}
+
+	/**
+	 * Assemble the system prompt from the current project state
+	 */
+	public assemble(caps: PromptSectionCaps): AssembledPrompt {
+		const sections = [
+			this._createSection('Base Instructions', SYSTEM_PROMPT.trim(), caps.maxBaseChars),
+			this._createSection('Project Context', this._buildProjectSection(), caps.maxProjectChars),
+			this._createSection('Dependency Graph', this._buildDependencySection(), caps.maxDependencyChars),
+			this._createSection('Active Editor', this._buildEditorSection(), caps.maxEditorChars)
+		].filter(section => section.content.length > 0);
+
+		const text = sections
+			.map(section => section.name === 'Base Instructions'
+				? section.content
+				: `# ${section.name}\n\n${section.content}`)
+			.join('\n\n---\n\n');
+
+		this._lastPrompt = { text, sections, assembledAt: new Date() };
+		return this._lastPrompt;
+	}
+
+	/**
+	 * Get the most recently assembled prompt
+	 */
+	public getLastAssembledPrompt(): AssembledPrompt | null {
+		return this._lastPrompt;
+	}
+
+	/**
+	 * Render an assembled prompt as a markdown debug report
+	 */
+	public static formatForDebug(prompt: AssembledPrompt): string {
+		const summary = prompt.sections
+			.map(section => `| ${section.name} | ${section.content.length} | ${section.originalLength} | ${section.truncated ? 'yes' : 'no'} |`)
+			.join('\n');
+
+		return `# RSWE System Prompt (${prompt.assembledAt.toLocaleString()})
+
+| Section | Chars sent | Original chars | Truncated |
+|---|---|---|---|
+${summary}
+
+---
+
+${prompt.text}
+`;
+	}
+
+	/**
+	 * Build the project analysis summary section
+	 */
+	private _buildProjectSection(): string {
+		if (!this._projectContextManager.getCurrentAnalysis()) {
+			return '';
+		}
+		return this._projectContextManager.getContextForChat();
+	}
+
+	/**
+	 * Build the dependency graph status section
+	 */
+	private _buildDependencySection(): string {
+		const status = this._dependencyGraphManager.getGraphStatus();
+		if (!status.isInitialized) {
+			return '';
+		}
+
+		const lines = [
+			`- **Files in graph:** ${status.totalNodes}`,
+			`- **Internal dependencies:** ${status.totalEdges}`,
+			`- **Circular dependencies:** ${status.circularDependencies}`
+		];
+
+		if (status.circularDependencies > 0) {
+			const cycles = this._dependencyGraphManager.findCircularDependencies();
+			lines.push('', '**Detected cycles:**');
+			for (const cycle of cycles) {
+				lines.push(`- (${cycle.severity}) ${cycle.cycle.join(' → ')}`);
+			}
+		}
+
+		return lines.join('\n');
+	}
+
+	/**
+	 * Build the active editor section (file, selection or text around the cursor)
+	 */
+	private _buildEditorSection(): string {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor) {
+			return '';
+		}
+
+		const document = editor.document;
+		const selection = editor.selection;
+		const lines = [
+			`- **File:** ${vscode.workspace.asRelativePath(document.uri)}`,
+			`- **Language:** ${document.languageId}`,
+			`- **Lines:** ${document.lineCount}`,
+			`- **Cursor:** line ${selection.active.line + 1}, column ${selection.active.character + 1}`
+		];
+
+		if (!selection.isEmpty) {
+			lines.push(
+				'',
+				`**Selection (lines ${selection.start.line + 1}-${selection.end.line + 1}):**`,
+				'```' + document.languageId,
+				document.getText(selection),
+				'```'
+			);
+		} else {
+			const start = Math.max(0, selection.active.line - CURSOR_CONTEXT_LINES / 2);
+			const end = Math.min(document.lineCount - 1, selection.active.line + CURSOR_CONTEXT_LINES / 2);
+			const range = new vscode.Range(start, 0, end, document.lineAt(end).text.length);
+			lines.push(
+				'',
+				`**Code around cursor (lines ${start + 1}-${end + 1}):**`,
+				'```' + document.languageId,
+				document.getText(range),
+				'```'
+			);
+		}
+
+		return lines.join('\n');
+	}
+
+	/**
+	 * Create a prompt section, truncating content that exceeds its cap
+	 */
+	private _createSection(name: string, content: string, maxChars: number): PromptSection {
+		if (content.length <= maxChars) {
+			return { name, content, originalLength: content.length, truncated: false };
+		}
+
+		const omitted = content.length - maxChars;
+		return {
+			name,
+			content: `${content.substring(0, maxChars)}\n\n[... ${omitted} characters truncated]`,
+			originalLength: content.length,
+			truncated: true
+		};
+	}
+}
@@ -0,0 +1,242 @@
+import { MCPError, RSWEConfig } from '@/types';
+import { ChatTool } from '@/core/ChatToolRegistry';
+import { createProjectChatTools } from '@/core/ProjectChatTools';
+import { ProjectContextManager } from '@/core/ProjectContextManager';
+import { SemanticSearchManager } from '@/core/SemanticSearchManager';
+import { DependencyGraphManager } from '@/core/DependencyGraphManager';
+import { SecretRedactor } from '@/core/SecretRedactor';
+import { MCP_PROTOCOL_VERSION } from '@/services/mcp/MCPClient';
+import { MCPHttpServer } from '@/services/mcp/MCPHttpServer';
+import { JsonRpcMessage, JsonRpcRequest, JsonRpcResponse } from '@/services/mcp/MCPTransport';
+
+// JSON-RPC error codes used in responses
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+// Project chat tools served to clients. Search results include file contents,
+// so every served result is redacted; whole-file reading and listing are not
+// served because the endpoint has no authentication.
+const SERVED_PROJECT_TOOLS = new Set(['search_code', 'find_symbol', 'get_dependencies']);
+
+/**
+ * A read-only resource served to MCP clients
+ */
+interface ServedResource {
+	uri: string;
+	name: string;
+	description: string;
+	mimeType: string;
+	read(): Promise<string>;
+}
+
+/**
+ * RSWEMCPServer - Exposes RSWE's project intelligence to other MCP clients
+ *
+ * Serves the project search, dependency and analysis queries as MCP tools and
+ * resources over a local HTTP endpoint. Clients that only speak stdio connect
+ * through the bundled dist/mcp-server.js bridge.
+ */
+export class RSWEMCPServer {
+	private readonly _tools: ChatTool[];
+	private readonly _resources: ServedResource[];
+	private _httpServer: MCPHttpServer | null = null;
+	private _activeConfig: string | null = null;
+
+	constructor(
+		private readonly _projectContextManager: ProjectContextManager,
+		semanticSearchManager: SemanticSearchManager,
+		private readonly _dependencyGraphManager: DependencyGraphManager,
+		private readonly _secretRedactor: SecretRedactor
+	) {
+		this._tools = [
+			...createProjectChatTools(semanticSearchManager, _dependencyGraphManager)
+				.filter(tool => SERVED_PROJECT_TOOLS.has(tool.definition.name)),
+			...this._createReportTools()
+		];
+		this._resources = this._createResources();
+	}
+
+	/**
+	 * Start, stop or restart the endpoint to match the configuration
+	 */
+	public async applyConfig(config: RSWEConfig['mcpServer']): Promise<void> {
+		const configKey = JSON.stringify(config);
+		if (configKey === this._activeConfig) return;
+
+		await this.stop();
+		if (!config.enabled) return;
+
+		const httpServer = new MCPHttpServer(
+			{ host: config.host, port: config.port, allowedAddresses: config.allowedAddresses },
+			message => this.handleMessage(message)
+		);
+		const url = await httpServer.start();
+		this._httpServer = httpServer;
+		this._activeConfig = configKey;
+		console.log(`✅ RSWEMCPServer: Serving project intelligence at ${url}`);
+	}
+
+	/**
+	 * Get the endpoint URL while the server is running
+	 */
+	public getUrl(): string | undefined {
+		return this._httpServer?.getUrl();
+	}
+
+	public async stop(): Promise<void> {
+		const httpServer = this._httpServer;
+		this._httpServer = null;
+		this._activeConfig = null;
+		await httpServer?.stop();
+	}
+
+	/**
+	 * Answer one JSON-RPC message from a client; notifications get no response
+	 */
+	public async handleMessage(message: JsonRpcMessage): Promise<JsonRpcResponse | null> {
+		if (!('method' in message)) {
+			return null; // Responses to server requests are not expected
+		}
+		if (!('id' in message) || message.id === undefined) {
+			return null;
+		}
+
+		const request = message as JsonRpcRequest;
+		try {
+			return { jsonrpc: '2.0', id: request.id, result: await this._dispatch(request) };
+		} catch (error) {
+			const code = error instanceof MCPError && typeof error.context?.["code"] === 'number' ? error.context["code"] : INTERNAL_ERROR;
+			return {
+				jsonrpc: '2.0',
+				id: request.id,
+				error: { code, message: error instanceof Error ? error.message : 'Unknown error' }
+			};
+		}
+	}
+
+	private async _dispatch(request: JsonRpcRequest): Promise<any> {
+		const params = request.params ?? {};
+
+		switch (request.method) {
+			case 'initialize':
+				return {
+					protocolVersion: MCP_PROTOCOL_VERSION,
+					capabilities: { tools: {}, resources: {} },
+					serverInfo: { name: 'rswe', version: '1.0.0' },
+					instructions: 'Project intelligence for the workspace open in VS Code: semantic code search, symbol lookup, dependency graph queries and analysis summaries.'
+				};
+
+			case 'ping':
+				return {};
+
+			case 'tools/list':
+				return {
+					tools: this._tools.map(tool => ({
+						name: tool.definition.name,
+						description: tool.definition.description ?? '',
+						inputSchema: tool.definition.input_schema
+					}))
+				};
+
+			case 'tools/call': {
+				const tool = this._tools.find(candidate => candidate.definition.name === params.name);
+				if (!tool) {
+					throw new MCPError(`Unknown tool: ${params.name}`, { code: INVALID_PARAMS });
+				}
+				const source = `mcp-server:${tool.definition.name}`;
+				try {
+					const text = await tool.execute(params.arguments ?? {});
+					return { content: [{ type: 'text', text: this._secretRedactor.redact(text, source) }] };
+				} catch (error) {
+					// Tool failures are results the client's model can react to
+					const message = error instanceof Error ? error.message : 'Unknown error';
+					return {
+						content: [{ type: 'text', text: this._secretRedactor.redact(message, source) }],
+						isError: true
+					};
+				}
+			}
+
+			case 'resources/list':
+				return {
+					resources: this._resources.map(({ uri, name, description, mimeType }) => ({ uri, name, description, mimeType }))
+				};
+
+			case 'resources/read': {
+				const resource = this._resources.find(candidate => candidate.uri === params.uri);
+				if (!resource) {
+					throw new MCPError(`Unknown resource: ${params.uri}`, { code: INVALID_PARAMS });
+				}
+				const text = this._secretRedactor.redact(await resource.read(), `mcp-server:${resource.uri}`);
+				return {
+					contents: [{ uri: resource.uri, mimeType: resource.mimeType, text }]
+				};
+			}
+
+			default:
+				throw new MCPError(`Method not supported: ${request.method}`, { code: METHOD_NOT_FOUND });
+		}
+	}
+
+	/**
+	 * Tools for whole-project dependency and analysis queries
+	 */
+	private _createReportTools(): ChatTool[] {
+		return [
+			{
+				definition: {
+					name: 'get_dependency_cycles',
+					description: 'List circular dependencies between project files with their severity.',
+					input_schema: { type: 'object', properties: {} }
+				},
+				execute: async () => {
+					const cycles = this._dependencyGraphManager.findCircularDependencies();
+					return cycles.length > 0 ? JSON.stringify(cycles, null, 2) : 'No circular dependencies found';
+				}
+			},
+			{
+				definition: {
+					name: 'get_dependency_report',
+					description: 'Get dependency graph metrics: most depended-on files, files with most dependencies, depth and file types.',
+					input_schema: { type: 'object', properties: {} }
+				},
+				execute: async () => JSON.stringify(this._dependencyGraphManager.getDependencyReport(), null, 2)
+			},
+			{
+				definition: {
+					name: 'get_project_summary',
+					description: 'Summarize the project: file and line counts, languages, structure and key dependencies.',
+					input_schema: { type: 'object', properties: {} }
+				},
+				execute: async () => this._projectContextManager.getContextForChat()
+			}
+		];
+	}
+
+	private _createResources(): ServedResource[] {
+		return [
+			{
+				uri: 'rswe://project/summary',
+				name: 'Project summary',
+				description: 'Overview of the project structure, languages and key dependencies',
+				mimeType: 'text/markdown',
+				read: async () => this._projectContextManager.getContextForChat()
+			},
+			{
+				uri: 'rswe://dependencies/report',
+				name: 'Dependency report',
+				description: 'Dependency graph metrics and most connected files',
+				mimeType: 'application/json',
+				read: async () => JSON.stringify(this._dependencyGraphManager.getDependencyReport(), null, 2)
+			},
+			{
+				uri: 'rswe://dependencies/cycles',
+				name: 'Circular dependencies',
+				description: 'Cycles in the project dependency graph',
+				mimeType: 'application/json',
+				read: async () => JSON.stringify(this._dependencyGraphManager.findCircularDependencies(), null, 2)
+			}
+		];
+	}
+}
@@ -12,8 +12,35 @@ import {
 	MCPError, 
 	ProjectStructure,
 	ProjectFile,
-	ProjectMetrics
+	ProjectMetrics,
+	ToolActivity,
+	ToolApprovalDecision
 } from '@/types';
+import { buildConversationMessages, estimateMessageTokens, estimateTokens, getContextWindow } from '@/utils/conversation';
+import { PromptAssembler } from '@/core/PromptAssembler';
+import { ChatToolRegistry } from '@/core/ChatToolRegistry';
+import { MCPManager } from '@/core/MCPManager';
+import { WorkspaceMCPConfig, resolveMCPServerVariables } from '@/core/WorkspaceMCPConfig';
+import { parseMCPServerDefinitions } from '@/core/MCPSettings';
+import { ValidatorRegistry } from '@/core/ValidatorRegistry';
+import { TypeScriptValidator } from '@/services/validation/TypeScriptValidator';
+import { EslintValidator } from '@/services/validation/EslintValidator';
+import { RegexRulesValidator } from '@/services/validation/RegexRulesValidator';
+import { SecretValidator } from '@/services/validation/SecretValidator';
+import { SecretRedactor } from '@/core/SecretRedactor';
+
+// Maximum tokens Claude may generate per response
+const MAX_OUTPUT_TOKENS = 2048;
+
+// Structured results such as code reviews list many entries
+const MAX_STRUCTURED_OUTPUT_TOKENS = 8192;
+
+// Smallest share of a tool result worth sending when it has to be truncated
+// to fit the context window
+const MIN_TRUNCATED_TOOL_RESULT_TOKENS = 500;
+
+// Fallback system prompt used until project intelligence is attached
+const DEFAULT_SYSTEM_PROMPT = `You are RSWE (Real-time Software Engineering), an AI-powered coding assistant integrated with VS Code. You have access to the user's project context and can provide intelligent suggestions, code analysis, and assistance.`;
 
 /**
  * Core RSWE Manager - The Brain of RSWE-V1
@@ -28,11 +55,32 @@ export class RSWEManager {
 	private config!: RSWEConfig;
 	private claudeClient?: Anthropic;
 	private projectAnalysis: ProjectAnalysis | null = null;
-	private mcpServers: MCPServer[] = [];
+	private readonly mcpManager = new MCPManager();
+	private readonly workspaceMCPConfig = new WorkspaceMCPConfig();
+	// Ids defined in .rswe/mcp.json as of the last refresh
+	private workspaceMCPServerIds = new Set<string>();
+	private readonly typeScriptValidator = new TypeScriptValidator();
+	private readonly validatorRegistry = new ValidatorRegistry();
+	private readonly secretRedactor: SecretRedactor;
+	private promptAssembler?: PromptAssembler;
+	private toolRegistry?: ChatToolRegistry;
 	private isInitialized = false;
 
-	constructor(_context: vscode.ExtensionContext) {
-		// Extension context is available if needed for future features
+	constructor(context: vscode.ExtensionContext) {
+		this.secretRedactor = new SecretRedactor(context.storageUri ?? context.globalStorageUri);
+
+		this.validatorRegistry.register(this.typeScriptValidator);
+		this.validatorRegistry.register(new SecretValidator());
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+		if (workspaceFolder) {
+			this.validatorRegistry.register(new EslintValidator(workspaceFolder.uri.fsPath));
+			this.validatorRegistry.register(new RegexRulesValidator(workspaceFolder));
+		}
+
+		// Reconnect servers when .rswe/mcp.json changes
+		this.workspaceMCPConfig.onDidChange(() => {
+			this.refreshMCPServers().catch(error => console.warn('Failed to reload .rswe/mcp.json:', error));
+		});
 	}
 
 	/**
@@ -42,7 +90,9 @@ export class RSWEManager {
 		try {
 			await this.updateConfiguration();
 			await this._initializeClaudeClient();
-			await this._initializeMCPServers();
+			// Server handshakes can take seconds; the MCP tree and chat tools
+			// update through onDidChangeServers as connections come up
+			void this._initializeMCPServers();
 			this.isInitialized = true;
 			console.log('RSWE Manager initialized successfully');
 		} catch (error) {
@@ -71,15 +121,48 @@ export class RSWEManager {
 					enableSemanticSearch: config.get<boolean>('context.enableSemanticSearch') ?? true
 				},
 				validation: {
-					enablePreExecution: config.get<boolean>('validation.enablePreExecution') ?? true
+					enablePreExecution: config.get<boolean>('validation.enablePreExecution') ?? true,
+					autoFix: config.get<boolean>('validation.autoFix') ?? true,
+					maxAutoFixAttempts: config.get<number>('validation.maxAutoFixAttempts') ?? 2,
+					timeoutMs: config.get<number>('validation.timeoutMs') ?? 10000,
+					validators: config.get<Record<string, unknown>>('validation.validators') || {}
 				},
 				mcp: {
-					enabledServers: config.get<string[]>('mcp.enabledServers') || []
+					enabledServers: config.get<string[]>('mcp.enabledServers') || [],
+					servers: parseMCPServerDefinitions(config.get<Record<string, unknown>>('mcp.servers') || {})
+				},
+				mcpServer: {
+					enabled: config.get<boolean>('mcpServer.enabled') ?? false,
+					host: config.get<string>('mcpServer.host') || '127.0.0.1',
+					port: config.get<number>('mcpServer.port') ?? 7420,
+					allowedAddresses: config.get<string[]>('mcpServer.allowedAddresses') || ['127.0.0.1', '::1']
+				},
+				search: {
+					semanticWeight: config.get<number>('search.semanticWeight') ?? 0.5,
+					embeddings: {
+						provider: config.get<string>('search.embeddings.provider') || 'local',
+						url: config.get<string>('search.embeddings.url') || '',
+						model: config.get<string>('search.embeddings.model') || '',
+						apiKey: config.get<string>('search.embeddings.apiKey') || ''
+					}
+				},
+				security: {
+					redactSecrets: config.get<boolean>('security.redactSecrets') ?? true
+				},
+				tools: {
+					maxCallsPerTurn: config.get<number>('tools.maxCallsPerTurn') ?? 10
+				},
+				prompt: {
+					maxBaseChars: config.get<number>('prompt.maxBaseChars') ?? 12000,
+					maxProjectChars: config.get<number>('prompt.maxProjectChars') ?? 4000,
+					maxDependencyChars: config.get<number>('prompt.maxDependencyChars') ?? 2000,
+					maxEditorChars: config.get<number>('prompt.maxEditorChars') ?? 8000
 				}
 			};
 
 			// Validate configuration
 			this.config = RSWEConfigSchema.parse(rawConfig);
+			this.secretRedactor.setEnabled(this.config.security.redactSecrets);
 
 			// Reinitialize Claude client if API key changed
 			if (this.isInitialized) {
@@ -105,10 +188,31 @@ export class RSWEManager {
 		return this.config;
 	}
 
+	/**
+	 * Attach the prompt assembler that builds project-aware system prompts
+	 */
+	public setPromptAssembler(assembler: PromptAssembler): void {
+		this.promptAssembler = assembler;
+	}
+
+	/**
+	 * Attach the registry of tools Claude may call during chat turns
+	 */
+	public setToolRegistry(registry: ChatToolRegistry): void {
+		this.toolRegistry = registry;
+	}
+
+	/**
+	 * Get the prompt assembler, if project intelligence is attached
+	 */
+	public getPromptAssembler(): PromptAssembler | undefined {
+		return this.promptAssembler;
+	}
+
 	/**
 	 * Send a chat message to Claude and get response
 	 */
-	public async sendChatMessage(message: string, _context: ChatMessage[] = []): Promise<{
+	public async sendChatMessage(message: string, history: ChatMessage[] = []): Promise<{
 		content: string;
 		metadata: { tokens: number };
 	}> {
@@ -117,14 +221,13 @@ export class RSWEManager {
 		}
 
 		try {
-			// System prompt for AI assistance
-			const systemPrompt = `You are RSWE (Real-time Software Engineering), an AI-powered coding assistant integrated with VS Code. You have access to the user's project context and can provide intelligent suggestions, code analysis, and assistance.`;
+			const systemPrompt = this._buildSystemPrompt();
 
 			const response = await this.claudeClient.messages.create({
 				model: this.config.anthropic.model,
-				max_tokens: 2048,
+				max_tokens: MAX_OUTPUT_TOKENS,
 				system: systemPrompt,
-				messages: [{ role: 'user', content: message }]
+				messages: this._buildConversation(message, history, systemPrompt)
 			});
 
 			const content = response.content[0];
@@ -149,42 +252,210 @@ export class RSWEManager {
 		}
 	}
 
+	/**
+	 * Ask Claude for a structured result: the model is made to call `tool`,
+	 * and the tool input is returned unvalidated for the caller to parse
+	 */
+	public async requestStructuredOutput(message: string, tool: Anthropic.Tool): Promise<unknown> {
+		if (!this.claudeClient || !this.config) {
+			throw new ClaudeError('Claude client not initialized');
+		}
+
+		try {
+			const response = await this.claudeClient.messages.create({
+				model: this.config.anthropic.model,
+				max_tokens: MAX_STRUCTURED_OUTPUT_TOKENS,
+				system: this._buildSystemPrompt(),
+				messages: [{ role: 'user', content: this.secretRedactor.redact(message, 'request') }],
+				tools: [tool],
+				tool_choice: { type: 'tool', name: tool.name }
+			});
+
+			const toolUse = response.content.find(block => block.type === 'tool_use');
+			if (!toolUse || toolUse.type !== 'tool_use') {
+				throw new Error(`Claude did not call ${tool.name}`);
+			}
+			if (response.stop_reason === 'max_tokens') {
+				throw new Error('The response was cut off before it was complete');
+			}
+			return toolUse.input;
+		} catch (error) {
+			throw new ClaudeError(error instanceof Error ? error.message : 'Unknown error occurred');
+		}
+	}
+
 	/**
 	 * Send streaming chat message with real-time updates
+	 *
+	 * Runs the tool-use loop: tool calls requested by Claude are executed through
+	 * the attached tool registry and their results fed back until the model stops,
+	 * up to `tools.maxCallsPerTurn` calls per user turn. Tool results are
+	 * truncated to the room left in the context window, and once it is full
+	 * further calls are refused. Tools that require approval only run once
+	 * `onToolApproval` allows them; without a handler they are denied.
 	 */
 	public async sendStreamingChatMessage(
 		message: string,
-		
 		onProgress: (chunk: { content: string; done: boolean }) => void,
-		
+		history: ChatMessage[] = [],
+		onToolActivity?: (activity: ToolActivity) => void,
+		onToolApproval?: (activity: ToolActivity) => Promise<ToolApprovalDecision>
 	): Promise<{ content: string; metadata: { tokens: number } }> {
 		if (!this.claudeClient || !this.config) {
 			throw new ClaudeError('Claude client not initialized');
 		}
 
 		try {
-			// System prompt for AI assistance
-			const systemPrompt = `You are RSWE (Real-time Software Engineering), an AI-powered coding assistant integrated with VS Code. You have access to the user's project context and can provide intelligent suggestions, code analysis, and assistance.`;
-
-			const stream = await this.claudeClient.messages.create({
-				model: this.config.anthropic.model,
-				max_tokens: 2048,
-				system: systemPrompt,
-				messages: [{ role: 'user', content: message }],
-				stream: true
-			});
+			const systemPrompt = this._buildSystemPrompt();
+			const messages = this._buildConversation(message, history, systemPrompt);
+			const tools = this.toolRegistry?.getDefinitions() ?? [];
+			const maxToolCalls = this.config.tools.maxCallsPerTurn;
+			// Re-checked as tool calls and results are added during the turn
+			const tokenBudget = this._getTokenBudget(systemPrompt) - estimateTokens(JSON.stringify(tools));
+			let usedTokens = estimateMessageTokens(messages);
 
 			let fullContent = '';
 			let totalTokens = 0;
+			let toolCalls = 0;
+			let limitReported = false;
+			let contextFull = false;
+
+			while (true) {
+				const stream = await this.claudeClient.messages.create({
+					model: this.config.anthropic.model,
+					max_tokens: MAX_OUTPUT_TOKENS,
+					system: systemPrompt,
+					messages,
+					...(tools.length > 0 ? { tools } : {}),
+					stream: true
+				});
+
+				const blocks: StreamedContentBlock[] = [];
+				let stopReason: string | null = null;
+				let hasText = false;
+
+				for await (const chunk of stream) {
+					if (chunk.type === 'content_block_start') {
+						blocks[chunk.index] = chunk.content_block.type === 'tool_use'
+							? { type: 'tool_use', id: chunk.content_block.id, name: chunk.content_block.name, inputJson: '' }
+							: { type: 'text', text: '' };
+					}
+					else if (chunk.type === 'content_block_delta') {
+						const block = blocks[chunk.index];
+						if (chunk.delta.type === 'text_delta' && block?.type === 'text') {
+							// Separate text from earlier iterations of the loop
+							if (!hasText && fullContent) {
+								fullContent += '\n\n';
+							}
+							hasText = true;
+							block.text += chunk.delta.text;
+							fullContent += chunk.delta.text;
+							onProgress({ content: fullContent, done: false });
+						} else if (chunk.delta.type === 'input_json_delta' && block?.type === 'tool_use') {
+							block.inputJson += chunk.delta.partial_json;
+						}
+					}
+					else if (chunk.type === 'message_delta') {
+						stopReason = chunk.delta.stop_reason;
+						if (chunk.usage) {
+							totalTokens += chunk.usage.output_tokens;
+						}
+					}
+				}
 
-			for await (const chunk of stream) {
-				if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-					fullContent += chunk.delta.text;
+				const toolUses = blocks.filter((block): block is StreamedToolUseBlock => block?.type === 'tool_use');
+				if (stopReason !== 'tool_use' || toolUses.length === 0 || !this.toolRegistry) {
+					break;
+				}
+
+				// The model kept calling tools after being told the limit was reached
+				if (limitReported) {
+					fullContent += `${fullContent ? '\n\n' : ''}_Stopped after reaching the limit of ${maxToolCalls} tool calls for this turn._`;
 					onProgress({ content: fullContent, done: false });
+					break;
 				}
-				else if (chunk.type === 'message_delta' && chunk.usage) {
-					totalTokens = chunk.usage.output_tokens;
+				if (contextFull) {
+					fullContent += `${fullContent ? '\n\n' : ''}_Stopped because the conversation filled the context window._`;
+					onProgress({ content: fullContent, done: false });
+					break;
 				}
+
+				const assistantMessage: Anthropic.MessageParam = {
+					role: 'assistant',
+					content: blocks.filter(block => block).map(block => block.type === 'tool_use'
+						? { type: 'tool_use' as const, id: block.id, name: block.name, input: this._parseToolInput(block.inputJson) }
+						: { type: 'text' as const, text: block.text })
+				};
+				messages.push(assistantMessage);
+				usedTokens += estimateMessageTokens([assistantMessage]);
+
+				const results: Anthropic.ToolResultBlockParam[] = [];
+				for (const toolUse of toolUses) {
+					const input = this._parseToolInput(toolUse.inputJson);
+
+					if (contextFull) {
+						results.push({
+							type: 'tool_result',
+							tool_use_id: toolUse.id,
+							content: 'Not run: the conversation has no room left in the context window. Answer with the information gathered so far.',
+							is_error: true
+						});
+						continue;
+					}
+
+					if (toolCalls >= maxToolCalls) {
+						limitReported = true;
+						results.push({
+							type: 'tool_result',
+							tool_use_id: toolUse.id,
+							content: `Tool call limit of ${maxToolCalls} per turn reached. Answer with the information gathered so far.`,
+							is_error: true
+						});
+						continue;
+					}
+
+					toolCalls++;
+					if (this.toolRegistry.requiresApproval(toolUse.name)) {
+						const pending: ToolActivity = { id: toolUse.id, name: toolUse.name, input, status: 'awaiting-approval' };
+						onToolActivity?.(pending);
+						const decision = onToolApproval ? await onToolApproval(pending) : 'deny';
+						if (decision === 'deny') {
+							const denial = 'The user denied this tool call. Do not retry it; continue without it or ask the user how to proceed.';
+							onToolActivity?.({ ...pending, status: 'denied', result: denial });
+							results.push({ type: 'tool_result', tool_use_id: toolUse.id, content: denial, is_error: true });
+							continue;
+						}
+					}
+
+					onToolActivity?.({ id: toolUse.id, name: toolUse.name, input, status: 'running' });
+					const result = await this.toolRegistry.execute(toolUse.name, input);
+					onToolActivity?.({
+						id: toolUse.id,
+						name: toolUse.name,
+						input,
+						status: result.isError ? 'error' : 'completed',
+						result: result.content
+					});
+
+					let content = this.secretRedactor.redact(result.content, `tool:${toolUse.name}`);
+					const available = tokenBudget - usedTokens;
+					if (estimateTokens(content) > available) {
+						contextFull = true;
+						content = available >= MIN_TRUNCATED_TOOL_RESULT_TOKENS
+							? `${content.substring(0, (available - MIN_TRUNCATED_TOOL_RESULT_TOKENS / 2) * 4)}\n\n[Truncated to fit the context window. Answer with the information gathered so far.]`
+							: 'Result dropped: the conversation has no room left in the context window. Answer with the information gathered so far.';
+					}
+					usedTokens += estimateTokens(content);
+
+					results.push({
+						type: 'tool_result',
+						tool_use_id: toolUse.id,
+						content,
+						...(result.isError ? { is_error: true } : {})
+					});
+				}
+
+				messages.push({ role: 'user', content: results });
 			}
 
 			// Signal completion
@@ -206,6 +477,50 @@ export class RSWEManager {
 		}
 	}
 
+	/**
+	 * Parse the streamed JSON input of a tool call
+	 */
+	private _parseToolInput(inputJson: string): Record<string, any> {
+		if (!inputJson.trim()) {
+			return {};
+		}
+		try {
+			const parsed = JSON.parse(inputJson);
+			return parsed && typeof parsed === 'object' ? parsed : {};
+		} catch {
+			return {};
+		}
+	}
+
+	/**
+	 * Build the system prompt for a request from the current project state
+	 */
+	private _buildSystemPrompt(): string {
+		if (!this.promptAssembler) {
+			return DEFAULT_SYSTEM_PROMPT;
+		}
+		return this.secretRedactor.redact(this.promptAssembler.assemble(this.config.prompt).text, 'system prompt');
+	}
+
+	/**
+	 * Tokens left for messages in the model's context window
+	 */
+	private _getTokenBudget(systemPrompt: string): number {
+		return getContextWindow(this.config.anthropic.model)
+			- MAX_OUTPUT_TOKENS
+			- estimateTokens(systemPrompt);
+	}
+
+	/**
+	 * Build the multi-turn message list that fits the model's context window,
+	 * with secrets redacted from every message
+	 */
+	private _buildConversation(message: string, history: ChatMessage[], systemPrompt: string): Anthropic.MessageParam[] {
+		return buildConversationMessages(history, message, this._getTokenBudget(systemPrompt)).map(turn => typeof turn.content === 'string'
+			? { ...turn, content: this.secretRedactor.redact(turn.content, `${turn.role} message`) }
+			: turn);
+	}
+
 	/**
 	 * Analyze the current project with comprehensive codebase intelligence
 	 */
@@ -559,17 +874,7 @@ export class RSWEManager {
 		}
 
 		try {
-			// This is a placeholder - in a full implementation,
-			// you would integrate with language servers, linters, and static analysis tools
-			const result: ValidationResult = {
-				isValid: true,
-				errors: [],
-				warnings: [],
-				suggestions: []
-			};
-
-			return result;
-
+			return await this.validatorRegistry.validate(document, this.config.validation);
 		} catch (error) {
 			throw new RSWEError(
 				`Code validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -583,56 +888,81 @@ export class RSWEManager {
 	 * Get MCP servers
 	 */
 	public async getMCPServers(): Promise<MCPServer[]> {
-		return this.mcpServers;
+		return this.mcpManager.getServers();
+	}
+
+	/**
+	 * Whether a server is defined in .rswe/mcp.json rather than in settings
+	 */
+	public isWorkspaceMCPServer(serverId: string): boolean {
+		return this.workspaceMCPServerIds.has(serverId);
+	}
+
+	/**
+	 * Get the URI of .rswe/mcp.json in the first workspace folder
+	 */
+	public getWorkspaceMCPConfigUri(): vscode.Uri | undefined {
+		return this.workspaceMCPConfig.getFileUri();
 	}
 
 	/**
-	 * Refresh MCP servers
+	 * Get the MCP manager that owns the server connections
+	 */
+	public getMCPManager(): MCPManager {
+		return this.mcpManager;
+	}
+
+	/**
+	 * Get the validators run by validateCode
+	 */
+	public getValidatorRegistry(): ValidatorRegistry {
+		return this.validatorRegistry;
+	}
+
+	/**
+	 * Get the redactor applied to everything sent to Claude and MCP clients
+	 */
+	public getSecretRedactor(): SecretRedactor {
+		return this.secretRedactor;
+	}
+
+	/**
+	 * Get the TypeScript validator behind validateCode
+	 */
+	public getTypeScriptValidator(): TypeScriptValidator {
+		return this.typeScriptValidator;
+	}
+
+	/**
+	 * Refresh MCP servers by restarting every enabled server from configuration.
+	 *
+	 * Servers from .rswe/mcp.json are merged over the rswe.mcp.servers settings
+	 * and connect unless marked disabled; settings servers connect when listed
+	 * in rswe.mcp.enabledServers.
 	 */
 	public async refreshMCPServers(): Promise<void> {
 		try {
-			// This is a placeholder - in a full implementation,
-			// you would implement actual MCP server management
-			this.mcpServers = [
-				{
-					id: 'git-server',
-					name: 'Git MCP Server',
-					status: 'connected',
-					transport: 'stdio',
-					tools: [
-						{
-							name: 'git_status',
-							description: 'Get git repository status',
-							parameters: {}
-						},
-						{
-							name: 'git_commit',
-							description: 'Create a git commit',
-							parameters: {
-								message: { type: 'string', description: 'Commit message' }
-							}
-						}
-					],
-					lastPing: new Date()
-				},
-				{
-					id: 'testing-server',
-					name: 'Testing MCP Server',
-					status: 'connected',
-					transport: 'stdio',
-					tools: [
-						{
-							name: 'run_tests',
-							description: 'Run project tests',
-							parameters: {
-								pattern: { type: 'string', description: 'Test pattern to match' }
-							}
-						}
-					],
-					lastPing: new Date()
+			const servers = { ...this.config.mcp.servers };
+			const enabledServers = new Set(this.config.mcp.enabledServers);
+
+			const workspaceServers = await this.workspaceMCPConfig.load();
+			this.workspaceMCPServerIds = new Set(Object.keys(workspaceServers));
+			for (const [id, server] of Object.entries(workspaceServers)) {
+				servers[id] = server.config;
+				if (server.enabled) {
+					enabledServers.add(id);
+				} else {
+					enabledServers.delete(id);
 				}
-			];
+			}
+
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+			const resolved = Object.fromEntries(Object.entries(servers).map(([id, config]) => [
+				id,
+				resolveMCPServerVariables(config, workspaceFolder)
+			]));
 
+			await this.mcpManager.refresh(resolved, Array.from(enabledServers));
 		} catch (error) {
 			throw new MCPError(
 				`Failed to refresh MCP servers: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -641,6 +971,30 @@ export class RSWEManager {
 		}
 	}
 
+	/**
+	 * Restart a single MCP server
+	 */
+	public async restartMCPServer(serverId: string): Promise<MCPServer> {
+		return this.mcpManager.restartServer(serverId);
+	}
+
+	/**
+	 * Ping a connected MCP server, returning the latency in milliseconds
+	 */
+	public async pingMCPServer(serverId: string): Promise<number> {
+		return this.mcpManager.pingServer(serverId);
+	}
+
+	/**
+	 * Dispose resources and shut down MCP server connections
+	 */
+	public async dispose(): Promise<void> {
+		this.workspaceMCPConfig.dispose();
+		// Also disposes the validators it holds
+		this.validatorRegistry.dispose();
+		await this.mcpManager.dispose();
+	}
+
 	/**
 	 * Initialize Claude client
 	 */
@@ -674,7 +1028,7 @@ export class RSWEManager {
 	private async _initializeMCPServers(): Promise<void> {
 		try {
 			await this.refreshMCPServers();
-			console.log(`Initialized ${this.mcpServers.length} MCP servers`);
+			console.log(`Initialized ${this.mcpManager.getServers().length} MCP servers`);
 		} catch (error) {
 			console.warn('Failed to initialize MCP servers:', error);
 			// Don't throw - MCP servers are optional
@@ -683,3 +1037,18 @@ export class RSWEManager {
 
 
 }
+
+// Content blocks accumulated while streaming a response
+interface StreamedTextBlock {
+	type: 'text';
+	text: string;
+}
+
+interface StreamedToolUseBlock {
+	type: 'tool_use';
+	id: string;
+	name: string;
+	inputJson: string;
+}
+
+type StreamedContentBlock = StreamedTextBlock | StreamedToolUseBlock;
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import { scanForSecrets } from '@/services/security/SecretScanner';
+
+// Audit log file in the extension's storage folder
+const AUDIT_LOG_FILE = 'redaction-audit.jsonl';
+
+/**
+ * A redaction recorded in the audit log. The secret itself is never stored.
+ */
+export interface RedactionAuditEntry {
+	timestamp: string;
+	// What was being sent, e.g. "system prompt" or "tool:read_file"
+	source: string;
+	ruleId: string;
+	fingerprint: string;
+}
+
+/**
+ * SecretRedactor - Removes credentials from text sent to Claude
+ *
+ * Secrets are replaced with a placeholder naming the kind of secret and its
+ * fingerprint, keeping line breaks so line numbers stay valid. Each secret is
+ * written to the audit log once per source and session. Placeholders that
+ * come back in proposed edits can be restored to the original secrets, which
+ * are only held in memory.
+ */
+export class SecretRedactor {
+	private readonly _secrets = new Map<string, string>();
+	private readonly _logged = new Set<string>();
+	private _writeQueue: Promise<void> = Promise.resolve();
+	private _enabled = true;
+
+	constructor(private readonly _storageUri: vscode.Uri) {}
+
+	public setEnabled(enabled: boolean): void {
+		this._enabled = enabled;
+	}
+
+	/**
+	 * Redact every secret in text, recording what was removed
+	 */
+	public redact(text: string, source: string): string {
+		if (!this._enabled) return text;
+
+		const matches = scanForSecrets(text);
+		if (matches.length === 0) return text;
+
+		const entries: RedactionAuditEntry[] = [];
+		let redacted = '';
+		let offset = 0;
+		for (const match of matches) {
+			const secret = text.substring(match.start, match.end);
+			const placeholder = `[REDACTED:${match.ruleId}:${match.fingerprint}]`;
+			this._secrets.set(placeholder, secret);
+			redacted += text.substring(offset, match.start) + placeholder + '\n'.repeat(secret.split('\n').length - 1);
+			offset = match.end;
+
+			const key = `${source}|${match.fingerprint}`;
+			if (!this._logged.has(key)) {
+				this._logged.add(key);
+				entries.push({ timestamp: new Date().toISOString(), source, ruleId: match.ruleId, fingerprint: match.fingerprint });
+			}
+		}
+		redacted += text.substring(offset);
+
+		if (entries.length > 0) {
+			console.log(`🛡️ SecretRedactor: Redacted ${entries.length} secrets from ${source}`);
+			this._appendToAuditLog(entries);
+		}
+		return redacted;
+	}
+
+	/**
+	 * Put the original secrets back in place of placeholders produced by redact
+	 */
+	public restore(text: string): string {
+		return text.replace(/(\[REDACTED:[a-z0-9-]+:[0-9a-f]{8}\])(\n*)/g, (match, placeholder: string, newlines: string) => {
+			const secret = this._secrets.get(placeholder);
+			if (secret === undefined) return match;
+
+			// Drop the line breaks that stood in for those of a multi-line secret
+			const padding = secret.split('\n').length - 1;
+			return secret + newlines.substring(Math.min(padding, newlines.length));
+		});
+	}
+
+	public getAuditLogUri(): vscode.Uri {
+		return vscode.Uri.joinPath(this._storageUri, AUDIT_LOG_FILE);
+	}
+
+	private _appendToAuditLog(entries: RedactionAuditEntry[]): void {
+		const lines = entries.map(entry => JSON.stringify(entry) + '\n').join('');
+
+		// Writes are serialized to keep entries in order
+		this._writeQueue = this._writeQueue.then(async () => {
+			await fs.mkdir(this._storageUri.fsPath, { recursive: true });
+			await fs.appendFile(this.getAuditLogUri().fsPath, lines, 'utf8');
+		}).catch(error => {
+			console.warn('SecretRedactor: Failed to write the audit log:', error);
+		});
+	}
+}
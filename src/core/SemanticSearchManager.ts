@@ -1,11 +1,67 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
+import * as path from 'path';
 
 import {
 	ProjectAnalysis,
 	ProjectFile,
 	RSWEError
 } from '@/types';
+import { SymbolExtractorRegistry } from '@/core/SymbolExtractorRegistry';
+import { EmbeddingProvider } from '@/services/embeddings/EmbeddingProvider';
+import { VectorIndex } from '@/services/embeddings/VectorIndex';
+import { cosineSimilarity } from '@/services/embeddings/vectors';
+import { BM25Index, BM25Match } from '@/services/search/BM25Index';
+import { CloneUnit, detectClones } from '@/services/search/CloneDetector';
+import { SearchIndexStore } from '@/services/search/SearchIndexStore';
+import { SearchableCodeItem, SearchableItemType, SourceRange } from '@/services/search/SearchableCodeItem';
+import { SearchFilters, createSearchFilter, describeSearchFilters } from '@/services/search/SearchFilters';
+import { SearchQuery, SearchQueryTerm, parseSearchQuery } from '@/services/search/SearchQuery';
+import { CSharpSymbolExtractor } from '@/services/search/extractors/CSharpSymbolExtractor';
+import { GoSymbolExtractor } from '@/services/search/extractors/GoSymbolExtractor';
+import { JavaSymbolExtractor } from '@/services/search/extractors/JavaSymbolExtractor';
+import { KotlinSymbolExtractor } from '@/services/search/extractors/KotlinSymbolExtractor';
+import { PhpSymbolExtractor } from '@/services/search/extractors/PhpSymbolExtractor';
+import { PythonSymbolExtractor } from '@/services/search/extractors/PythonSymbolExtractor';
+import { RubySymbolExtractor } from '@/services/search/extractors/RubySymbolExtractor';
+import { RustSymbolExtractor } from '@/services/search/extractors/RustSymbolExtractor';
+import { SwiftSymbolExtractor } from '@/services/search/extractors/SwiftSymbolExtractor';
+import { TypeScriptSymbolExtractor } from '@/services/search/extractors/TypeScriptSymbolExtractor';
+import { splitIdentifiers, stemWord, tokenizeForSearch } from '@/utils/codeTokens';
+import { fuzzyMatchScore } from '@/utils/fuzzyMatch';
+
+// Share of the ranking score that comes from embedding similarity
+const DEFAULT_SEMANTIC_WEIGHT = 0.5;
+
+// Minimum lexical score (relative to the best match) without embeddings,
+// and minimum combined score with them
+const MIN_LEXICAL_SCORE = 0.3;
+const MIN_HYBRID_SCORE = 0.2;
+
+// BM25 matches considered for ranking and similarity search
+const MAX_LEXICAL_CANDIDATES = 200;
+
+// Range of name scores for fuzzy subsequence matches, below substring matches
+const MIN_FUZZY_NAME_SCORE = 0.3;
+const MAX_FUZZY_NAME_SCORE = 0.7;
+// Fuzzy matches weaker than this are too scattered to be useful
+const MIN_FUZZY_QUALITY = 0.4;
+
+// Symbol names scored between cancellation checks
+const CANCELLATION_CHECK_INTERVAL = 500;
+
+// Weight of each item field in BM25 ranking
+const FIELD_BOOSTS: Record<SearchField, number> = {
+	name: 3,
+	signature: 1.5,
+	body: 1
+};
+
+// Share of normalized code two function bodies must have in common to be reported as clones
+const DEFAULT_CLONE_THRESHOLD = 0.8;
+
+// Chunks embedded per provider call
+const EMBEDDING_BATCH_SIZE = 256;
 
 /**
  * SemanticSearchManager - Advanced Code Search with Natural Language
@@ -21,12 +77,59 @@ export class SemanticSearchManager {
 	private _projectAnalysis: ProjectAnalysis | null = null;
 	private _searchIndex: Map<string, SearchableCodeItem[]> = new Map();
 	private _isIndexed = false;
+	private readonly _indexStore: SearchIndexStore<SearchableCodeItem>;
+	private readonly _vectorIndex: VectorIndex;
+	private readonly _extractorRegistry = new SymbolExtractorRegistry();
+	// Inverted index over the items in _searchIndex, keyed by item id
+	private readonly _lexicalIndex = new BM25Index<IndexedCodeItem, SearchField>(FIELD_BOOSTS);
+	// Lowercase symbol name -> ids of the items with that name
+	private readonly _nameIndex = new Map<string, Set<string>>();
+	private _itemVectors = new Map<string, Float32Array>();
+	private _embeddingProvider: EmbeddingProvider | null = null;
+	private _semanticWeight = DEFAULT_SEMANTIC_WEIGHT;
+	// Serializes embedding runs so index updates do not interleave
+	private _embeddingRun: Promise<void> = Promise.resolve();
 
 	constructor(context: vscode.ExtensionContext) {
 		this._context = context;
+		const storagePath = (this._context.storageUri ?? this._context.globalStorageUri).fsPath;
+		this._indexStore = new SearchIndexStore(path.join(storagePath, 'search-index.json'));
+		this._vectorIndex = new VectorIndex(path.join(storagePath, 'vector-index.json'));
+		this._extractorRegistry.register(new TypeScriptSymbolExtractor());
+		this._extractorRegistry.register(new PythonSymbolExtractor());
+		this._extractorRegistry.register(new JavaSymbolExtractor());
+		this._extractorRegistry.register(new GoSymbolExtractor());
+		this._extractorRegistry.register(new RustSymbolExtractor());
+		this._extractorRegistry.register(new CSharpSymbolExtractor());
+		this._extractorRegistry.register(new RubySymbolExtractor());
+		this._extractorRegistry.register(new PhpSymbolExtractor());
+		this._extractorRegistry.register(new KotlinSymbolExtractor());
+		this._extractorRegistry.register(new SwiftSymbolExtractor());
 		console.log('🔍 SemanticSearchManager: Created instance');
-		// Context stored for future extension integration
-		void this._context; // Acknowledge unused variable
+	}
+
+	/**
+	 * Set the embedding provider used for semantic ranking (null for lexical
+	 * ranking only) and the share of the score it contributes. Chunks are
+	 * re-embedded when the provider id changes; a new instance with the same id
+	 * (e.g. a rotated API key) replaces the old one and keeps the vectors.
+	 */
+	public async configureEmbeddings(provider: EmbeddingProvider | null, semanticWeight: number): Promise<void> {
+		this._semanticWeight = semanticWeight;
+		const sameModel = provider?.id === this._embeddingProvider?.id;
+		this._embeddingProvider = provider;
+		if (sameModel) return;
+
+		this._itemVectors.clear();
+		if (!provider) {
+			this._vectorIndex.clear();
+			return;
+		}
+
+		await this._vectorIndex.load(provider.id);
+		if (this._isIndexed) {
+			await this._updateEmbeddings();
+		}
 	}
 
 	/**
@@ -41,6 +144,7 @@ export class SemanticSearchManager {
 			await this._buildSearchIndex();
 			
 			this._isIndexed = true;
+			await this._updateEmbeddings();
 			console.log(`✅ SemanticSearchManager: Indexed ${this._searchIndex.size} searchable items`);
 		} catch (error) {
 			console.error('❌ SemanticSearchManager: Failed to initialize:', error);
@@ -50,32 +154,85 @@ export class SemanticSearchManager {
 
 	/**
 	 * Perform semantic search with natural language query
+	 *
+	 * Items are ranked with BM25 over their names, signatures and code; with
+	 * embeddings enabled the normalized BM25 score is blended with the
+	 * embedding similarity of every item. Items outside the filters are skipped.
+	 * Queries may also use the syntax of `parseSearchQuery`, e.g.
+	 * `kind:function path:src/core/** retry -test`; malformed queries throw a
+	 * SearchQueryError.
 	 */
-	public async searchCode(query: string, limit: number = 10): Promise<SemanticSearchResult[]> {
+	public async searchCode(query: string, limit: number = 10, filters: SearchFilters = {}): Promise<SemanticSearchResult[]> {
 		if (!this._isIndexed || !this._projectAnalysis) {
 			throw new RSWEError('Semantic search not initialized', 'SEARCH_NOT_INITIALIZED');
 		}
 
+		const searchQuery = parseSearchQuery(query, this.getIndexedLanguages());
+
 		try {
 			console.log(`🔎 SemanticSearchManager: Searching for "${query}"`);
-			
+			const startTime = Date.now();
+			const isIncluded = this._createQueryFilter(searchQuery, filters);
+
+			// Filters alone list every item they match
+			if (!searchQuery.text) {
+				const matchReason = `Matches ${describeSearchFilters(searchQuery.filters) || 'the query filters'}`;
+				const results: SemanticSearchResult[] = [];
+				for (const [file, items] of this._searchIndex) {
+					for (let index = 0; index < items.length && results.length < limit; index++) {
+						const id = _getItemId(file, index);
+						const indexed = this._lexicalIndex.getDocument(id);
+						if (indexed && isIncluded(indexed, id)) {
+							results.push({ file, item: indexed.item, relevanceScore: 1, matchReason });
+						}
+					}
+				}
+				return results;
+			}
+
+			const lexicalMatches = new Map(this._lexicalIndex.search(searchQuery.text, MAX_LEXICAL_CANDIDATES, isIncluded).map(match => [match.id, match]));
+			const topLexicalScore = Math.max(0, ...Array.from(lexicalMatches.values(), match => match.score));
+			const queryVector = await this._embedQuery(searchQuery.text);
+			const queryWords = _mapStemsToWords(searchQuery.text);
+
+			const candidateIds = new Set(lexicalMatches.keys());
+			if (queryVector) {
+				this._itemVectors.forEach((_vector, id) => candidateIds.add(id));
+			}
+
 			const results: SemanticSearchResult[] = [];
-			const queryLower = query.toLowerCase();
-			const queryTokens = this._tokenizeQuery(queryLower);
-
-			// Search across all indexed items
-			for (const [filePath, items] of this._searchIndex.entries()) {
-				for (const item of items) {
-					const relevanceScore = this._calculateRelevanceScore(item, queryTokens, queryLower);
-					
-					if (relevanceScore > 0.3) { // Minimum relevance threshold
+			for (const id of candidateIds) {
+				const indexed = this._lexicalIndex.getDocument(id);
+				if (!indexed || !isIncluded(indexed, id)) continue;
+
+				const lexicalMatch = lexicalMatches.get(id);
+				const lexicalScore = lexicalMatch && topLexicalScore > 0 ? lexicalMatch.score / topLexicalScore : 0;
+				const itemVector = queryVector ? this._itemVectors.get(id) : undefined;
+
+				if (!queryVector || !itemVector) {
+					if (lexicalMatch && lexicalScore > MIN_LEXICAL_SCORE) {
 						results.push({
-							file: filePath,
-							item: item,
-							relevanceScore: relevanceScore,
-							matchReason: this._getMatchReason(item, queryTokens, queryLower)
+							file: indexed.file,
+							item: indexed.item,
+							relevanceScore: lexicalScore,
+							matchReason: _getLexicalMatchReason(lexicalMatch, queryWords)
 						});
 					}
+					continue;
+				}
+
+				// Hybrid ranking: embedding similarity blended with the lexical score
+				const similarity = Math.max(0, cosineSimilarity(queryVector, itemVector));
+				const relevanceScore = this._semanticWeight * similarity + (1 - this._semanticWeight) * lexicalScore;
+				if (relevanceScore > MIN_HYBRID_SCORE) {
+					results.push({
+						file: indexed.file,
+						item: indexed.item,
+						relevanceScore: relevanceScore,
+						matchReason: !lexicalMatch || this._semanticWeight * similarity > (1 - this._semanticWeight) * lexicalScore
+							? `Semantic match (${(similarity * 100).toFixed(0)}% similar)`
+							: _getLexicalMatchReason(lexicalMatch, queryWords)
+					});
 				}
 			}
 
@@ -84,7 +241,7 @@ export class SemanticSearchManager {
 				.sort((a, b) => b.relevanceScore - a.relevanceScore)
 				.slice(0, limit);
 
-			console.log(`📊 SemanticSearchManager: Found ${sortedResults.length} relevant results`);
+			console.log(`📊 SemanticSearchManager: Found ${sortedResults.length} relevant results among ${candidateIds.size} candidates in ${Date.now() - startTime}ms`);
 			return sortedResults;
 
 		} catch (error) {
@@ -104,19 +261,19 @@ export class SemanticSearchManager {
 		try {
 			const results: SemanticSearchResult[] = [];
 			const snippetTokens = this._extractCodeTokens(codeSnippet);
-			
-			for (const [filePath, items] of this._searchIndex.entries()) {
-				for (const item of items) {
-					const similarity = this._calculateCodeSimilarity(snippetTokens, item.content);
-					
-					if (similarity > 0.4) { // Minimum similarity threshold
-						results.push({
-							file: filePath,
-							item: item,
-							relevanceScore: similarity,
-							matchReason: `Similar code pattern (${(similarity * 100).toFixed(1)}% match)`
-						});
-					}
+
+			// Only items sharing terms with the snippet can be similar to it
+			const candidates = this._lexicalIndex.searchTerms([...new Set(tokenizeForSearch(codeSnippet))], MAX_LEXICAL_CANDIDATES);
+			for (const { document: { file, item } } of candidates) {
+				const similarity = this._calculateCodeSimilarity(snippetTokens, item.content);
+
+				if (similarity > 0.4) { // Minimum similarity threshold
+					results.push({
+						file: file,
+						item: item,
+						relevanceScore: similarity,
+						matchReason: `Similar code pattern (${(similarity * 100).toFixed(1)}% match)`
+					});
 				}
 			}
 
@@ -131,33 +288,103 @@ export class SemanticSearchManager {
 	}
 
 	/**
-	 * Search for functions/classes/variables by name or usage
+	 * Find groups of functions and methods whose bodies are the same or nearly
+	 * the same once identifiers and literals are ignored
 	 */
-	public async searchSymbols(symbolName: string, symbolType?: 'function' | 'class' | 'variable'): Promise<SemanticSearchResult[]> {
-		if (!this._isIndexed) {
+	public async findClones(threshold: number = DEFAULT_CLONE_THRESHOLD): Promise<CloneReport> {
+		if (!this._isIndexed || !this._projectAnalysis) {
 			throw new RSWEError('Semantic search not initialized', 'SEARCH_NOT_INITIALIZED');
 		}
 
-		const results: SemanticSearchResult[] = [];
-		const symbolLower = symbolName.toLowerCase();
+		try {
+			const startTime = Date.now();
+			const units: CloneUnit[] = [];
+			const occurrences = new Map<string, CloneOccurrence>();
+			for (const [filePath, items] of this._searchIndex) {
+				// Only items with a known extent have a body to compare
+				const bodies = items.filter(item => (item.type === 'function' || item.type === 'method') && item.range);
+				if (bodies.length === 0) continue;
+
+				let lines: string[];
+				try {
+					lines = (await fs.readFile(path.join(this._projectAnalysis.structure.root, filePath), 'utf-8')).split('\n');
+				} catch (error) {
+					console.warn(`Failed to read ${filePath} for clone detection:`, error);
+					continue;
+				}
 
-		for (const [filePath, items] of this._searchIndex.entries()) {
-			for (const item of items) {
-				// Check if symbol matches the search criteria
-				if (symbolType && item.type !== symbolType) continue;
-				
-				if (item.name.toLowerCase().includes(symbolLower) || 
-					item.content.toLowerCase().includes(symbolLower)) {
-					
-					const score = this._calculateSymbolRelevance(item, symbolName);
-					results.push({
+				for (const item of bodies) {
+					const range = item.range!;
+					const id = _getItemId(filePath, items.indexOf(item));
+					units.push({ id, code: lines.slice(range.startLine - 1, range.endLine).join('\n') });
+					occurrences.set(id, {
 						file: filePath,
-						item: item,
-						relevanceScore: score,
-						matchReason: `Symbol match: ${item.name} (${item.type})`
+						name: item.container ? `${item.container}.${item.name}` : item.name,
+						type: item.type,
+						range,
+						lineCount: range.endLine - range.startLine + 1
 					});
 				}
 			}
+
+			const groups = detectClones(units, threshold)
+				.map(match => ({
+					similarity: match.similarity,
+					occurrences: match.ids.map(id => occurrences.get(id)!)
+				}))
+				.sort((a, b) => _getDuplicatedLines(b) - _getDuplicatedLines(a));
+
+			console.log(`🧬 SemanticSearchManager: Found ${groups.length} clone groups in ${units.length} function bodies in ${Date.now() - startTime}ms`);
+
+			return {
+				generatedAt: new Date().toISOString(),
+				threshold,
+				analyzedFunctions: units.length,
+				groups
+			};
+		} catch (error) {
+			console.error('❌ SemanticSearchManager: Clone detection failed:', error);
+			throw new RSWEError('Clone detection failed', 'CLONE_DETECTION_ERROR', { error });
+		}
+	}
+
+	/**
+	 * Search for functions/classes/variables by name or usage
+	 */
+	public async searchSymbols(symbolName: string, symbolType?: SearchableItemType): Promise<SemanticSearchResult[]> {
+		if (!this._isIndexed) {
+			throw new RSWEError('Semantic search not initialized', 'SEARCH_NOT_INITIALIZED');
+		}
+
+		const symbolLower = symbolName.toLowerCase();
+		const ids = new Set<string>();
+
+		// Names are matched by substring or fuzzy subsequence over the distinct symbol names
+		for (const [name, nameIds] of this._nameIndex) {
+			if (name.includes(symbolLower) || this._matchesName(nameIds, symbolName)) {
+				nameIds.forEach(id => ids.add(id));
+			}
+		}
+
+		// Usages can only be in items containing every term of the symbol
+		const terms = [...new Set(tokenizeForSearch(symbolName))];
+		for (const id of terms.length > 0 ? this._lexicalIndex.findContainingAll(terms) : []) {
+			if (this._lexicalIndex.getDocument(id)?.item.content.toLowerCase().includes(symbolLower)) {
+				ids.add(id);
+			}
+		}
+
+		const results: SemanticSearchResult[] = [];
+		for (const id of ids) {
+			const indexed = this._lexicalIndex.getDocument(id);
+			if (!indexed || (symbolType && indexed.item.type !== symbolType)) continue;
+
+			results.push({
+				file: indexed.file,
+				item: indexed.item,
+				relevanceScore: this._calculateSymbolRelevance(indexed.item, symbolName),
+				matchReason: `Symbol match: ${indexed.item.name} (${indexed.item.type})`
+			});
 		}
 
 		return results
@@ -165,6 +392,46 @@ export class SemanticSearchManager {
 			.slice(0, 20);
 	}
 
+	/**
+	 * Find symbols whose names match a query as a substring or fuzzy
+	 * subsequence, best first. Returns nothing once the token is cancelled.
+	 */
+	public findSymbolsByName(query: string, limit: number, token?: vscode.CancellationToken): SemanticSearchResult[] {
+		if (!this._isIndexed || query.trim().length === 0) return [];
+
+		const results: SemanticSearchResult[] = [];
+		let scoredNames = 0;
+		for (const nameIds of this._nameIndex.values()) {
+			if (++scoredNames % CANCELLATION_CHECK_INTERVAL === 0 && token?.isCancellationRequested) {
+				return [];
+			}
+
+			// Names differing only in case share an entry and may score differently
+			const scores = new Map<string, number>();
+			for (const id of nameIds) {
+				const indexed = this._lexicalIndex.getDocument(id);
+				if (!indexed) continue;
+
+				let score = scores.get(indexed.item.name);
+				if (score === undefined) {
+					score = _calculateNameRelevance(indexed.item.name, query);
+					scores.set(indexed.item.name, score);
+				}
+				if (score === 0) continue;
+				results.push({
+					file: indexed.file,
+					item: indexed.item,
+					relevanceScore: score,
+					matchReason: score > MAX_FUZZY_NAME_SCORE ? `Name match: ${indexed.item.name}` : `Fuzzy name match: ${indexed.item.name}`
+				});
+			}
+		}
+
+		return results
+			.sort((a, b) => b.relevanceScore - a.relevanceScore)
+			.slice(0, limit);
+	}
+
 	/**
 	 * Get search suggestions based on project context
 	 */
@@ -209,227 +476,173 @@ export class SemanticSearchManager {
 	private async _buildSearchIndex(): Promise<void> {
 		if (!this._projectAnalysis) return;
 
+		const startTime = Date.now();
+		const isWarmStart = await this._indexStore.load();
 		this._searchIndex.clear();
+		this._lexicalIndex.clear();
+		this._nameIndex.clear();
 
-		for (const file of this._projectAnalysis.files) {
+		// Only files that changed since the stored index was written are parsed again
+		const files = this._projectAnalysis.files;
+		let parsedFiles = 0;
+		for (const file of files) {
 			try {
-				const content = await fs.readFile(file.path, 'utf-8');
-				const searchableItems = await this._extractSearchableItems(file, content);
-				
-				if (searchableItems.length > 0) {
-					this._searchIndex.set(file.relativePath, searchableItems);
-				}
+				const { items, isCached } = await this._getFileItems(file);
+				this._setFileItems(file, items);
+				if (!isCached) parsedFiles++;
 			} catch (error) {
 				console.warn(`Failed to index file ${file.path}:`, error);
+				this._indexStore.delete(file.relativePath);
 			}
 		}
-	}
-
-	/**
-	 * Extract searchable items from file content
-	 */
-	private async _extractSearchableItems(file: ProjectFile, content: string): Promise<SearchableCodeItem[]> {
-		const items: SearchableCodeItem[] = [];
-		const lines = content.split('\n');
-
-		// Language-specific extraction
-		if (file.extension === '.ts' || file.extension === '.js' || file.extension === '.tsx' || file.extension === '.jsx') {
-			items.push(...this._extractJavaScriptItems(content, lines));
-		} else if (file.extension === '.py') {
-			items.push(...this._extractPythonItems(content, lines));
-		} else if (file.extension === '.java') {
-			items.push(...this._extractJavaItems(content, lines));
-		}
+		const removedFiles = this._indexStore.retain(new Set(files.map(file => file.relativePath)));
+		await this._indexStore.save();
 
-		return items;
+		console.log(`📇 SemanticSearchManager: ${isWarmStart ? 'Warm' : 'Cold'} start parsed ${parsedFiles} of ${files.length} files (${removedFiles} removed) and indexed ${this._lexicalIndex.size} items and ${this._lexicalIndex.termCount} terms in ${Date.now() - startTime}ms`);
 	}
 
 	/**
-	 * Extract JavaScript/TypeScript searchable items
+	 * Searchable items of a file, from the stored index when the file is unchanged
 	 */
-	private _extractJavaScriptItems(content: string, lines: string[]): SearchableCodeItem[] {
-		const items: SearchableCodeItem[] = [];
-
-		// Extract functions
-		const functionRegex = /(?:export\s+)?(?:async\s+)?function\s+([a-zA-Z_$][\w$]*)\s*\(/g;
-		let match;
-		while ((match = functionRegex.exec(content)) !== null) {
-			const lineNumber = content.substring(0, match.index).split('\n').length;
-			items.push({
-				name: match[1],
-				type: 'function',
-				lineNumber: lineNumber,
-				content: this._getContextLines(lines, lineNumber - 1, 5),
-				keywords: [match[1], 'function', 'method'],
-				signature: match[0]
-			});
-		}
-
-		// Extract classes
-		const classRegex = /(?:export\s+)?class\s+([a-zA-Z_$][\w$]*)/g;
-		while ((match = classRegex.exec(content)) !== null) {
-			const lineNumber = content.substring(0, match.index).split('\n').length;
-			items.push({
-				name: match[1],
-				type: 'class',
-				lineNumber: lineNumber,
-				content: this._getContextLines(lines, lineNumber - 1, 7),
-				keywords: [match[1], 'class', 'component'],
-				signature: match[0]
-			});
+	private async _getFileItems(file: ProjectFile): Promise<{ items: SearchableCodeItem[]; isCached: boolean }> {
+		const mtimeMs = file.lastModified.getTime();
+		const stored = this._indexStore.get(file.relativePath);
+		if (stored && stored.mtimeMs === mtimeMs && stored.size === file.size) {
+			return { items: stored.items, isCached: true };
 		}
 
-		// Extract arrow functions
-		const arrowFunctionRegex = /(?:const|let|var)\s+([a-zA-Z_$][\w$]*)\s*=\s*(?:async\s*)?\(/g;
-		while ((match = arrowFunctionRegex.exec(content)) !== null) {
-			const lineNumber = content.substring(0, match.index).split('\n').length;
-			items.push({
-				name: match[1],
-				type: 'function',
-				lineNumber: lineNumber,
-				content: this._getContextLines(lines, lineNumber - 1, 3),
-				keywords: [match[1], 'arrow', 'function'],
-				signature: match[0]
-			});
+		const content = await fs.readFile(file.path, 'utf-8');
+		const hash = SearchIndexStore.hashContent(content);
+		if (stored?.hash === hash) {
+			// Touched but not changed
+			this._indexStore.set(file.relativePath, { ...stored, mtimeMs, size: file.size });
+			return { items: stored.items, isCached: true };
 		}
 
-		return items;
+		const items = await this._extractSearchableItems(file, content);
+		this._indexStore.set(file.relativePath, { mtimeMs, size: file.size, hash, items });
+		return { items, isCached: false };
 	}
 
 	/**
-	 * Extract Python searchable items
+	 * Replace the indexed items of a file (an empty list removes the file)
 	 */
-	private _extractPythonItems(content: string, lines: string[]): SearchableCodeItem[] {
-		const items: SearchableCodeItem[] = [];
-
-		// Extract functions
-		const functionRegex = /def\s+([a-zA-Z_][\w]*)\s*\(/g;
-		let match;
-		while ((match = functionRegex.exec(content)) !== null) {
-			const lineNumber = content.substring(0, match.index).split('\n').length;
-			items.push({
-				name: match[1],
-				type: 'function',
-				lineNumber: lineNumber,
-				content: this._getContextLines(lines, lineNumber - 1, 5),
-				keywords: [match[1], 'function', 'def'],
-				signature: match[0]
-			});
-		}
+	private _setFileItems(file: ProjectFile, items: SearchableCodeItem[]): void {
+		const filePath = file.relativePath;
+		const previousItems = this._searchIndex.get(filePath) ?? [];
+		previousItems.forEach((item, index) => {
+			const id = _getItemId(filePath, index);
+			this._lexicalIndex.remove(id);
+			const nameIds = this._nameIndex.get(item.name.toLowerCase());
+			nameIds?.delete(id);
+			if (nameIds?.size === 0) {
+				this._nameIndex.delete(item.name.toLowerCase());
+			}
+		});
 
-		// Extract classes
-		const classRegex = /class\s+([a-zA-Z_][\w]*)/g;
-		while ((match = classRegex.exec(content)) !== null) {
-			const lineNumber = content.substring(0, match.index).split('\n').length;
-			items.push({
-				name: match[1],
-				type: 'class',
-				lineNumber: lineNumber,
-				content: this._getContextLines(lines, lineNumber - 1, 7),
-				keywords: [match[1], 'class'],
-				signature: match[0]
-			});
+		if (items.length === 0) {
+			this._searchIndex.delete(filePath);
+			return;
 		}
 
-		return items;
-	}
-
-	/**
-	 * Extract Java searchable items
-	 */
-	private _extractJavaItems(content: string, lines: string[]): SearchableCodeItem[] {
-		const items: SearchableCodeItem[] = [];
-
-		// Extract methods
-		const methodRegex = /(?:public|private|protected)?\s*(?:static)?\s*(?:final)?\s*\w+\s+([a-zA-Z_][\w]*)\s*\(/g;
-		let match;
-		while ((match = methodRegex.exec(content)) !== null) {
-			const lineNumber = content.substring(0, match.index).split('\n').length;
-			items.push({
-				name: match[1],
-				type: 'function',
-				lineNumber: lineNumber,
-				content: this._getContextLines(lines, lineNumber - 1, 5),
-				keywords: [match[1], 'method'],
-				signature: match[0]
+		this._searchIndex.set(filePath, items);
+		items.forEach((item, index) => {
+			const id = _getItemId(filePath, index);
+			this._lexicalIndex.add(id, { file: filePath, language: file.language ?? 'Unknown', item }, {
+				name: item.name,
+				signature: `${item.signature} ${item.keywords.join(' ')}`,
+				body: item.documentation ? `${item.documentation}\n${item.content}` : item.content
 			});
-		}
-
-		// Extract classes
-		const classRegex = /(?:public|private)?\s*class\s+([a-zA-Z_][\w]*)/g;
-		while ((match = classRegex.exec(content)) !== null) {
-			const lineNumber = content.substring(0, match.index).split('\n').length;
-			items.push({
-				name: match[1],
-				type: 'class',
-				lineNumber: lineNumber,
-				content: this._getContextLines(lines, lineNumber - 1, 7),
-				keywords: [match[1], 'class'],
-				signature: match[0]
-			});
-		}
-
-		return items;
+			const name = item.name.toLowerCase();
+			let nameIds = this._nameIndex.get(name);
+			if (!nameIds) {
+				nameIds = new Set();
+				this._nameIndex.set(name, nameIds);
+			}
+			nameIds.add(id);
+		});
 	}
 
 	/**
-	 * Get context lines around a specific line number
+	 * Extract searchable items from file content with the extractor for its language
 	 */
-	private _getContextLines(lines: string[], startLine: number, contextSize: number): string {
-		const start = Math.max(0, startLine - Math.floor(contextSize / 2));
-		const end = Math.min(lines.length, startLine + Math.ceil(contextSize / 2));
-		return lines.slice(start, end).join('\n');
+	private async _extractSearchableItems(file: ProjectFile, content: string): Promise<SearchableCodeItem[]> {
+		return this._extractorRegistry.extract(file.path, content);
 	}
 
 	/**
-	 * Tokenize search query for better matching
+	 * Embed the chunks that have no vector yet and persist the vector index.
+	 * Failures are logged and leave search on lexical ranking.
 	 */
-	private _tokenizeQuery(query: string): string[] {
-		return query
-			.toLowerCase()
-			.replace(/[^\w\s]/g, ' ')
-			.split(/\s+/)
-			.filter(token => token.length > 2);
+	private _updateEmbeddings(): Promise<void> {
+		this._embeddingRun = this._embeddingRun.then(() => this._embedChunks());
+		return this._embeddingRun;
 	}
 
-	/**
-	 * Calculate relevance score for search results
-	 */
-	private _calculateRelevanceScore(item: SearchableCodeItem, queryTokens: string[], originalQuery: string): number {
-		let score = 0;
-
-		// Exact name match gets highest score
-		if (item.name.toLowerCase() === originalQuery) {
-			score += 1.0;
-		} else if (item.name.toLowerCase().includes(originalQuery)) {
-			score += 0.8;
-		}
+	private async _embedChunks(): Promise<void> {
+		const provider = this._embeddingProvider;
+		if (!provider) return;
 
-		// Token matching in name
-		for (const token of queryTokens) {
-			if (item.name.toLowerCase().includes(token)) {
-				score += 0.3;
+		const startTime = Date.now();
+		const itemHashes = new Map<string, string>();
+		const pending = new Map<string, string>();
+		for (const [filePath, items] of this._searchIndex.entries()) {
+			for (const [index, item] of items.entries()) {
+				const text = this._getChunkText(filePath, item);
+				const hash = VectorIndex.hashText(text);
+				itemHashes.set(_getItemId(filePath, index), hash);
+				if (!this._vectorIndex.has(hash)) {
+					pending.set(hash, text);
+				}
 			}
 		}
 
-		// Keyword matching
-		for (const keyword of item.keywords) {
-			for (const token of queryTokens) {
-				if (keyword.toLowerCase().includes(token)) {
-					score += 0.2;
-				}
+		try {
+			const entries = Array.from(pending);
+			for (let i = 0; i < entries.length; i += EMBEDDING_BATCH_SIZE) {
+				const batch = entries.slice(i, i + EMBEDDING_BATCH_SIZE);
+				const vectors = await provider.embed(batch.map(([, text]) => text));
+				// The provider may have been replaced while this batch was embedded
+				if (provider !== this._embeddingProvider) return;
+				batch.forEach(([hash], index) => this._vectorIndex.set(hash, vectors[index]!));
 			}
+
+			this._vectorIndex.retain(new Set(itemHashes.values()));
+			await this._vectorIndex.save();
+		} catch (error) {
+			console.warn('SemanticSearchManager: Embedding failed; using lexical ranking for chunks without vectors:', error);
 		}
 
-		// Content matching
-		const contentLower = item.content.toLowerCase();
-		for (const token of queryTokens) {
-			if (contentLower.includes(token)) {
-				score += 0.1;
+		this._itemVectors = new Map();
+		for (const [id, hash] of itemHashes) {
+			const vector = this._vectorIndex.get(hash);
+			if (vector) {
+				this._itemVectors.set(id, vector);
 			}
 		}
+		console.log(`🧭 SemanticSearchManager: Embedded ${pending.size} new chunks with ${provider.id} (${this._itemVectors.size} total) in ${Date.now() - startTime}ms`);
+	}
+
+	/**
+	 * Embed a query, or null when embeddings are off or unavailable
+	 */
+	private async _embedQuery(query: string): Promise<Float32Array | null> {
+		if (!this._embeddingProvider || this._itemVectors.size === 0) return null;
 
-		return Math.min(score, 1.0);
+		try {
+			const [vector] = await this._embeddingProvider.embed([query]);
+			return vector ?? null;
+		} catch (error) {
+			console.warn('SemanticSearchManager: Could not embed the query; using lexical ranking:', error);
+			return null;
+		}
+	}
+
+	/**
+	 * Text embedded for a chunk: its location, signature, documentation and code
+	 */
+	private _getChunkText(filePath: string, item: SearchableCodeItem): string {
+		return `${filePath}\n${item.signature}\n${item.documentation ? `${item.documentation}\n` : ''}${item.content}`;
 	}
 
 	/**
@@ -455,42 +668,62 @@ export class SemanticSearchManager {
 	}
 
 	/**
-	 * Calculate symbol relevance score
+	 * Combine search filters with the filters, required terms and exclusions
+	 * of a parsed query into one predicate over indexed items
 	 */
-	private _calculateSymbolRelevance(item: SearchableCodeItem, symbolName: string): number {
-		let score = 0;
-		const symbolLower = symbolName.toLowerCase();
-		const itemNameLower = item.name.toLowerCase();
-
-		if (itemNameLower === symbolLower) {
-			score = 1.0;
-		} else if (itemNameLower.includes(symbolLower)) {
-			score = 0.8;
-		} else if (item.content.toLowerCase().includes(symbolLower)) {
-			score = 0.6;
-		}
-
-		return score;
+	private _createQueryFilter(searchQuery: SearchQuery, filters: SearchFilters): (indexed: IndexedCodeItem, id: string) => boolean {
+		const matchesFilters = createSearchFilter(filters);
+		const matchesQueryFilters = createSearchFilter(searchQuery.filters);
+		const excludedFilters = searchQuery.excludedFilters.map(createSearchFilter);
+		const required = searchQuery.required.map(group => group.map(term => this._createTermMatcher(term)));
+		const excluded = searchQuery.excluded.map(term => this._createTermMatcher(term));
+
+		return (indexed, id) => {
+			const { file, language, item } = indexed;
+			return matchesFilters(file, language, item)
+				&& matchesQueryFilters(file, language, item)
+				&& !excludedFilters.some(isExcluded => isExcluded(file, language, item))
+				&& required.every(group => group.some(matches => matches(indexed, id)))
+				&& !excluded.some(matches => matches(indexed, id));
+		};
 	}
 
 	/**
-	 * Get match reason for search result
+	 * Match a query word by its search terms in an item or its file path, and
+	 * a phrase (or a word made only of stopwords) by its text
 	 */
-	private _getMatchReason(item: SearchableCodeItem, queryTokens: string[], originalQuery: string): string {
-		if (item.name.toLowerCase() === originalQuery) {
-			return `Exact name match: ${item.name}`;
-		}
-		
-		if (item.name.toLowerCase().includes(originalQuery)) {
-			return `Name contains: ${originalQuery}`;
+	private _createTermMatcher(term: SearchQueryTerm): (indexed: IndexedCodeItem, id: string) => boolean {
+		const terms = term.isPhrase ? [] : [...new Set(tokenizeForSearch(term.text))];
+		if (terms.length === 0) {
+			const phrase = _normalizeText(term.text);
+			return ({ item }) => [item.name, item.signature, item.documentation ?? '', item.content]
+				.some(text => _normalizeText(text).includes(phrase));
 		}
 
-		const matchingTokens = queryTokens.filter(token => item.name.toLowerCase().includes(token));
-		if (matchingTokens.length > 0) {
-			return `Name matches: ${matchingTokens.join(', ')}`;
-		}
+		const ids = new Set(this._lexicalIndex.findContainingAll(terms));
+		return ({ file }, id) => {
+			if (ids.has(id)) return true;
+			const pathTerms = new Set(tokenizeForSearch(file));
+			return terms.every(pathTerm => pathTerms.has(pathTerm));
+		};
+	}
+
+	/**
+	 * Whether the name shared by a set of items fuzzy-matches a query, using
+	 * the name's original case to find word starts
+	 */
+	private _matchesName(nameIds: Set<string>, query: string): boolean {
+		const [firstId] = nameIds;
+		const item = firstId !== undefined ? this._lexicalIndex.getDocument(firstId)?.item : undefined;
+		return item !== undefined && _calculateNameRelevance(item.name, query) > 0;
+	}
 
-		return `Content relevance match`;
+	/**
+	 * Calculate symbol relevance score
+	 */
+	private _calculateSymbolRelevance(item: SearchableCodeItem, symbolName: string): number {
+		const contentScore = item.content.toLowerCase().includes(symbolName.toLowerCase()) ? 0.6 : 0;
+		return Math.max(_calculateNameRelevance(item.name, symbolName), contentScore);
 	}
 
 	/**
@@ -501,19 +734,38 @@ export class SemanticSearchManager {
 
 		for (const file of updatedFiles) {
 			try {
-				const content = await fs.readFile(file.path, 'utf-8');
-				const searchableItems = await this._extractSearchableItems(file, content);
-				
-				if (searchableItems.length > 0) {
-					this._searchIndex.set(file.relativePath, searchableItems);
-				} else {
-					this._searchIndex.delete(file.relativePath);
-				}
+				const { items } = await this._getFileItems(file);
+				this._setFileItems(file, items);
 			} catch (error) {
 				console.warn(`Failed to update index for ${file.path}:`, error);
-				this._searchIndex.delete(file.relativePath);
+				this._setFileItems(file, []);
+				this._indexStore.delete(file.relativePath);
+			}
+		}
+
+		await this._indexStore.save();
+
+		await this._updateEmbeddings();
+	}
+
+	/**
+	 * Languages of the indexed files, for filtering searches
+	 */
+	public getIndexedLanguages(): string[] {
+		const languages = new Set<string>();
+		for (const file of this._projectAnalysis?.files ?? []) {
+			if (file.language && this._searchIndex.has(file.relativePath)) {
+				languages.add(file.language);
 			}
 		}
+		return Array.from(languages).sort();
+	}
+
+	/**
+	 * Get the symbol extractors used to index files, by language
+	 */
+	public getExtractorRegistry(): SymbolExtractorRegistry {
+		return this._extractorRegistry;
 	}
 
 	/**
@@ -523,6 +775,7 @@ export class SemanticSearchManager {
 		isIndexed: boolean;
 		indexedFiles: number;
 		searchableItems: number;
+		embeddedItems: number;
 	} {
 		let totalItems = 0;
 		for (const items of this._searchIndex.values()) {
@@ -532,7 +785,8 @@ export class SemanticSearchManager {
 		return {
 			isIndexed: this._isIndexed,
 			indexedFiles: this._searchIndex.size,
-			searchableItems: totalItems
+			searchableItems: totalItems,
+			embeddedItems: this._itemVectors.size
 		};
 	}
 
@@ -541,24 +795,106 @@ export class SemanticSearchManager {
 	 */
 	public dispose(): void {
 		this._searchIndex.clear();
+		this._lexicalIndex.clear();
+		this._nameIndex.clear();
+		this._itemVectors.clear();
 		this._isIndexed = false;
 		console.log('🔌 SemanticSearchManager: Disposed and cleaned up');
 	}
 }
 
 // Types for semantic search
-interface SearchableCodeItem {
-	name: string;
-	type: 'function' | 'class' | 'variable';
-	lineNumber: number;
-	content: string;
-	keywords: string[];
-	signature: string;
-}
-
 export interface SemanticSearchResult {
 	file: string;
 	item: SearchableCodeItem;
 	relevanceScore: number;
 	matchReason: string;
 }
+
+export interface CloneOccurrence {
+	file: string;
+	name: string;
+	type: SearchableItemType;
+	range: SourceRange;
+	lineCount: number;
+}
+
+export interface CloneGroup {
+	// Lowest similarity between linked occurrences, from 0 to 1
+	similarity: number;
+	occurrences: CloneOccurrence[];
+}
+
+export interface CloneReport {
+	generatedAt: string;
+	threshold: number;
+	analyzedFunctions: number;
+	groups: CloneGroup[];
+}
+
+type SearchField = 'name' | 'signature' | 'body';
+
+interface IndexedCodeItem {
+	file: string;
+	language: string;
+	item: SearchableCodeItem;
+}
+
+/**
+ * Score a symbol name against a query: 1 for the exact name, 0.8 for a
+ * substring, lower for a fuzzy subsequence and 0 for no match
+ */
+function _calculateNameRelevance(name: string, query: string): number {
+	const nameLower = name.toLowerCase();
+	const queryLower = query.toLowerCase();
+	if (nameLower === queryLower) return 1.0;
+	if (nameLower.includes(queryLower)) return 0.8;
+
+	const quality = fuzzyMatchScore(name, query);
+	if (quality === null || quality < MIN_FUZZY_QUALITY) return 0;
+	return MIN_FUZZY_NAME_SCORE + (MAX_FUZZY_NAME_SCORE - MIN_FUZZY_NAME_SCORE) * quality;
+}
+
+/**
+ * Lines that could be removed by keeping a single copy of a clone group
+ */
+function _getDuplicatedLines(group: CloneGroup): number {
+	const lineCounts = group.occurrences.map(occurrence => occurrence.lineCount);
+	return lineCounts.reduce((sum, count) => sum + count, 0) - Math.max(...lineCounts);
+}
+
+function _normalizeText(text: string): string {
+	return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+function _getItemId(filePath: string, index: number): string {
+	return `${filePath}#${index}`;
+}
+
+/**
+ * Map each search term of a query back to the word it came from, so match
+ * reasons show the user's words rather than stems
+ */
+function _mapStemsToWords(query: string): Map<string, string> {
+	const words = new Map<string, string>();
+	for (const word of splitIdentifiers(query)) {
+		const stem = stemWord(word);
+		if (!words.has(stem)) {
+			words.set(stem, word);
+		}
+	}
+	return words;
+}
+
+function _getLexicalMatchReason(match: BM25Match<IndexedCodeItem, SearchField>, queryWords: Map<string, string>): string {
+	const describe = (terms: string[]) => terms.map(term => queryWords.get(term) ?? term).join(', ');
+	const { name, signature, body } = match.matchedTerms;
+
+	if (name) {
+		return `Name matches: ${describe(name)}`;
+	}
+	if (signature) {
+		return `Signature matches: ${describe(signature)}`;
+	}
+	return `Content matches: ${describe(body ?? [])}`;
+}
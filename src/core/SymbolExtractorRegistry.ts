@@ -0,0 +1,60 @@
+import * as path from 'path';
+import { SearchableCodeItem } from '@/services/search/SearchableCodeItem';
+import { SymbolExtractor } from '@/services/search/extractors/SymbolExtractor';
+
+/**
+ * SymbolExtractorRegistry - Symbol extractors used to index files for search
+ *
+ * Each file is handled by the extractor registered for its extension; when
+ * several claim an extension, the one registered last wins. Files no
+ * extractor claims are not indexed.
+ */
+export class SymbolExtractorRegistry {
+	private readonly _extractors = new Map<string, SymbolExtractor>();
+	private readonly _extensions = new Map<string, SymbolExtractor>();
+
+	/**
+	 * Register an extractor, replacing any extractor with the same id
+	 */
+	public register(extractor: SymbolExtractor): void {
+		this._extractors.delete(extractor.id);
+		this._extractors.set(extractor.id, extractor);
+		this._mapExtensions();
+	}
+
+	/**
+	 * Remove an extractor by id
+	 */
+	public unregister(id: string): void {
+		this._extractors.delete(id);
+		this._mapExtensions();
+	}
+
+	public get(id: string): SymbolExtractor | undefined {
+		return this._extractors.get(id);
+	}
+
+	public getAll(): SymbolExtractor[] {
+		return Array.from(this._extractors.values());
+	}
+
+	public getForFile(fileName: string): SymbolExtractor | undefined {
+		return this._extensions.get(path.extname(fileName).toLowerCase());
+	}
+
+	/**
+	 * Symbols of a file, or none when no extractor handles its extension
+	 */
+	public extract(fileName: string, content: string): SearchableCodeItem[] {
+		return this.getForFile(fileName)?.extract(fileName, content) ?? [];
+	}
+
+	private _mapExtensions(): void {
+		this._extensions.clear();
+		for (const extractor of this._extractors.values()) {
+			for (const extension of extractor.extensions) {
+				this._extensions.set(extension, extractor);
+			}
+		}
+	}
+}
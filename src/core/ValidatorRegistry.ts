@@ -0,0 +1,170 @@
+import * as vscode from 'vscode';
+import { RSWEConfig, ValidationResult, ValidatorRun } from '@/types';
+import { Validator, ValidatorOutput, createEmptyValidationResult } from '@/services/validation/Validator';
+
+/**
+ * ValidatorRegistry - Validators run by validateCode
+ *
+ * Runs every enabled validator that supports a document concurrently and
+ * merges their findings into one result and one set of diagnostics. Each has
+ * its own time limit, which only stops the validators that check for it: the
+ * TypeScript compiler while type-checking, regex rules between rules and the
+ * cycle check between imports. ESLint and the secret scan run to completion.
+ * A validator that fails or times out is reported in the result's
+ * validatorRuns instead of failing the whole validation.
+ */
+export class ValidatorRegistry {
+	private readonly _validators = new Map<string, Validator>();
+	private readonly _diagnostics = vscode.languages.createDiagnosticCollection('rswe-validation');
+	private readonly _results = new Map<string, { version: number; result: ValidationResult }>();
+	private readonly _disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		this._disposables.push(
+			vscode.workspace.onDidCloseTextDocument(document => {
+				this._diagnostics.delete(document.uri);
+				this._results.delete(document.uri.toString());
+			})
+		);
+	}
+
+	/**
+	 * Register a validator, replacing (and disposing) any validator with the same id
+	 */
+	public register(validator: Validator): void {
+		const existing = this._validators.get(validator.id);
+		if (existing && existing !== validator) {
+			existing.dispose?.();
+		}
+		this._validators.set(validator.id, validator);
+	}
+
+	/**
+	 * Remove a validator by id
+	 */
+	public unregister(id: string): void {
+		this._validators.get(id)?.dispose?.();
+		this._validators.delete(id);
+	}
+
+	public get(id: string): Validator | undefined {
+		return this._validators.get(id);
+	}
+
+	public getAll(): Validator[] {
+		return Array.from(this._validators.values());
+	}
+
+	/**
+	 * Run the validators for a document and publish their diagnostics
+	 */
+	public async validate(document: vscode.TextDocument, settings: RSWEConfig['validation']): Promise<ValidationResult> {
+		const validators = this.getAll().filter(validator => validator.supports(document));
+		const runs = await Promise.all(validators.map(validator => this._run(validator, document, settings)));
+
+		const result = createEmptyValidationResult();
+		const diagnostics: vscode.Diagnostic[] = [];
+		for (const { output } of runs) {
+			if (!output) continue;
+			result.errors.push(...output.result.errors);
+			result.warnings.push(...output.result.warnings);
+			result.suggestions.push(...output.result.suggestions);
+			diagnostics.push(...output.diagnostics);
+		}
+		result.isValid = result.errors.length === 0;
+		result.validatorRuns = runs.map(({ run }) => run);
+
+		// Only publish for the version that was checked
+		if (!document.isClosed) {
+			this._diagnostics.set(document.uri, diagnostics);
+			this._results.set(document.uri.toString(), { version: document.version, result });
+		}
+
+		console.log(`⏱️ ValidatorRegistry: ${vscode.workspace.asRelativePath(document.uri, false)} ${formatValidatorRuns(result.validatorRuns)}`);
+		return result;
+	}
+
+	/**
+	 * Get the last result for a document if it is still current
+	 */
+	public getCachedResult(document: vscode.TextDocument): ValidationResult | undefined {
+		const cached = this._results.get(document.uri.toString());
+		return cached && cached.version === document.version ? cached.result : undefined;
+	}
+
+	/**
+	 * Remove all validation diagnostics
+	 */
+	public clear(): void {
+		this._diagnostics.clear();
+		this._results.clear();
+	}
+
+	public dispose(): void {
+		for (const validator of this._validators.values()) {
+			validator.dispose?.();
+		}
+		this._validators.clear();
+		this._diagnostics.dispose();
+		this._results.clear();
+		this._disposables.forEach(disposable => disposable.dispose());
+	}
+
+	private async _run(
+		validator: Validator,
+		document: vscode.TextDocument,
+		settings: RSWEConfig['validation']
+	): Promise<{ run: ValidatorRun; output: ValidatorOutput | null }> {
+		const validatorSettings = settings.validators[validator.id];
+		const run: ValidatorRun = { id: validator.id, name: validator.name, status: 'ok', durationMs: 0 };
+		if (validatorSettings?.enabled === false) {
+			return { run: { ...run, status: 'skipped', message: 'Disabled in settings' }, output: null };
+		}
+
+		const timeoutMs = validatorSettings?.timeoutMs ?? settings.timeoutMs;
+		const controller = new AbortController();
+		let timer: NodeJS.Timeout | undefined;
+		const timeout = new Promise<'timeout'>(resolve => {
+			timer = setTimeout(() => resolve('timeout'), timeoutMs);
+		});
+
+		const started = Date.now();
+		const deadline = started + timeoutMs;
+		try {
+			const output = await Promise.race([validator.validate(document, controller.signal, deadline), timeout]);
+			run.durationMs = Date.now() - started;
+
+			if (output === 'timeout') {
+				controller.abort();
+				console.warn(`ValidatorRegistry: ${validator.name} timed out after ${timeoutMs}ms`);
+				return { run: { ...run, status: 'timeout', message: `Timed out after ${timeoutMs}ms` }, output: null };
+			}
+			if (output === null) {
+				return { run: { ...run, status: 'skipped', message: 'Not available for this document' }, output: null };
+			}
+			return { run, output };
+		} catch (error) {
+			run.durationMs = Date.now() - started;
+			// Validators that check the deadline themselves stop with an error
+			if (Date.now() >= deadline) {
+				controller.abort();
+				console.warn(`ValidatorRegistry: ${validator.name} timed out after ${timeoutMs}ms`);
+				return { run: { ...run, status: 'timeout', message: `Timed out after ${timeoutMs}ms` }, output: null };
+			}
+			const message = error instanceof Error ? error.message : 'Unknown error';
+			console.warn(`ValidatorRegistry: ${validator.name} failed: ${message}`);
+			return { run: { ...run, status: 'error', message }, output: null };
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+}
+
+/**
+ * Summarize validator runs, e.g. "TypeScript 120ms, ESLint timeout (10000ms)"
+ */
+export function formatValidatorRuns(runs: ValidatorRun[]): string {
+	return runs
+		.map(run => run.status === 'ok' ? `${run.name} ${run.durationMs}ms` : `${run.name} ${run.status} (${run.durationMs}ms)`)
+		.join(', ');
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { MCPConfigFileSchema, MCPConfigFileServerSchema, MCPServerConfig } from '@/types';
+import { parseJsonWithDiagnostic, zodIssueToDiagnostic } from '@/utils/jsonDiagnostics';
+
+// Location of the workspace MCP configuration relative to the workspace root
+export const MCP_CONFIG_FILE_PATH = '.rswe/mcp.json';
+
+// Wait for editors to finish writing before reloading
+const RELOAD_DEBOUNCE_MS = 300;
+
+/**
+ * A server defined in .rswe/mcp.json
+ */
+export interface WorkspaceMCPServer {
+	config: MCPServerConfig;
+	enabled: boolean;
+}
+
+/**
+ * WorkspaceMCPConfig - Server definitions from the workspace's .rswe/mcp.json
+ *
+ * Validates the file against the versioned schema, reports problems as
+ * diagnostics on the file and fires onDidChange whenever it is created,
+ * edited or deleted so servers can be reconnected.
+ */
+export class WorkspaceMCPConfig {
+	private readonly _diagnostics = vscode.languages.createDiagnosticCollection('rswe-mcp');
+	private readonly _disposables: vscode.Disposable[] = [];
+	private _reloadTimer: NodeJS.Timeout | null = null;
+
+	private _onDidChange = new vscode.EventEmitter<void>();
+	public readonly onDidChange = this._onDidChange.event;
+
+	constructor() {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		if (!folder) return;
+
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(folder, MCP_CONFIG_FILE_PATH)
+		);
+		this._disposables.push(
+			watcher,
+			watcher.onDidCreate(() => this._scheduleReload()),
+			watcher.onDidChange(() => this._scheduleReload()),
+			watcher.onDidDelete(() => this._scheduleReload())
+		);
+	}
+
+	/**
+	 * Get the URI of the configuration file in the first workspace folder
+	 */
+	public getFileUri(): vscode.Uri | undefined {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		return folder ? vscode.Uri.joinPath(folder.uri, ...MCP_CONFIG_FILE_PATH.split('/')) : undefined;
+	}
+
+	/**
+	 * Read and validate the configuration file. Servers with schema errors are
+	 * skipped and reported as diagnostics; a missing file yields no servers.
+	 */
+	public async load(): Promise<Record<string, WorkspaceMCPServer>> {
+		const uri = this.getFileUri();
+		if (!uri) return {};
+
+		let text: string;
+		try {
+			text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+		} catch {
+			this._diagnostics.delete(uri);
+			return {};
+		}
+
+		const parsedJson = parseJsonWithDiagnostic(text);
+		if ('diagnostic' in parsedJson) {
+			this._diagnostics.set(uri, [parsedJson.diagnostic]);
+			return {};
+		}
+		const json = parsedJson.json;
+
+		const parsed = MCPConfigFileSchema.safeParse(json);
+		if (parsed.success) {
+			this._diagnostics.set(uri, []);
+			return this._toServers(parsed.data.servers);
+		}
+
+		this._diagnostics.set(uri, parsed.error.issues.map(issue => zodIssueToDiagnostic(text, issue)));
+
+		// Problems outside individual servers (version, unknown keys) invalidate the whole file
+		if (parsed.error.issues.some(issue => issue.path[0] !== 'servers' || issue.path.length < 2)) {
+			return {};
+		}
+
+		const invalidIds = new Set(parsed.error.issues.map(issue => String(issue.path[1])));
+		const rawServers = (json as { servers: Record<string, unknown> }).servers;
+		const servers: Record<string, z.infer<typeof MCPConfigFileServerSchema>> = {};
+		for (const [id, raw] of Object.entries(rawServers)) {
+			const server = MCPConfigFileServerSchema.safeParse(raw);
+			if (!invalidIds.has(id) && server.success) {
+				servers[id] = server.data;
+			}
+		}
+		return this._toServers(servers);
+	}
+
+	public dispose(): void {
+		if (this._reloadTimer) {
+			clearTimeout(this._reloadTimer);
+			this._reloadTimer = null;
+		}
+		this._disposables.forEach(disposable => disposable.dispose());
+		this._diagnostics.dispose();
+		this._onDidChange.dispose();
+	}
+
+	private _toServers(servers: Record<string, z.infer<typeof MCPConfigFileServerSchema>>): Record<string, WorkspaceMCPServer> {
+		return Object.fromEntries(Object.entries(servers).map(([id, { disabled, ...config }]) => [
+			id,
+			{ config, enabled: !disabled }
+		]));
+	}
+
+	private _scheduleReload(): void {
+		if (this._reloadTimer) {
+			clearTimeout(this._reloadTimer);
+		}
+		this._reloadTimer = setTimeout(() => {
+			this._reloadTimer = null;
+			this._onDidChange.fire();
+		}, RELOAD_DEBOUNCE_MS);
+	}
+}
+
+/**
+ * Expand ${workspaceFolder} and ${env:VAR} in every string of a server definition
+ */
+export function resolveMCPServerVariables(config: MCPServerConfig, workspaceFolder: string | undefined): MCPServerConfig {
+	const substitute = (value: string): string => value
+		.replace(/\$\{workspaceFolder\}/g, () => workspaceFolder ?? '')
+		.replace(/\$\{env:([^}]+)\}/g, (_match, name: string) => process.env[name] ?? '');
+	const substituteRecord = (record: Record<string, string>): Record<string, string> =>
+		Object.fromEntries(Object.entries(record).map(([key, value]) => [key, substitute(value)]));
+
+	return {
+		...config,
+		...(config.command ? { command: substitute(config.command) } : {}),
+		...(config.args ? { args: config.args.map(substitute) } : {}),
+		...(config.env ? { env: substituteRecord(config.env) } : {}),
+		...(config.cwd ? { cwd: substitute(config.cwd) } : {}),
+		...(config.url ? { url: substitute(config.url) } : {}),
+		...(config.headers ? { headers: substituteRecord(config.headers) } : {})
+	};
+}
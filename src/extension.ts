@@ -1,11 +1,29 @@
 import * as vscode from 'vscode';
 import { RSWEManager } from '@/core/RSWEManager';
 import { ProjectContextManager } from '@/core/ProjectContextManager';
-import { SemanticSearchManager } from '@/core/SemanticSearchManager';
+import { SemanticSearchManager, SemanticSearchResult } from '@/core/SemanticSearchManager';
 import { DependencyGraphManager } from '@/core/DependencyGraphManager';
+import { PromptAssembler } from '@/core/PromptAssembler';
+import { ChatToolRegistry } from '@/core/ChatToolRegistry';
+import { createProjectChatTools } from '@/core/ProjectChatTools';
+import { RSWEMCPServer } from '@/core/RSWEMCPServer';
+import { PreExecutionGate } from '@/core/PreExecutionGate';
+import { createEditChatTools } from '@/core/EditChatTools';
+import { DiagnosticAssistant } from '@/core/DiagnosticAssistant';
+import { CodeReviewer, CodeReviewOutcome } from '@/core/CodeReviewer';
+import { formatValidatorRuns } from '@/core/ValidatorRegistry';
+import { DependencyCycleValidator } from '@/services/validation/DependencyCycleValidator';
+import { createEmbeddingProvider } from '@/services/embeddings/EmbeddingProvider';
+import { formatMCPPromptMessages, formatMCPResourceContents, syncMCPChatTools } from '@/core/MCPChatTools';
 import { ChatViewProvider } from '@/providers/ChatViewProvider';
 import { ProjectTreeProvider } from '@/providers/ProjectTreeProvider';
 import { MCPTreeProvider } from '@/providers/MCPTreeProvider';
+import { SearchResultsProvider } from '@/providers/SearchResultsProvider';
+import { RSWECodeActionProvider } from '@/providers/RSWECodeActionProvider';
+import { RSWEWorkspaceSymbolProvider } from '@/providers/RSWEWorkspaceSymbolProvider';
+import { MCPServerWizard, resolveMCPServerArgument } from '@/providers/MCPServerWizard';
+import { disableMCPServer, removeMCPServer } from '@/core/MCPSettings';
+import { pickMCPPrompt, pickMCPResource, promptForMCPArguments } from '@/providers/MCPQuickPicks';
 import { RSWEError } from '@/types';
 
 /**
@@ -31,10 +49,62 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		const semanticSearchManager = new SemanticSearchManager(context);
 		console.log('✅ RSWE-V1: SemanticSearchManager initialized successfully');
 
+		// Rank search results by embedding similarity as well as keywords
+		const applySearchConfig = async (): Promise<void> => {
+			const config = rsweManager.getConfig();
+			if (!config) return;
+			const provider = config.context.enableSemanticSearch
+				? createEmbeddingProvider(config.search.embeddings, text => rsweManager.getSecretRedactor().redact(text, 'embeddings'))
+				: null;
+			await semanticSearchManager.configureEmbeddings(provider, config.search.semanticWeight);
+		};
+		await applySearchConfig();
+
 		// Initialize DependencyGraphManager for dependency analysis
 		const dependencyGraphManager = new DependencyGraphManager(context);
 		console.log('✅ RSWE-V1: DependencyGraphManager initialized successfully');
 
+		// Flag imports that close a dependency cycle alongside the other validators
+		rsweManager.getValidatorRegistry().register(new DependencyCycleValidator(dependencyGraphManager));
+
+		// Build project-aware system prompts for every Claude request
+		const promptAssembler = new PromptAssembler(projectContextManager, dependencyGraphManager);
+		rsweManager.setPromptAssembler(promptAssembler);
+
+		// Let Claude query the project indexes through tool calls
+		const toolRegistry = new ChatToolRegistry();
+		toolRegistry.registerAll(createProjectChatTools(semanticSearchManager, dependencyGraphManager));
+
+		// Edits proposed by Claude are validated and reviewed before they are written
+		const preExecutionGate = new PreExecutionGate(rsweManager);
+		toolRegistry.registerAll(createEditChatTools(preExecutionGate));
+		context.subscriptions.push(preExecutionGate);
+		const diagnosticAssistant = new DiagnosticAssistant(rsweManager, preExecutionGate);
+
+		// AI review findings live in their own diagnostics collection
+		const codeReviewer = new CodeReviewer(rsweManager);
+		context.subscriptions.push(codeReviewer);
+		rsweManager.setToolRegistry(toolRegistry);
+
+		// Serve the same project intelligence to other agents when enabled
+		const mcpServer = new RSWEMCPServer(
+			projectContextManager,
+			semanticSearchManager,
+			dependencyGraphManager,
+			rsweManager.getSecretRedactor()
+		);
+		const applyMCPServerConfig = async (): Promise<void> => {
+			const config = rsweManager.getConfig();
+			if (!config) return;
+			try {
+				await mcpServer.applyConfig(config.mcpServer);
+			} catch (error) {
+				vscode.window.showErrorMessage(`Failed to start the RSWE MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			}
+		};
+		await applyMCPServerConfig();
+		context.subscriptions.push({ dispose: () => { void mcpServer.stop(); } });
+
 		// Register webview providers for the sidebar
 		const chatProvider = new ChatViewProvider(
 			context.extensionUri, 
@@ -46,6 +116,18 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		);
 		const projectProvider = new ProjectTreeProvider(rsweManager);
 		const mcpProvider = new MCPTreeProvider(rsweManager);
+		const searchResultsProvider = new SearchResultsProvider(context, semanticSearchManager, projectContextManager);
+
+		// Keep the MCP tree and the tools offered to Claude in sync with server connections
+		context.subscriptions.push(
+			rsweManager.getMCPManager().onDidChangeServers(() => {
+				mcpProvider.refresh();
+				syncMCPChatTools(toolRegistry, rsweManager.getMCPManager());
+			}),
+			{ dispose: () => { void rsweManager.dispose(); } }
+		);
+		// Servers connect in the background and may already be up
+		syncMCPChatTools(toolRegistry, rsweManager.getMCPManager());
 
 		// Register webview views
 		context.subscriptions.push(
@@ -59,7 +141,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 		// Register tree data providers
 		context.subscriptions.push(
 			vscode.window.registerTreeDataProvider('rswe.projectView', projectProvider),
-			vscode.window.registerTreeDataProvider('rswe.mcpView', mcpProvider)
+			vscode.window.registerTreeDataProvider('rswe.mcpView', mcpProvider),
+			vscode.window.registerTreeDataProvider('rswe.searchView', searchResultsProvider)
+		);
+
+		// Quick fixes from validation suggestions, plus Explain/Fix with RSWE on any diagnostic
+		context.subscriptions.push(
+			vscode.languages.registerCodeActionsProvider(
+				{ scheme: 'file' },
+				new RSWECodeActionProvider(rsweManager, codeReviewer),
+				{ providedCodeActionKinds: RSWECodeActionProvider.providedCodeActionKinds }
+			)
+		);
+
+		// Go to Symbol in Workspace over the semantic search index
+		context.subscriptions.push(
+			vscode.languages.registerWorkspaceSymbolProvider(new RSWEWorkspaceSymbolProvider(semanticSearchManager))
 		);
 
 		// Register commands
@@ -111,6 +208,239 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 				}
 			}),
 
+			vscode.commands.registerCommand('rswe.addMcpServer', async () => {
+				try {
+					await new MCPServerWizard(rsweManager).run();
+					mcpProvider.refresh();
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to add MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.editMcpServer', async (arg?: unknown) => {
+				try {
+					const server = await resolveMCPServerArgument(rsweManager, arg, 'Select the MCP server to edit');
+					if (!server) return;
+					await new MCPServerWizard(rsweManager).run(server);
+					mcpProvider.refresh();
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to edit MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.disableMcpServer', async (arg?: unknown) => {
+				try {
+					const server = await resolveMCPServerArgument(rsweManager, arg, 'Select the MCP server to disable');
+					if (!server) return;
+					await disableMCPServer(server.id);
+					await rsweManager.updateConfiguration();
+					await rsweManager.refreshMCPServers();
+					mcpProvider.refresh();
+					vscode.window.showInformationMessage(`MCP server ${server.config.name ?? server.id} disabled`);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to disable MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.removeMcpServer', async (arg?: unknown) => {
+				try {
+					const server = await resolveMCPServerArgument(rsweManager, arg, 'Select the MCP server to remove');
+					if (!server) return;
+					const name = server.config.name ?? server.id;
+					const confirmed = await vscode.window.showWarningMessage(
+						`Remove MCP server ${name} from your settings?`,
+						{ modal: true },
+						'Remove'
+					);
+					if (confirmed !== 'Remove') return;
+
+					await removeMCPServer(server.id);
+					await rsweManager.updateConfiguration();
+					await rsweManager.refreshMCPServers();
+					mcpProvider.refresh();
+					vscode.window.showInformationMessage(`MCP server ${name} removed`);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to remove MCP server: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.openMcpConfigFile', async () => {
+				const uri = rsweManager.getWorkspaceMCPConfigUri();
+				if (!uri) {
+					vscode.window.showWarningMessage('Open a workspace folder to configure MCP servers in .rswe/mcp.json');
+					return;
+				}
+				await vscode.window.showTextDocument(uri);
+			}),
+
+			vscode.commands.registerCommand('rswe.restartMcpServer', async (serverId: string) => {
+				try {
+					const server = await rsweManager.restartMCPServer(serverId);
+					mcpProvider.refresh();
+					if (server.status === 'connected') {
+						vscode.window.showInformationMessage(`MCP server ${server.name} restarted`);
+					} else {
+						vscode.window.showWarningMessage(`MCP server ${server.name} failed to start: ${server.error ?? server.status}`);
+					}
+				} catch (error) {
+					vscode.window.showErrorMessage(`MCP restart failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.pingMcpServer', async (serverId: string) => {
+				try {
+					const latency = await rsweManager.pingMCPServer(serverId);
+					mcpProvider.refresh();
+					vscode.window.showInformationMessage(`MCP server responded in ${latency}ms`);
+				} catch (error) {
+					mcpProvider.refresh();
+					vscode.window.showErrorMessage(`MCP ping failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.attachMcpResource', async (serverId?: string, uri?: string) => {
+				try {
+					const picked = await pickMCPResource(await rsweManager.getMCPServers(), serverId, uri);
+					if (!picked) return;
+
+					const contents = await rsweManager.getMCPManager().requireClient(picked.server.id).readResource(picked.resource.uri);
+					chatProvider.attachContext({
+						label: picked.resource.name,
+						source: `${picked.server.name}: ${picked.resource.uri}`,
+						content: formatMCPResourceContents(contents)
+					});
+					await vscode.commands.executeCommand('rswe.chatView.focus');
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to attach MCP resource: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.runMcpPrompt', async (serverId?: string, promptName?: string, initialArgs?: Record<string, string>) => {
+				try {
+					const picked = await pickMCPPrompt(await rsweManager.getMCPServers(), serverId, promptName);
+					if (!picked) return;
+
+					const args = await promptForMCPArguments(picked.prompt, initialArgs);
+					if (!args) return;
+
+					const result = await rsweManager.getMCPManager().requireClient(picked.server.id).getPrompt(picked.prompt.name, args);
+					const message = formatMCPPromptMessages(result);
+					if (!message.trim()) {
+						vscode.window.showWarningMessage(`MCP prompt ${picked.prompt.name} returned no content`);
+						return;
+					}
+
+					await vscode.commands.executeCommand('rswe.chatView.focus');
+					await chatProvider.sendMessage(message);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to run MCP prompt: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.copyMcpServerConfig', async () => {
+				const url = mcpServer.getUrl();
+				if (!url) {
+					const selection = await vscode.window.showWarningMessage(
+						'The RSWE MCP server is not running. Enable rswe.mcpServer.enabled to serve project intelligence to other agents.',
+						'Open Settings'
+					);
+					if (selection === 'Open Settings') {
+						await vscode.commands.executeCommand('workbench.action.openSettings', 'rswe.mcpServer');
+					}
+					return;
+				}
+
+				const bridgePath = vscode.Uri.joinPath(context.extensionUri, 'dist', 'mcp-server.js').fsPath;
+				const snippet = {
+					mcpServers: {
+						rswe: { type: 'http', url },
+						'rswe-stdio': { command: 'node', args: [bridgePath, '--url', url] }
+					}
+				};
+				await vscode.env.clipboard.writeText(JSON.stringify(snippet, null, 2));
+				vscode.window.showInformationMessage(`RSWE MCP server configuration copied (${url})`);
+			}),
+
+			vscode.commands.registerCommand('rswe.explainDiagnostic', async (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+				try {
+					const document = await vscode.workspace.openTextDocument(uri);
+					await vscode.commands.executeCommand('rswe.chatView.focus');
+					await chatProvider.sendMessage(diagnosticAssistant.buildExplainPrompt(document, diagnostic));
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to explain the error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.fixDiagnostic', async (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+				try {
+					const document = await vscode.workspace.openTextDocument(uri);
+					if (await diagnosticAssistant.fix(document, diagnostic)) {
+						vscode.window.showInformationMessage(`RSWE fix applied to ${vscode.workspace.asRelativePath(uri)}`);
+					}
+				} catch (error) {
+					vscode.window.showErrorMessage(`Failed to fix the error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.showSystemPrompt', async () => {
+				const config = rsweManager.getConfig();
+				if (!config) {
+					vscode.window.showWarningMessage('RSWE configuration is not loaded');
+					return;
+				}
+
+				const prompt = promptAssembler.getLastAssembledPrompt() ?? promptAssembler.assemble(config.prompt);
+				const document = await vscode.workspace.openTextDocument({
+					language: 'markdown',
+					content: PromptAssembler.formatForDebug(prompt)
+				});
+				await vscode.window.showTextDocument(document, { preview: true });
+			}),
+
+			vscode.commands.registerCommand('rswe.semanticSearch', async (query?: string) => {
+				await searchResultsProvider.search(typeof query === 'string' ? query : undefined);
+			}),
+
+			vscode.commands.registerCommand('rswe.editSearchFilters', async () => {
+				await searchResultsProvider.editFilters();
+			}),
+
+			vscode.commands.registerCommand('rswe.clearSearchResults', () => {
+				searchResultsProvider.clear();
+			}),
+
+			vscode.commands.registerCommand('rswe.openSearchResult', async (result: SemanticSearchResult, line?: number) => {
+				await searchResultsProvider.openResult(result, line);
+			}),
+
+			vscode.commands.registerCommand('rswe.findDuplicateCode', async () => {
+				if (!await searchResultsProvider.ensureIndexed()) return;
+
+				try {
+					const report = await vscode.window.withProgress(
+						{ location: vscode.ProgressLocation.Window, title: 'RSWE: Looking for duplicate code' },
+						() => semanticSearchManager.findClones()
+					);
+					projectProvider.setCloneReport(report);
+					vscode.window.showInformationMessage(`Found ${report.groups.length} groups of duplicate code in ${report.analyzedFunctions} functions`);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Duplicate code detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.exportCloneReport', async () => {
+				await projectProvider.exportCloneReport();
+			}),
+
+			vscode.commands.registerCommand('rswe.showRedactionLog', async () => {
+				const uri = rsweManager.getSecretRedactor().getAuditLogUri();
+				try {
+					await vscode.window.showTextDocument(uri, { preview: true });
+				} catch {
+					vscode.window.showInformationMessage('RSWE has not redacted any secrets yet');
+				}
+			}),
+
 			vscode.commands.registerCommand('rswe.validateCode', async () => {
 				const activeEditor = vscode.window.activeTextEditor;
 				if (!activeEditor) {
@@ -120,26 +450,72 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
 				try {
 					const result = await rsweManager.validateCode(activeEditor.document);
+					const runs = result.validatorRuns?.length ? ` (${formatValidatorRuns(result.validatorRuns)})` : '';
+					let selection: string | undefined;
 					if (result.isValid) {
-						vscode.window.showInformationMessage('Code validation passed ');
+						selection = await vscode.window.showInformationMessage(`Code validation passed${runs}`, 'Review with RSWE');
 					} else {
 						const errorCount = result.errors.length;
 						const warningCount = result.warnings.length;
-						vscode.window.showWarningMessage(
-							`Code validation found ${errorCount} errors and ${warningCount} warnings`
+						selection = await vscode.window.showWarningMessage(
+							`Code validation found ${errorCount} errors and ${warningCount} warnings${runs}`,
+							'Review with RSWE'
 						);
 					}
+					if (selection === 'Review with RSWE') {
+						await vscode.commands.executeCommand('rswe.reviewFile');
+					}
 				} catch (error) {
 					vscode.window.showErrorMessage(`Code validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
 				}
+			}),
+
+			vscode.commands.registerCommand('rswe.reviewFile', async () => {
+				const activeEditor = vscode.window.activeTextEditor;
+				if (!activeEditor) {
+					vscode.window.showWarningMessage('No active editor found');
+					return;
+				}
+
+				try {
+					const outcome = await vscode.window.withProgress(
+						{ location: vscode.ProgressLocation.Notification, title: `RSWE: Reviewing ${vscode.workspace.asRelativePath(activeEditor.document.uri)}...` },
+						() => codeReviewer.reviewDocument(activeEditor.document)
+					);
+					await showReviewOutcome(outcome);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Code review failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.reviewChanges', async () => {
+				try {
+					const outcome = await vscode.window.withProgress(
+						{ location: vscode.ProgressLocation.Notification, title: 'RSWE: Reviewing uncommitted changes...' },
+						() => codeReviewer.reviewChanges()
+					);
+					if (!outcome) {
+						vscode.window.showInformationMessage('There are no uncommitted changes to review');
+						return;
+					}
+					await showReviewOutcome(outcome);
+				} catch (error) {
+					vscode.window.showErrorMessage(`Code review failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+				}
+			}),
+
+			vscode.commands.registerCommand('rswe.clearReview', () => {
+				codeReviewer.clear();
 			})
 		);
 		console.log('✅ RSWE-V1: All commands registered successfully');
 
 		// Listen for configuration changes
-		const disposable = vscode.workspace.onDidChangeConfiguration((event: vscode.ConfigurationChangeEvent) => {
+		const disposable = vscode.workspace.onDidChangeConfiguration(async (event: vscode.ConfigurationChangeEvent) => {
 			if (event.affectsConfiguration('rswe')) {
-				rsweManager.updateConfiguration();
+				await rsweManager.updateConfiguration();
+				await applyMCPServerConfig();
+				await applySearchConfig();
 			}
 		});
 		context.subscriptions.push(disposable);
@@ -181,6 +557,27 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 	}
 }
 
+/**
+ * Summarize a finished code review and offer to open the Problems panel
+ */
+async function showReviewOutcome(outcome: CodeReviewOutcome): Promise<void> {
+	const results = [...outcome.results.values()];
+	const errorCount = results.reduce((count, result) => count + result.errors.length, 0);
+	const warningCount = results.reduce((count, result) => count + result.warnings.length, 0);
+	const skipped = outcome.skippedIssues > 0 ? ` (${outcome.skippedIssues} malformed findings ignored)` : '';
+
+	const selection = await vscode.window.showInformationMessage(
+		`RSWE Review: ${errorCount} errors and ${warningCount} warnings in ${results.length} files${skipped}. ${outcome.summary}`,
+		'Show Problems',
+		'Clear Review'
+	);
+	if (selection === 'Show Problems') {
+		await vscode.commands.executeCommand('workbench.actions.view.problems');
+	} else if (selection === 'Clear Review') {
+		await vscode.commands.executeCommand('rswe.clearReview');
+	}
+}
+
 /**
  * Extension Deactivation Point
  * 
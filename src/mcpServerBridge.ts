@@ -0,0 +1,100 @@
+import * as readline from 'readline';
+import { HttpTransport } from '@/services/mcp/HttpTransport';
+import { JsonRpcMessage } from '@/services/mcp/MCPTransport';
+
+/**
+ * RSWE MCP stdio bridge
+ *
+ * Lets MCP clients that only launch stdio servers reach the RSWE endpoint
+ * running inside VS Code. Reads newline-delimited JSON-RPC messages from
+ * stdin, forwards them over HTTP and writes the responses to stdout.
+ *
+ * Usage: node dist/mcp-server.js [--url http://127.0.0.1:7420/mcp]
+ */
+
+const DEFAULT_URL = 'http://127.0.0.1:7420/mcp';
+
+// How long to wait for outstanding responses once stdin has closed
+const DRAIN_TIMEOUT_MS = 30000;
+
+function resolveUrl(argv: string[]): string {
+	const index = argv.indexOf('--url');
+	if (index !== -1 && argv[index + 1]) {
+		return argv[index + 1]!;
+	}
+	return process.env['RSWE_MCP_URL'] || DEFAULT_URL;
+}
+
+async function main(): Promise<void> {
+	const transport = new HttpTransport({ url: resolveUrl(process.argv.slice(2)) });
+	// Ids of forwarded requests still waiting for a response
+	const pending = new Set<string | number>();
+	let inputClosed = false;
+
+	const closeWhenIdle = () => {
+		if (inputClosed && pending.size === 0) {
+			void transport.close().finally(() => process.exit(0));
+		}
+	};
+
+	transport.onMessage = message => {
+		process.stdout.write(`${JSON.stringify(message)}\n`);
+		if ('id' in message && !('method' in message) && message.id !== null && message.id !== undefined) {
+			pending.delete(message.id);
+			closeWhenIdle();
+		}
+	};
+	transport.onClose = error => {
+		if (error) {
+			console.error(`RSWE MCP bridge: ${error.message}`);
+		}
+		process.exit(error ? 1 : 0);
+	};
+	await transport.start();
+
+	const input = readline.createInterface({ input: process.stdin });
+	input.on('line', line => {
+		if (!line.trim()) return;
+
+		let message: JsonRpcMessage;
+		try {
+			message = JSON.parse(line);
+		} catch {
+			process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } })}\n`);
+			return;
+		}
+
+		const requestId = 'id' in message && 'method' in message ? message.id : undefined;
+		if (requestId !== undefined && requestId !== null) {
+			pending.add(requestId);
+		}
+
+		transport.send(message).catch(error => {
+			const text = error instanceof Error ? error.message : 'Unknown error';
+			console.error(`RSWE MCP bridge: ${text}`);
+			// Answer requests so the client does not wait forever
+			if (requestId !== undefined) {
+				process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', id: requestId, error: { code: -32603, message: `RSWE is not reachable: ${text}` } })}\n`);
+			}
+			if (requestId !== undefined && requestId !== null) {
+				pending.delete(requestId);
+				closeWhenIdle();
+			}
+		});
+	});
+	// Clients may close stdin right after their last request; let the
+	// responses arrive before closing the transport aborts them
+	input.on('close', () => {
+		inputClosed = true;
+		setTimeout(() => {
+			console.error(`RSWE MCP bridge: Gave up waiting for ${pending.size} response(s)`);
+			void transport.close().finally(() => process.exit(0));
+		}, DRAIN_TIMEOUT_MS).unref();
+		closeWhenIdle();
+	});
+}
+
+main().catch(error => {
+	console.error(`RSWE MCP bridge: ${error instanceof Error ? error.message : error}`);
+	process.exit(1);
+});
@@ -1,9 +1,10 @@
 import * as vscode from 'vscode';
-import { ChatSession, ChatMessage, ChatWebviewMessage } from '@/types';
+import { ChatAttachment, ChatSession, ChatMessage, ChatWebviewMessage, ToolActivity, ToolApprovalDecision } from '@/types';
 import { RSWEManager } from '@/core/RSWEManager';
 import { ProjectContextManager } from '@/core/ProjectContextManager';
 import { SemanticSearchManager } from '@/core/SemanticSearchManager';
 import { DependencyGraphManager } from '@/core/DependencyGraphManager';
+import { formatMessageWithAttachments } from '@/utils/conversation';
 
 /**
  * Chat View Provider for RSWE-V1 Sidebar
@@ -18,10 +19,14 @@ import { DependencyGraphManager } from '@/core/DependencyGraphManager';
 export class ChatViewProvider implements vscode.WebviewViewProvider {
 	public static readonly viewType = 'rswe.chatView';
 
-	private _view?: vscode.WebviewView;
+	private _view: vscode.WebviewView | undefined;
 	private _currentSession: ChatSession | null = null;
 	//private _chatHistory: ChatSession[] = [];
 	private _isContextLoaded = false;
+	// Tool calls waiting for the user to allow or deny them, by tool call id
+	private _pendingApprovals = new Map<string, { toolName: string; resolve: (decision: ToolApprovalDecision) => void }>();
+	// Context attached to the next message the user sends
+	private _pendingAttachments: ChatAttachment[] = [];
 
 	constructor(
 		private readonly _extensionUri: vscode.Uri,
@@ -151,6 +156,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 			}
 		);
 
+		// Tool calls can no longer be approved once the view is gone
+		webviewView.onDidDispose(() => {
+			this._view = undefined;
+			this._denyPendingApprovals();
+		});
+
 		// Initialize with a new session
 		this._createNewSession();
 	}
@@ -164,6 +175,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 				case 'chat.new':
 					this._handleNewChat();
 					break;
+				case 'chat.toolApproval':
+					this._handleToolApproval(message.payload.toolCallId, message.payload.decision);
+					break;
+				case 'chat.removeAttachment':
+					this._removeAttachment(message.payload.attachmentId);
+					break;
 				case 'chat.settings':
 					this._handleSettings();
 					break;
@@ -194,17 +211,47 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 		}
 	}
 
+	/**
+	 * Attach context, such as an MCP resource, to the next message
+	 */
+	public attachContext(attachment: Omit<ChatAttachment, 'id'>): void {
+		this._pendingAttachments.push({ id: this._generateId(), ...attachment });
+		this._postAttachments();
+	}
+
+	/**
+	 * Send a message on the user's behalf, e.g. a rendered MCP prompt
+	 */
+	public async sendMessage(messageContent: string): Promise<void> {
+		await this._handleSendMessage(messageContent);
+	}
+
 	private async _handleSendMessage(messageContent: string): Promise<void> {
 		if (!messageContent?.trim() || !this._currentSession) {
 			return;
 		}
 
+		if (await this._handleSlashCommand(messageContent.trim())) {
+			return;
+		}
+
+		// Earlier turns of this session are sent along as conversation history
+		const history = [...this._currentSession.messages];
+
+		// Attachments go out with this message only
+		const attachments = this._pendingAttachments;
+		this._pendingAttachments = [];
+		if (attachments.length > 0) {
+			this._postAttachments();
+		}
+
 		// Add user message to session
 		const userMessage: ChatMessage = {
 			id: this._generateId(),
 			role: 'user',
 			content: messageContent.trim(),
-			timestamp: new Date()
+			timestamp: new Date(),
+			...(attachments.length > 0 ? { metadata: { attachments } } : {})
 		};
 
 		this._currentSession.messages.push(userMessage);
@@ -226,7 +273,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
 			// Get streaming response from Claude via RSWE Manager
 			const response = await this._rsweManager.sendStreamingChatMessage(
-				messageContent,
+				formatMessageWithAttachments(messageContent, attachments),
 				(chunk: { content: string; done: boolean }) => {
 					fullContent = chunk.content;
 					
@@ -239,7 +286,16 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 							done: chunk.done
 						}
 					});
-				}
+				},
+				history,
+				(activity: ToolActivity) => {
+					// Show tool calls inline while Claude works
+					this._postMessage({
+						type: 'chat.tool',
+						payload: { messageId, activity }
+					});
+				},
+				(activity: ToolActivity) => this._requestToolApproval(activity)
 			);
 
 			// Add complete assistant response to session
@@ -284,6 +340,91 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 		}
 	}
 
+	/**
+	 * Run chat slash commands for MCP resources and prompts:
+	 *   /resource [serverId] [uri]
+	 *   /prompt [serverId] [promptName] [name=value ...]
+	 * Missing parts are picked interactively. Returns false for ordinary messages.
+	 */
+	private async _handleSlashCommand(messageContent: string): Promise<boolean> {
+		const [command, serverId, name, ...rest] = messageContent.split(/\s+/);
+		if (command !== '/resource' && command !== '/prompt') {
+			return false;
+		}
+
+		// The webview shows the typing indicator for every send; nothing is streaming yet
+		this._postMessage({
+			type: 'chat.typing',
+			payload: { isTyping: false }
+		});
+
+		if (command === '/resource') {
+			await vscode.commands.executeCommand('rswe.attachMcpResource', serverId, name);
+		} else {
+			const args = Object.fromEntries(rest
+				.filter(pair => pair.includes('='))
+				.map(pair => [pair.substring(0, pair.indexOf('=')), pair.substring(pair.indexOf('=') + 1)]));
+			await vscode.commands.executeCommand('rswe.runMcpPrompt', serverId, name, args);
+		}
+		return true;
+	}
+
+	private _removeAttachment(attachmentId?: string): void {
+		this._pendingAttachments = this._pendingAttachments.filter(attachment => attachment.id !== attachmentId);
+		this._postAttachments();
+	}
+
+	private _postAttachments(): void {
+		this._postMessage({
+			type: 'chat.attachments',
+			payload: {
+				attachments: this._pendingAttachments.map(({ id, label, source }) => ({ id, label, source }))
+			}
+		});
+	}
+
+	/**
+	 * Ask the user to approve a tool call unless they always allowed the tool
+	 */
+	private _requestToolApproval(activity: ToolActivity): Promise<ToolApprovalDecision> {
+		const alwaysAllowed = this._context.workspaceState.get<string[]>('rswe.alwaysAllowedTools', []);
+		if (alwaysAllowed.includes(activity.name)) {
+			return Promise.resolve('allow-once');
+		}
+
+		// Without a visible chat nobody can answer the prompt
+		if (!this._view) {
+			return Promise.resolve('deny');
+		}
+
+		return new Promise(resolve => {
+			this._pendingApprovals.set(activity.id, { toolName: activity.name, resolve });
+		});
+	}
+
+	private _handleToolApproval(toolCallId?: string, decision?: ToolApprovalDecision): void {
+		if (!toolCallId || !decision) return;
+
+		const pending = this._pendingApprovals.get(toolCallId);
+		if (!pending) return;
+		this._pendingApprovals.delete(toolCallId);
+
+		if (decision === 'allow-always') {
+			const alwaysAllowed = this._context.workspaceState.get<string[]>('rswe.alwaysAllowedTools', []);
+			if (!alwaysAllowed.includes(pending.toolName)) {
+				this._context.workspaceState.update('rswe.alwaysAllowedTools', [...alwaysAllowed, pending.toolName]);
+			}
+		}
+		pending.resolve(decision);
+	}
+
+	private _denyPendingApprovals(): void {
+		for (const pending of this._pendingApprovals.values()) {
+			pending.resolve('deny');
+		}
+		this._pendingApprovals.clear();
+	}
+
 	// private async _handleClearChat(): Promise<void> {
 	// 	this._createNewSession();
 	// 	this._postMessage({
@@ -402,6 +543,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 	}
 
 	private _handleNewChat(): void {
+		this._denyPendingApprovals();
+		this._pendingAttachments = [];
+		this._postAttachments();
 		this._createNewSession();
 		this._postMessage({
 			type: 'chat.new',
@@ -497,6 +641,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 				</div>
 				
 				<div class="input-container">
+					<div class="attachment-list hidden" id="attachmentList"></div>
 					<div class="input-wrapper">
 						<textarea
 							id="messageInput"
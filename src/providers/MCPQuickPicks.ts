@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { MCPPrompt, MCPResource, MCPServer } from '@/types';
+
+/**
+ * Find a resource by server and URI, or let the user pick one from all
+ * connected servers (narrowed to `serverId` when given).
+ */
+export async function pickMCPResource(
+	servers: MCPServer[],
+	serverId?: string,
+	uri?: string
+): Promise<{ server: MCPServer; resource: MCPResource } | undefined> {
+	const candidates = _connected(servers, serverId)
+		.flatMap(server => server.resources.map(resource => ({ server, resource })));
+
+	if (uri) {
+		const match = candidates.find(candidate => candidate.resource.uri === uri);
+		if (match) return match;
+
+		// Servers may serve URIs they do not list, e.g. from resource templates
+		const server = _connected(servers, serverId)[0];
+		if (!serverId || !server) {
+			vscode.window.showWarningMessage(`MCP resource "${uri}" was not found`);
+			return undefined;
+		}
+		return { server, resource: { uri, name: uri } };
+	}
+
+	if (candidates.length === 0) {
+		vscode.window.showInformationMessage('No connected MCP server offers resources');
+		return undefined;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		candidates.map(candidate => ({
+			label: `$(file) ${candidate.resource.name}`,
+			description: candidate.server.name,
+			detail: candidate.resource.description || candidate.resource.uri,
+			candidate
+		})),
+		{ placeHolder: 'Select a resource to attach to the chat', matchOnDescription: true, matchOnDetail: true }
+	);
+	return picked?.candidate;
+}
+
+/**
+ * Find a prompt by server and name, or let the user pick one from all
+ * connected servers (narrowed to `serverId` when given).
+ */
+export async function pickMCPPrompt(
+	servers: MCPServer[],
+	serverId?: string,
+	name?: string
+): Promise<{ server: MCPServer; prompt: MCPPrompt } | undefined> {
+	const candidates = _connected(servers, serverId)
+		.flatMap(server => server.prompts.map(prompt => ({ server, prompt })));
+
+	if (name) {
+		const match = candidates.find(candidate => candidate.prompt.name === name);
+		if (!match) {
+			vscode.window.showWarningMessage(`MCP prompt "${name}" was not found${serverId ? ` on server ${serverId}` : ''}`);
+		}
+		return match;
+	}
+
+	if (candidates.length === 0) {
+		vscode.window.showInformationMessage('No connected MCP server offers prompts');
+		return undefined;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		candidates.map(candidate => ({
+			label: `$(comment) ${candidate.prompt.name}`,
+			description: candidate.server.name,
+			detail: candidate.prompt.description ?? '',
+			candidate
+		})),
+		{ placeHolder: 'Select a prompt to run in the chat', matchOnDescription: true, matchOnDetail: true }
+	);
+	return picked?.candidate;
+}
+
+/**
+ * Ask for each prompt argument not already provided. Returns undefined if
+ * the user cancels.
+ */
+export async function promptForMCPArguments(
+	prompt: MCPPrompt,
+	initial: Record<string, string> = {}
+): Promise<Record<string, string> | undefined> {
+	const args: Record<string, string> = { ...initial };
+
+	for (const [index, argument] of prompt.arguments.entries()) {
+		if (args[argument.name] !== undefined) continue;
+
+		const value = await vscode.window.showInputBox({
+			title: `${prompt.name} (${index + 1}/${prompt.arguments.length})`,
+			prompt: `${argument.name}${argument.required ? '' : ' (optional)'}${argument.description ? `: ${argument.description}` : ''}`,
+			ignoreFocusOut: true,
+			validateInput: input => argument.required && !input.trim() ? `${argument.name} is required` : undefined
+		});
+		if (value === undefined) {
+			return undefined;
+		}
+		if (value.trim()) {
+			args[argument.name] = value;
+		}
+	}
+
+	return args;
+}
+
+function _connected(servers: MCPServer[], serverId?: string): MCPServer[] {
+	return servers.filter(server => server.status === 'connected' && (!serverId || server.id === serverId));
+}
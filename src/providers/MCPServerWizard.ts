@@ -0,0 +1,465 @@
+import * as vscode from 'vscode';
+import { RSWEManager } from '@/core/RSWEManager';
+import { ConfiguredMCPServer, getConfiguredMCPServers, saveMCPServer } from '@/core/MCPSettings';
+import { MCPServerConfig, MCPTool, TreeViewItem } from '@/types';
+
+// Returned by a step when the user pressed the back button
+const BACK = Symbol('back');
+type StepResult = typeof BACK | 'next' | undefined;
+
+/**
+ * Values collected by the wizard
+ */
+interface WizardState {
+	id: string;
+	name: string;
+	transport: MCPServerConfig['transport'];
+	commandLine: string;
+	url: string;
+	variables: string;
+	target: vscode.ConfigurationTarget;
+}
+
+/**
+ * MCPServerWizard - Guided setup for adding or editing an MCP server
+ *
+ * Walks through name, transport, command line or URL and environment
+ * variables or headers in a multi-step QuickInput, test-connects the server
+ * and saves the definition to workspace or user settings.
+ */
+export class MCPServerWizard {
+	constructor(private readonly _rsweManager: RSWEManager) {}
+
+	/**
+	 * Run the wizard, returning true when a server was saved
+	 */
+	public async run(existing?: ConfiguredMCPServer): Promise<boolean> {
+		const hasWorkspace = !!vscode.workspace.workspaceFolders?.length;
+		const state: WizardState = existing
+			? this._stateFromConfig(existing)
+			: {
+				id: '',
+				name: '',
+				transport: 'stdio',
+				commandLine: '',
+				url: '',
+				variables: '',
+				target: hasWorkspace ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global
+			};
+
+		const title = existing ? `Edit MCP Server: ${existing.id}` : 'Add MCP Server';
+		const steps: Array<(step: number, totalSteps: number) => Promise<StepResult>> = [
+			(step, total) => this._askName(state, title, step, total, !existing),
+			(step, total) => this._askTransport(state, title, step, total),
+			(step, total) => this._askEndpoint(state, title, step, total),
+			(step, total) => this._askVariables(state, title, step, total),
+			(step, total) => this._testConnection(state, title, step, total)
+		];
+		// Editing keeps the server where it is already defined
+		if (!existing && hasWorkspace) {
+			steps.push((step, total) => this._askTarget(state, title, step, total));
+		}
+
+		let index = 0;
+		while (index < steps.length) {
+			const result = await steps[index]!(index + 1, steps.length);
+			if (result === undefined) {
+				return false;
+			}
+			index = result === BACK ? Math.max(0, index - 1) : index + 1;
+		}
+
+		await saveMCPServer(state.id, this._buildConfig(state), state.target);
+		await this._rsweManager.updateConfiguration();
+		await this._rsweManager.refreshMCPServers();
+
+		const where = state.target === vscode.ConfigurationTarget.Global ? 'user' : 'workspace';
+		vscode.window.showInformationMessage(`MCP server ${state.name} saved to ${where} settings`);
+		return true;
+	}
+
+	private async _askName(state: WizardState, title: string, step: number, totalSteps: number, isNew: boolean): Promise<StepResult> {
+		const existingIds = new Set((await this._rsweManager.getMCPServers()).map(server => server.id));
+		getConfiguredMCPServers().forEach(server => existingIds.add(server.id));
+
+		const value = await this._showInput({
+			title,
+			step,
+			totalSteps,
+			value: state.name,
+			prompt: 'Display name of the server',
+			placeholder: 'e.g. GitHub',
+			validate: input => {
+				const id = _toServerId(input);
+				if (!id) return 'Enter a name containing letters or digits';
+				if (isNew && existingIds.has(id)) return `A server with id "${id}" already exists`;
+				return undefined;
+			}
+		});
+		if (typeof value !== 'string') return value;
+
+		state.name = value.trim();
+		if (isNew) {
+			state.id = _toServerId(state.name);
+		}
+		return 'next';
+	}
+
+	private async _askTransport(state: WizardState, title: string, step: number, totalSteps: number): Promise<StepResult> {
+		const items: Array<vscode.QuickPickItem & { transport: MCPServerConfig['transport'] }> = [
+			{ label: 'stdio', description: 'Local process', detail: 'Launch a command and talk to it over stdin/stdout', transport: 'stdio' },
+			{ label: 'http', description: 'Streamable HTTP', detail: 'Connect to a remote server URL', transport: 'http' },
+			{ label: 'sse', description: 'HTTP + Server-Sent Events', detail: 'Connect to a legacy SSE server URL', transport: 'sse' }
+		];
+
+		const picked = await this._showPick({
+			title,
+			step,
+			totalSteps,
+			placeholder: 'How should RSWE connect to the server?',
+			items,
+			activeItem: items.find(item => item.transport === state.transport)
+		});
+		if (picked === undefined || picked === BACK) return picked;
+
+		state.transport = picked.transport;
+		return 'next';
+	}
+
+	private async _askEndpoint(state: WizardState, title: string, step: number, totalSteps: number): Promise<StepResult> {
+		if (state.transport === 'stdio') {
+			const value = await this._showInput({
+				title,
+				step,
+				totalSteps,
+				value: state.commandLine,
+				prompt: 'Command and arguments that start the server',
+				placeholder: 'e.g. npx -y @modelcontextprotocol/server-github',
+				validate: input => _splitCommandLine(input).length === 0 ? 'Enter a command' : undefined
+			});
+			if (typeof value !== 'string') return value;
+			state.commandLine = value.trim();
+			return 'next';
+		}
+
+		const value = await this._showInput({
+			title,
+			step,
+			totalSteps,
+			value: state.url,
+			prompt: 'Server URL',
+			placeholder: state.transport === 'sse' ? 'e.g. http://localhost:3000/sse' : 'e.g. https://example.com/mcp',
+			validate: input => {
+				try {
+					const url = new URL(input.trim());
+					return url.protocol === 'http:' || url.protocol === 'https:' ? undefined : 'URL must use http or https';
+				} catch {
+					return 'Enter a valid URL';
+				}
+			}
+		});
+		if (typeof value !== 'string') return value;
+		state.url = value.trim();
+		return 'next';
+	}
+
+	private async _askVariables(state: WizardState, title: string, step: number, totalSteps: number): Promise<StepResult> {
+		const isStdio = state.transport === 'stdio';
+		const value = await this._showInput({
+			title,
+			step,
+			totalSteps,
+			value: state.variables,
+			prompt: isStdio
+				? 'Environment variables as KEY=value pairs separated by ";" (optional)'
+				: 'HTTP headers as Name=value pairs separated by ";" (optional)',
+			placeholder: isStdio ? 'e.g. GITHUB_TOKEN=ghp_...' : 'e.g. Authorization=Bearer ...',
+			validate: input => {
+				const invalid = _splitPairs(input).find(pair => !pair.includes('=') || pair.startsWith('='));
+				return invalid ? `Expected KEY=value but got "${invalid}"` : undefined;
+			}
+		});
+		if (typeof value !== 'string') return value;
+		state.variables = value.trim();
+		return 'next';
+	}
+
+	private async _testConnection(state: WizardState, title: string, step: number, totalSteps: number): Promise<StepResult> {
+		let tools: MCPTool[] = [];
+		let serverName = '';
+		let failure: string | undefined;
+
+		await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: `Connecting to ${state.name}...` },
+			async () => {
+				try {
+					({ serverName, tools } = await this._rsweManager.getMCPManager().testServer(this._buildConfig(state)));
+				} catch (error) {
+					failure = error instanceof Error ? error.message : 'Unknown error';
+				}
+			}
+		);
+
+		type ResultItem = vscode.QuickPickItem & { action: 'save' | 'back' | 'tool' };
+		const items: ResultItem[] = failure
+			? [
+				{ label: '$(arrow-left) Edit configuration', action: 'back' },
+				{ label: '$(save) Save anyway', detail: 'The server can be restarted later from the MCP view', action: 'save' }
+			]
+			: [
+				{ label: '$(check) Save server', action: 'save' },
+				{ label: `Discovered tools`, kind: vscode.QuickPickItemKind.Separator, action: 'tool' },
+				...tools.map((tool): ResultItem => ({ label: `$(tools) ${tool.name}`, detail: tool.description, action: 'tool' }))
+			];
+
+		const picked = await this._showPick({
+			title: failure
+				? `${title}: connection failed`
+				: `${title}: connected to ${serverName} (${tools.length} tools)`,
+			step,
+			totalSteps,
+			placeholder: failure ?? 'Connection succeeded. Save this server?',
+			items
+		});
+		if (picked === undefined || picked === BACK) return picked;
+		return picked.action === 'back' ? BACK : 'next';
+	}
+
+	private async _askTarget(state: WizardState, title: string, step: number, totalSteps: number): Promise<StepResult> {
+		const items: Array<vscode.QuickPickItem & { target: vscode.ConfigurationTarget }> = [
+			{ label: 'Workspace settings', description: 'Only this workspace', target: vscode.ConfigurationTarget.Workspace },
+			{ label: 'User settings', description: 'All workspaces', target: vscode.ConfigurationTarget.Global }
+		];
+
+		const picked = await this._showPick({
+			title,
+			step,
+			totalSteps,
+			placeholder: 'Where should the server be saved?',
+			items,
+			activeItem: items.find(item => item.target === state.target)
+		});
+		if (picked === undefined || picked === BACK) return picked;
+
+		state.target = picked.target;
+		return 'next';
+	}
+
+	/**
+	 * Show one input step, resolving to the value, BACK, or undefined when cancelled
+	 */
+	private _showInput(options: {
+		title: string;
+		step: number;
+		totalSteps: number;
+		value: string;
+		prompt: string;
+		placeholder: string;
+		validate: (value: string) => string | undefined;
+	}): Promise<string | typeof BACK | undefined> {
+		return new Promise(resolve => {
+			const input = vscode.window.createInputBox();
+			input.title = options.title;
+			input.step = options.step;
+			input.totalSteps = options.totalSteps;
+			input.value = options.value;
+			input.prompt = options.prompt;
+			input.placeholder = options.placeholder;
+			input.ignoreFocusOut = true;
+			if (options.step > 1) {
+				input.buttons = [vscode.QuickInputButtons.Back];
+			}
+
+			let settled = false;
+			const finish = (result: string | typeof BACK | undefined): void => {
+				if (settled) return;
+				settled = true;
+				resolve(result);
+				input.dispose();
+			};
+
+			input.onDidChangeValue(value => {
+				input.validationMessage = value ? options.validate(value) : undefined;
+			});
+			input.onDidAccept(() => {
+				const message = options.validate(input.value);
+				if (message) {
+					input.validationMessage = message;
+					return;
+				}
+				finish(input.value);
+			});
+			input.onDidTriggerButton(() => finish(BACK));
+			input.onDidHide(() => finish(undefined));
+			input.show();
+		});
+	}
+
+	/**
+	 * Show one pick step, resolving to the item, BACK, or undefined when cancelled
+	 */
+	private _showPick<T extends vscode.QuickPickItem>(options: {
+		title: string;
+		step: number;
+		totalSteps: number;
+		placeholder: string;
+		items: T[];
+		activeItem?: T | undefined;
+	}): Promise<T | typeof BACK | undefined> {
+		return new Promise(resolve => {
+			const pick = vscode.window.createQuickPick<T>();
+			pick.title = options.title;
+			pick.step = options.step;
+			pick.totalSteps = options.totalSteps;
+			pick.placeholder = options.placeholder;
+			pick.items = options.items;
+			pick.ignoreFocusOut = true;
+			pick.matchOnDetail = true;
+			if (options.activeItem) {
+				pick.activeItems = [options.activeItem];
+			}
+			if (options.step > 1) {
+				pick.buttons = [vscode.QuickInputButtons.Back];
+			}
+
+			let settled = false;
+			const finish = (result: T | typeof BACK | undefined): void => {
+				if (settled) return;
+				settled = true;
+				resolve(result);
+				pick.dispose();
+			};
+
+			pick.onDidAccept(() => {
+				const selected = pick.selectedItems[0];
+				if (selected) finish(selected);
+			});
+			pick.onDidTriggerButton(() => finish(BACK));
+			pick.onDidHide(() => finish(undefined));
+			pick.show();
+		});
+	}
+
+	private _stateFromConfig(existing: ConfiguredMCPServer): WizardState {
+		const { config } = existing;
+		const variables = config.transport === 'stdio' ? config.env : config.headers;
+		return {
+			id: existing.id,
+			name: config.name ?? existing.id,
+			transport: config.transport,
+			commandLine: [config.command ?? '', ...(config.args ?? [])].filter(Boolean).map(_quoteArgument).join(' '),
+			url: config.url ?? '',
+			variables: Object.entries(variables ?? {}).map(([key, value]) => `${key}=${value}`).join('; '),
+			target: existing.target
+		};
+	}
+
+	private _buildConfig(state: WizardState): MCPServerConfig {
+		const variables = Object.fromEntries(_splitPairs(state.variables).map(pair => {
+			const separator = pair.indexOf('=');
+			return [pair.substring(0, separator).trim(), pair.substring(separator + 1).trim()];
+		}));
+		const hasVariables = Object.keys(variables).length > 0;
+
+		if (state.transport === 'stdio') {
+			const [command, ...args] = _splitCommandLine(state.commandLine);
+			return {
+				name: state.name,
+				transport: 'stdio',
+				...(command ? { command } : {}),
+				...(args.length > 0 ? { args } : {}),
+				...(hasVariables ? { env: variables } : {})
+			};
+		}
+
+		return {
+			name: state.name,
+			transport: state.transport,
+			url: state.url,
+			...(hasVariables ? { headers: variables } : {})
+		};
+	}
+}
+
+/**
+ * Resolve the server a command was invoked for: a tree item, a server id,
+ * or a pick from the configured servers when invoked from the palette.
+ * Servers defined in .rswe/mcp.json can only be changed in that file, so
+ * they are never returned; the user is offered to open the file instead.
+ */
+export async function resolveMCPServerArgument(rsweManager: RSWEManager, arg: unknown, placeHolder: string): Promise<ConfiguredMCPServer | undefined> {
+	const servers = getConfiguredMCPServers().filter(server => !rsweManager.isWorkspaceMCPServer(server.id));
+
+	let id: string | undefined;
+	if (typeof arg === 'string') {
+		id = arg;
+	} else if (arg && typeof arg === 'object' && typeof (arg as TreeViewItem).id === 'string') {
+		id = (arg as TreeViewItem).id.replace(/^server-/, '');
+	}
+
+	if (id && rsweManager.isWorkspaceMCPServer(id)) {
+		await _offerWorkspaceMCPConfig(rsweManager, `MCP server "${id}" is defined in .rswe/mcp.json; change it in that file`);
+		return undefined;
+	}
+
+	if (id) {
+		const server = servers.find(candidate => candidate.id === id);
+		if (!server) {
+			vscode.window.showWarningMessage(`MCP server "${id}" is not defined in rswe.mcp.servers`);
+		}
+		return server;
+	}
+
+	if (servers.length === 0) {
+		vscode.window.showInformationMessage('No MCP servers are configured');
+		return undefined;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		servers.map(server => ({
+			label: server.config.name ?? server.id,
+			description: `${server.id} · ${server.config.transport}${server.enabled ? '' : ' · disabled'}`,
+			server
+		})),
+		{ placeHolder }
+	);
+	return picked?.server;
+}
+
+function _toServerId(name: string): string {
+	return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function _splitPairs(value: string): string[] {
+	return value.split(';').map(pair => pair.trim()).filter(Boolean);
+}
+
+/**
+ * Split a command line into arguments, honouring single and double quotes
+ */
+function _splitCommandLine(commandLine: string): string[] {
+	const args: string[] = [];
+	const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(commandLine)) !== null) {
+		args.push(match[1] ?? match[2] ?? match[3] ?? '');
+	}
+	return args;
+}
+
+function _quoteArgument(arg: string): string {
+	return /\s/.test(arg) ? `"${arg}"` : arg;
+}
+
+/**
+ * Offer to open .rswe/mcp.json with an explanation of why
+ */
+async function _offerWorkspaceMCPConfig(rsweManager: RSWEManager, message: string): Promise<void> {
+	const uri = rsweManager.getWorkspaceMCPConfigUri();
+	if (!uri) return;
+
+	const action = await vscode.window.showInformationMessage(message, 'Open .rswe/mcp.json');
+	if (action) {
+		await vscode.window.showTextDocument(uri);
+	}
+}
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { RSWEManager } from '@/core/RSWEManager';
-import { TreeViewItem, MCPServer, MCPTool } from '@/types';
+import { TreeViewItem, MCPServer, MCPTool, MCPResource, MCPPrompt } from '@/types';
 
 /**
  * MCP Tree Provider for RSWE-V1 Sidebar
@@ -182,7 +182,8 @@ export class MCPTreeProvider implements vscode.TreeDataProvider<TreeViewItem> {
 			tooltip: `${server.name}\nStatus: ${server.status}\nTransport: ${server.transport}\nTools: ${server.tools.length}\n${lastPingText}`,
 			iconPath: statusIcon,
 			collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
-			contextValue: `mcpServer-${server.status}`,
+			// Servers from .rswe/mcp.json are edited in the file, not through settings
+			contextValue: `${this._rsweManager.isWorkspaceMCPServer(server.id) ? 'mcpFileServer' : 'mcpServer'}-${server.status}`,
 			children: this._createServerChildren(server)
 		};
 	}
@@ -236,6 +237,32 @@ export class MCPTreeProvider implements vscode.TreeDataProvider<TreeViewItem> {
 			});
 		}
 
+		// Resources the server exposes as chat context
+		if (server.resources.length > 0) {
+			children.push({
+				id: `${server.id}-resources`,
+				label: 'Resources',
+				description: `${server.resources.length} resources`,
+				iconPath: 'file-text',
+				collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+				contextValue: 'serverResources',
+				children: server.resources.map(resource => this._createResourceItem(server.id, resource))
+			});
+		}
+
+		// Prompt templates the server offers
+		if (server.prompts.length > 0) {
+			children.push({
+				id: `${server.id}-prompts`,
+				label: 'Prompts',
+				description: `${server.prompts.length} prompts`,
+				iconPath: 'comment-discussion',
+				collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+				contextValue: 'serverPrompts',
+				children: server.prompts.map(prompt => this._createPromptItem(server.id, prompt))
+			});
+		}
+
 		// Actions
 		children.push({
 			id: `${server.id}-actions`,
@@ -305,6 +332,40 @@ export class MCPTreeProvider implements vscode.TreeDataProvider<TreeViewItem> {
 		}));
 	}
 
+	private _createResourceItem(serverId: string, resource: MCPResource): TreeViewItem {
+		return {
+			id: `${serverId}-resource-${resource.uri}`,
+			label: resource.name,
+			description: resource.mimeType || '',
+			tooltip: `${resource.name}\n${resource.uri}${resource.description ? `\n${resource.description}` : ''}\n\nClick to attach to the chat`,
+			iconPath: 'file',
+			contextValue: 'mcpResource',
+			command: {
+				command: 'rswe.attachMcpResource',
+				title: 'Attach to Chat',
+				arguments: [serverId, resource.uri]
+			}
+		};
+	}
+
+	private _createPromptItem(serverId: string, prompt: MCPPrompt): TreeViewItem {
+		const argumentNames = prompt.arguments.map(arg => arg.required ? arg.name : `${arg.name}?`);
+
+		return {
+			id: `${serverId}-prompt-${prompt.name}`,
+			label: prompt.name,
+			description: argumentNames.join(', '),
+			tooltip: `${prompt.name}${prompt.description ? `\n${prompt.description}` : ''}\nArguments: ${argumentNames.join(', ') || 'none'}\n\nClick to run in the chat`,
+			iconPath: 'comment',
+			contextValue: 'mcpPrompt',
+			command: {
+				command: 'rswe.runMcpPrompt',
+				title: 'Run Prompt',
+				arguments: [serverId, prompt.name]
+			}
+		};
+	}
+
 	private _createNoServersItem(): TreeViewItem {
 		return {
 			id: 'no-servers',
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { RSWEManager } from '../core/RSWEManager';
+import { CloneGroup, CloneOccurrence, CloneReport } from '../core/SemanticSearchManager';
 import { ProjectAnalysis, TreeViewItem } from '../types';
 
 /**
@@ -11,12 +12,14 @@ import { ProjectAnalysis, TreeViewItem } from '../types';
  * - Code complexity indicators
  * - Language distribution
  * - Quick navigation to important files
+ * - Duplicate code groups
  */
 export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeViewItem> {
 	private _onDidChangeTreeData: vscode.EventEmitter<TreeViewItem | undefined | null | void> = new vscode.EventEmitter<TreeViewItem | undefined | null | void>();
 	readonly onDidChangeTreeData: vscode.Event<TreeViewItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
 	private _projectAnalysis: ProjectAnalysis | null = null;
+	private _cloneReport: CloneReport | null = null;
 
 	constructor(private readonly _rsweManager: RSWEManager) {
 		this._initialize();
@@ -36,6 +39,43 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeViewItem
 		});
 	}
 
+	/**
+	 * Show the groups of a duplicate code report
+	 */
+	public setCloneReport(report: CloneReport): void {
+		this._cloneReport = report;
+		this._onDidChangeTreeData.fire();
+	}
+
+	/**
+	 * Save the current duplicate code report as JSON
+	 */
+	public async exportCloneReport(): Promise<void> {
+		if (!this._cloneReport) {
+			vscode.window.showInformationMessage('Run Find Duplicate Code first to create a report');
+			return;
+		}
+
+		try {
+			const folder = vscode.workspace.workspaceFolders?.[0];
+			const fileName = 'rswe-duplicate-code.json';
+			const saveUri = await vscode.window.showSaveDialog({
+				defaultUri: folder ? vscode.Uri.joinPath(folder.uri, fileName) : vscode.Uri.file(fileName),
+				filters: {
+					'JSON Files': ['json']
+				}
+			});
+
+			if (saveUri) {
+				await vscode.workspace.fs.writeFile(saveUri, Buffer.from(JSON.stringify(this._cloneReport, null, 2)));
+				vscode.window.showInformationMessage(`Duplicate code report exported to ${saveUri.fsPath}`);
+			}
+		} catch (error) {
+			console.error('Export failed:', error);
+			vscode.window.showErrorMessage('Failed to export duplicate code report');
+		}
+	}
+
 	public getTreeItem(element: TreeViewItem): vscode.TreeItem {
 		const treeItem = new vscode.TreeItem(element.label, element.collapsibleState);
 		
@@ -86,6 +126,9 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeViewItem
 		// Metrics
 		items.push(this._createMetricsItem());
 
+		// Duplicate Code
+		items.push(this._createDuplicateCodeItem());
+
 		// Quick Actions
 		items.push(this._createQuickActionsItem());
 
@@ -353,6 +396,88 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeViewItem
 		return children;
 	}
 
+	private _createDuplicateCodeItem(): TreeViewItem {
+		const report = this._cloneReport;
+		return {
+			id: 'duplicate-code',
+			label: 'Duplicate Code',
+			description: report ? `${report.groups.length} clone groups` : 'Not checked yet',
+			tooltip: report
+				? `${report.analyzedFunctions} functions compared at ${Math.round(report.threshold * 100)}% similarity on ${new Date(report.generatedAt).toLocaleString()}`
+				: 'Find functions that are copies of each other',
+			iconPath: 'copy',
+			collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+			contextValue: report ? 'duplicateCodeReport' : 'duplicateCode',
+			children: this._createDuplicateCodeChildren()
+		};
+	}
+
+	private _createDuplicateCodeChildren(): TreeViewItem[] {
+		if (!this._cloneReport) {
+			return [{
+				id: 'find-duplicate-code',
+				label: 'Find Duplicate Code',
+				description: 'Compare function bodies',
+				iconPath: 'search',
+				command: {
+					command: 'rswe.findDuplicateCode',
+					title: 'Find Duplicate Code'
+				},
+				contextValue: 'action'
+			}];
+		}
+
+		if (this._cloneReport.groups.length === 0) {
+			return [{
+				id: 'no-duplicate-code',
+				label: 'No duplicate code found',
+				iconPath: 'check',
+				contextValue: 'cloneGroup'
+			}];
+		}
+
+		return this._cloneReport.groups.map((group, index) => this._createCloneGroupItem(group, index));
+	}
+
+	private _createCloneGroupItem(group: CloneGroup, index: number): TreeViewItem {
+		const [first] = group.occurrences;
+		return {
+			id: `clone-group-${index}`,
+			label: first ? first.name : `Clone group ${index + 1}`,
+			description: `${group.occurrences.length} copies · ${Math.round(group.similarity * 100)}% similar`,
+			tooltip: group.occurrences.map(occurrence => `${occurrence.name} (${occurrence.file}:${occurrence.range.startLine})`).join('\n'),
+			iconPath: 'files',
+			collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+			children: group.occurrences.map((occurrence, occurrenceIndex) => this._createCloneOccurrenceItem(occurrence, `clone-${index}-${occurrenceIndex}`)),
+			contextValue: 'cloneGroup'
+		};
+	}
+
+	private _createCloneOccurrenceItem(occurrence: CloneOccurrence, id: string): TreeViewItem {
+		const { range } = occurrence;
+		const item: TreeViewItem = {
+			id,
+			label: occurrence.name,
+			description: `${occurrence.file}:${range.startLine} · ${occurrence.lineCount} lines`,
+			tooltip: `${occurrence.file}:${range.startLine}-${range.endLine}`,
+			iconPath: occurrence.type === 'method' ? 'symbol-method' : 'symbol-function',
+			contextValue: 'cloneOccurrence'
+		};
+
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		if (folder) {
+			item.command = {
+				command: 'vscode.open',
+				title: 'Open Occurrence',
+				arguments: [
+					vscode.Uri.joinPath(folder.uri, occurrence.file),
+					{ selection: new vscode.Range(range.startLine - 1, range.startColumn - 1, range.endLine - 1, range.endColumn - 1) }
+				]
+			};
+		}
+		return item;
+	}
+
 	private _createQuickActionsItem(): TreeViewItem {
 		return {
 			id: 'actions',
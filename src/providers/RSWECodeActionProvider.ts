@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { ValidationSuggestion } from '@/types';
+import { RSWEManager } from '@/core/RSWEManager';
+import { CodeReviewer } from '@/core/CodeReviewer';
+
+/**
+ * RSWE Code Action Provider
+ *
+ * Offers compiler and review suggestions that carry a fix as quick fixes,
+ * and adds "Explain this error with RSWE" and "Fix with RSWE" to every
+ * diagnostic.
+ */
+export class RSWECodeActionProvider implements vscode.CodeActionProvider {
+	public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+	constructor(
+		private readonly _rsweManager: RSWEManager,
+		private readonly _codeReviewer: CodeReviewer
+	) {}
+
+	public provideCodeActions(
+		document: vscode.TextDocument,
+		range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext
+	): vscode.CodeAction[] {
+		const actions: vscode.CodeAction[] = [];
+
+		// Suggestions only exist for the document version they were computed on
+		const suggestions = [
+			...this._rsweManager.getValidatorRegistry().getCachedResult(document)?.suggestions ?? [],
+			...this._codeReviewer.getSuggestions(document)
+		];
+		for (const suggestion of suggestions) {
+			if (suggestion.fix === undefined) continue;
+
+			const fixRange = _getSuggestionRange(document, suggestion);
+			if (!fixRange.intersection(range) && !fixRange.contains(range)) continue;
+
+			const action = new vscode.CodeAction(`RSWE: ${suggestion.message}`, vscode.CodeActionKind.QuickFix);
+			action.edit = new vscode.WorkspaceEdit();
+			action.edit.replace(document.uri, fixRange, suggestion.fix);
+			action.diagnostics = context.diagnostics.filter(diagnostic => diagnostic.range.intersection(fixRange));
+			actions.push(action);
+		}
+
+		for (const diagnostic of context.diagnostics) {
+			const explain = new vscode.CodeAction('Explain this error with RSWE', vscode.CodeActionKind.QuickFix);
+			explain.command = {
+				command: 'rswe.explainDiagnostic',
+				title: explain.title,
+				arguments: [document.uri, diagnostic]
+			};
+			explain.diagnostics = [diagnostic];
+
+			const fix = new vscode.CodeAction('Fix with RSWE', vscode.CodeActionKind.QuickFix);
+			fix.command = {
+				command: 'rswe.fixDiagnostic',
+				title: fix.title,
+				arguments: [document.uri, diagnostic]
+			};
+			fix.diagnostics = [diagnostic];
+
+			actions.push(explain, fix);
+		}
+
+		return actions;
+	}
+}
+
+function _getSuggestionRange(document: vscode.TextDocument, suggestion: ValidationSuggestion): vscode.Range {
+	const start = new vscode.Position(suggestion.line - 1, suggestion.column - 1);
+	if (suggestion.endLine === undefined) {
+		return document.lineAt(start.line).range;
+	}
+	return new vscode.Range(start, new vscode.Position(suggestion.endLine - 1, (suggestion.endColumn ?? 1) - 1));
+}
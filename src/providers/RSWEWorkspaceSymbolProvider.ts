@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { SemanticSearchManager } from '@/core/SemanticSearchManager';
+import { SearchableCodeItem, SearchableItemType, getItemRange } from '@/services/search/SearchableCodeItem';
+
+// Symbols returned per query; the editor filters and sorts them further
+const MAX_WORKSPACE_SYMBOLS = 256;
+
+const SYMBOL_KINDS: Record<SearchableItemType, vscode.SymbolKind> = {
+	function: vscode.SymbolKind.Function,
+	class: vscode.SymbolKind.Class,
+	method: vscode.SymbolKind.Method,
+	interface: vscode.SymbolKind.Interface,
+	type: vscode.SymbolKind.TypeParameter,
+	enum: vscode.SymbolKind.Enum,
+	variable: vscode.SymbolKind.Variable
+};
+
+/**
+ * RSWE Workspace Symbol Provider
+ *
+ * Offers the symbols in the semantic search index to Go to Symbol in
+ * Workspace (Ctrl+T), matching names by substring or fuzzy subsequence.
+ */
+export class RSWEWorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
+	constructor(private readonly _semanticSearchManager: SemanticSearchManager) {}
+
+	public provideWorkspaceSymbols(query: string, token: vscode.CancellationToken): vscode.SymbolInformation[] {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		if (!folder) return [];
+
+		return this._semanticSearchManager.findSymbolsByName(query, MAX_WORKSPACE_SYMBOLS, token).map(result => new vscode.SymbolInformation(
+			result.item.name,
+			_getSymbolKind(result.item),
+			result.item.container ?? '',
+			new vscode.Location(vscode.Uri.joinPath(folder.uri, result.file), getItemRange(result.item))
+		));
+	}
+}
+
+function _getSymbolKind(item: SearchableCodeItem): vscode.SymbolKind {
+	return item.type === 'method' && item.name === 'constructor' ? vscode.SymbolKind.Constructor : SYMBOL_KINDS[item.type];
+}
@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import { ProjectContextManager } from '@/core/ProjectContextManager';
+import { SemanticSearchManager, SemanticSearchResult } from '@/core/SemanticSearchManager';
+import { SEARCHABLE_ITEM_TYPES, SearchableItemType, getItemRange } from '@/services/search/SearchableCodeItem';
+import { SearchFilters, describeSearchFilters } from '@/services/search/SearchFilters';
+import { TreeViewItem } from '@/types';
+import { globToRegExp } from '@/utils/glob';
+
+// Workspace state keys
+const HISTORY_KEY = 'rswe.searchHistory';
+const FILTERS_KEY = 'rswe.searchFilters';
+
+const MAX_HISTORY_ENTRIES = 20;
+const MAX_RESULTS = 50;
+// Lines of each hit shown under it in the results view
+const MAX_PREVIEW_LINES = 8;
+
+const KIND_ICONS: Record<SearchableItemType, string> = {
+	function: 'symbol-function',
+	class: 'symbol-class',
+	method: 'symbol-method',
+	interface: 'symbol-interface',
+	type: 'symbol-type-parameter',
+	enum: 'symbol-enum',
+	variable: 'symbol-variable'
+};
+
+/**
+ * Search Results Provider for the RSWE sidebar
+ *
+ * Runs natural language code searches and lists the hits with their match
+ * reason and a preview of their code. Filters and the query history are kept
+ * in workspace state.
+ */
+export class SearchResultsProvider implements vscode.TreeDataProvider<TreeViewItem> {
+	private _onDidChangeTreeData: vscode.EventEmitter<TreeViewItem | undefined | null | void> = new vscode.EventEmitter<TreeViewItem | undefined | null | void>();
+	readonly onDidChangeTreeData: vscode.Event<TreeViewItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+	private _query: string | null = null;
+	private _results: SemanticSearchResult[] = [];
+
+	constructor(
+		private readonly _context: vscode.ExtensionContext,
+		private readonly _semanticSearchManager: SemanticSearchManager,
+		private readonly _projectContextManager: ProjectContextManager
+	) {}
+
+	public refresh(): void {
+		this._onDidChangeTreeData.fire();
+	}
+
+	public getTreeItem(element: TreeViewItem): vscode.TreeItem {
+		const treeItem = new vscode.TreeItem(element.label, element.collapsibleState);
+
+		treeItem.id = element.id;
+		treeItem.description = element.description || '';
+		treeItem.tooltip = element.tooltip || element.label;
+		treeItem.contextValue = element.contextValue || '';
+		if (element.command) {
+			treeItem.command = element.command;
+		}
+		if (element.iconPath) {
+			treeItem.iconPath = typeof element.iconPath === 'string' ? new vscode.ThemeIcon(element.iconPath) : element.iconPath;
+		}
+
+		return treeItem;
+	}
+
+	public async getChildren(element?: TreeViewItem): Promise<TreeViewItem[]> {
+		if (element) {
+			return element.children || [];
+		}
+
+		const filters = describeSearchFilters(this._getFilters());
+		if (this._query === null) {
+			return [{
+				id: 'search-start',
+				label: 'Search code...',
+				description: filters,
+				tooltip: 'Search the project in natural language',
+				iconPath: 'search',
+				command: { command: 'rswe.semanticSearch', title: 'Search Code' }
+			}];
+		}
+
+		return [
+			{
+				id: 'search-summary',
+				label: `${this._results.length} results for "${this._query}"`,
+				description: filters,
+				tooltip: filters ? `Filters: ${filters}` : 'No filters',
+				iconPath: 'search',
+				command: { command: 'rswe.semanticSearch', title: 'Search Code' }
+			},
+			...this._results.map((result, index) => this._createResultItem(result, index))
+		];
+	}
+
+	/**
+	 * Ask for a query, offering recent ones, and show its results
+	 */
+	public async search(query?: string): Promise<void> {
+		const searchQuery = query ?? await this._promptForQuery();
+		if (!searchQuery) return;
+
+		if (!await this.ensureIndexed()) return;
+
+		try {
+			this._results = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Window, title: `RSWE: Searching for "${searchQuery}"` },
+				() => this._semanticSearchManager.searchCode(searchQuery, MAX_RESULTS, this._getFilters())
+			);
+			this._query = searchQuery;
+			await this._addToHistory(searchQuery);
+			this.refresh();
+			await vscode.commands.executeCommand('rswe.searchView.focus');
+		} catch (error) {
+			vscode.window.showErrorMessage(`Code search failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Change one of the search filters and run the current query again
+	 */
+	public async editFilters(): Promise<void> {
+		const filters = this._getFilters();
+		const choice = await vscode.window.showQuickPick([
+			{ label: '$(symbol-class) Symbol kinds', description: filters.kinds?.join(', ') || 'Any', filter: 'kinds' as const },
+			{ label: '$(code) Languages', description: filters.languages?.join(', ') || 'Any', filter: 'languages' as const },
+			{ label: '$(folder) Path', description: filters.pathGlob || 'Any', filter: 'pathGlob' as const },
+			{ label: '$(beaker) Source or tests', description: filters.scope === 'tests' ? 'Tests only' : filters.scope === 'source' ? 'Source only' : 'Both', filter: 'scope' as const },
+			{ label: '$(clear-all) Clear all filters', filter: 'clear' as const }
+		], { placeHolder: 'Choose a search filter to change' });
+		if (!choice) return;
+
+		const updated: SearchFilters = { ...filters };
+		switch (choice.filter) {
+			case 'kinds': {
+				const picked = await vscode.window.showQuickPick(
+					SEARCHABLE_ITEM_TYPES.map(kind => ({ label: kind, picked: filters.kinds?.includes(kind) ?? false })),
+					{ canPickMany: true, placeHolder: 'Symbol kinds to include (none for all)' }
+				);
+				if (!picked) return;
+				updated.kinds = picked.map(item => item.label);
+				break;
+			}
+			case 'languages': {
+				if (!await this.ensureIndexed()) return;
+				const picked = await vscode.window.showQuickPick(
+					this._semanticSearchManager.getIndexedLanguages().map(language => ({ label: language, picked: filters.languages?.includes(language) ?? false })),
+					{ canPickMany: true, placeHolder: 'Languages to include (none for all)' }
+				);
+				if (!picked) return;
+				updated.languages = picked.map(item => item.label);
+				break;
+			}
+			case 'pathGlob': {
+				const glob = await vscode.window.showInputBox({
+					prompt: 'Only search files matching this glob (empty for all files)',
+					placeHolder: 'src/**/*.ts',
+					value: filters.pathGlob ?? '',
+					validateInput: value => {
+						try {
+							globToRegExp(value);
+							return null;
+						} catch (error) {
+							return error instanceof Error ? error.message : 'Invalid glob';
+						}
+					}
+				});
+				if (glob === undefined) return;
+				if (glob.trim()) {
+					updated.pathGlob = glob.trim();
+				} else {
+					delete updated.pathGlob;
+				}
+				break;
+			}
+			case 'scope': {
+				const picked = await vscode.window.showQuickPick([
+					{ label: 'Both', scope: undefined },
+					{ label: 'Source only', scope: 'source' as const },
+					{ label: 'Tests only', scope: 'tests' as const }
+				], { placeHolder: 'Search source code, tests or both' });
+				if (!picked) return;
+				if (picked.scope) {
+					updated.scope = picked.scope;
+				} else {
+					delete updated.scope;
+				}
+				break;
+			}
+			case 'clear':
+				await this._context.workspaceState.update(FILTERS_KEY, undefined);
+				return this._rerun();
+		}
+
+		await this._context.workspaceState.update(FILTERS_KEY, updated);
+		await this._rerun();
+	}
+
+	public clear(): void {
+		this._query = null;
+		this._results = [];
+		this.refresh();
+	}
+
+	/**
+	 * Open a result's file with its range selected, or a single line of it
+	 */
+	public async openResult(result: SemanticSearchResult, line?: number): Promise<void> {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		if (!folder) return;
+
+		const range = line !== undefined
+			? new vscode.Range(line - 1, 0, line - 1, 0)
+			: getItemRange(result.item);
+		try {
+			await vscode.window.showTextDocument(vscode.Uri.joinPath(folder.uri, result.file), { selection: range, preview: true });
+		} catch (error) {
+			vscode.window.showErrorMessage(`Could not open ${result.file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	private async _rerun(): Promise<void> {
+		if (this._query !== null) {
+			await this.search(this._query);
+		} else {
+			this.refresh();
+		}
+	}
+
+	/**
+	 * Build the index on first use when the chat has not done so yet
+	 */
+	public async ensureIndexed(): Promise<boolean> {
+		if (this._semanticSearchManager.getIndexStatus().isIndexed) return true;
+
+		if (!vscode.workspace.workspaceFolders) {
+			vscode.window.showWarningMessage('Open a folder to index its code');
+			return false;
+		}
+
+		try {
+			return await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: 'RSWE: Indexing project for search...' },
+				async () => {
+					const analysis = this._projectContextManager.getCurrentAnalysis() ?? await this._projectContextManager.initializeProjectContext();
+					if (!analysis) {
+						vscode.window.showInformationMessage('RSWE is still analyzing the project; try again in a moment');
+						return false;
+					}
+					await this._semanticSearchManager.initialize(analysis);
+					return true;
+				}
+			);
+		} catch (error) {
+			vscode.window.showErrorMessage(`Failed to index the project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			return false;
+		}
+	}
+
+	private _promptForQuery(): Promise<string | undefined> {
+		const historyItems = this._getHistory().map(query => ({ label: `$(history) ${query}`, query }));
+		const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { query: string }>();
+		quickPick.placeholder = 'Describe the code to find, or narrow it with kind:, lang:, path:, in:tests, "phrases", -word and OR';
+		quickPick.items = historyItems;
+
+		const filters = describeSearchFilters(this._getFilters());
+		if (filters) {
+			quickPick.title = `Search Code (${filters})`;
+		}
+
+		quickPick.onDidChangeValue(value => {
+			quickPick.items = value.trim()
+				? [{ label: `$(search) ${value.trim()}`, query: value.trim(), alwaysShow: true }, ...historyItems]
+				: historyItems;
+		});
+
+		return new Promise(resolve => {
+			quickPick.onDidAccept(() => {
+				resolve(quickPick.selectedItems[0]?.query ?? (quickPick.value.trim() || undefined));
+				quickPick.hide();
+			});
+			quickPick.onDidHide(() => {
+				resolve(undefined);
+				quickPick.dispose();
+			});
+			quickPick.show();
+		});
+	}
+
+	private _getHistory(): string[] {
+		return this._context.workspaceState.get<string[]>(HISTORY_KEY, []);
+	}
+
+	private async _addToHistory(query: string): Promise<void> {
+		const history = [query, ...this._getHistory().filter(entry => entry !== query)].slice(0, MAX_HISTORY_ENTRIES);
+		await this._context.workspaceState.update(HISTORY_KEY, history);
+	}
+
+	private _getFilters(): SearchFilters {
+		return this._context.workspaceState.get<SearchFilters>(FILTERS_KEY, {});
+	}
+
+	private _createResultItem(result: SemanticSearchResult, index: number): TreeViewItem {
+		const { item } = result;
+		const id = `search-result-${index}`;
+		const firstLine = item.range?.startLine;
+
+		// Line numbers are only known for items with an exact range
+		const previewLines = item.content.split('\n').slice(0, MAX_PREVIEW_LINES);
+		const children: TreeViewItem[] = previewLines
+			.map((text, offset) => ({ text, offset, line: firstLine !== undefined ? firstLine + offset : undefined }))
+			.filter(({ text }) => text.trim().length > 0)
+			.map(({ text, offset, line }) => ({
+				id: `${id}-line-${offset}`,
+				label: text.trim(),
+				...(line !== undefined ? { description: String(line) } : {}),
+				command: { command: 'rswe.openSearchResult', title: 'Open', arguments: [result, line] }
+			}));
+
+		return {
+			id,
+			label: item.container ? `${item.container}.${item.name}` : item.name,
+			description: `${result.matchReason} · ${result.file}:${item.lineNumber}`,
+			tooltip: [item.signature, item.documentation, `${(result.relevanceScore * 100).toFixed(0)}% relevant`].filter(Boolean).join('\n\n'),
+			iconPath: KIND_ICONS[item.type],
+			collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
+			contextValue: 'searchResult',
+			command: { command: 'rswe.openSearchResult', title: 'Open', arguments: [result] },
+			children
+		};
+	}
+}
@@ -0,0 +1,31 @@
+import { RSWEConfig } from '@/types';
+import { LocalEmbeddingProvider } from '@/services/embeddings/LocalEmbeddingProvider';
+import { RemoteEmbeddingProvider } from '@/services/embeddings/RemoteEmbeddingProvider';
+
+/**
+ * Turns text into vectors for semantic search
+ */
+export interface EmbeddingProvider {
+	// Identifies the vector space; vectors from providers with different ids are not comparable
+	readonly id: string;
+	embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+/**
+ * Create the provider selected in rswe.search.embeddings. A remote provider
+ * without an endpoint falls back to the local one.
+ *
+ * @param redact Applied to every text before it leaves the machine
+ */
+export function createEmbeddingProvider(
+	settings: RSWEConfig['search']['embeddings'],
+	redact: (text: string) => string
+): EmbeddingProvider {
+	if (settings.provider === 'remote') {
+		if (settings.url && settings.model) {
+			return new RemoteEmbeddingProvider({ url: settings.url, model: settings.model, apiKey: settings.apiKey }, redact);
+		}
+		console.warn('EmbeddingProvider: rswe.search.embeddings.url and model are required for remote embeddings; using local embeddings');
+	}
+	return new LocalEmbeddingProvider();
+}
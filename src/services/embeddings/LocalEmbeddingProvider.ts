@@ -0,0 +1,65 @@
+import { EmbeddingProvider } from '@/services/embeddings/EmbeddingProvider';
+import { normalizeVector } from '@/services/embeddings/vectors';
+import { STOPWORDS, splitIdentifiers } from '@/utils/codeTokens';
+
+// Vector size; words and n-grams are hashed into this many buckets
+const DIMENSIONS = 512;
+
+// Character n-grams match word variants such as retry/retries/retrying
+const NGRAM_SIZE = 3;
+const NGRAM_WEIGHT = 0.5;
+
+/**
+ * LocalEmbeddingProvider - Offline embeddings from hashed words and n-grams
+ *
+ * Identifiers are split into words, and each word and its character
+ * trigrams are hashed into a fixed-size vector with sublinear weighting.
+ * Vectors only depend on the text, so they stay valid as the project changes.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+	public readonly id = `local-hashed-ngram-v2-${DIMENSIONS}`;
+
+	public async embed(texts: string[]): Promise<Float32Array[]> {
+		return texts.map(text => this._embedText(text));
+	}
+
+	private _embedText(text: string): Float32Array {
+		const vector = new Float32Array(DIMENSIONS);
+
+		for (const word of splitIdentifiers(text)) {
+			if (word.length < 2 || STOPWORDS.has(word)) continue;
+
+			_addFeature(vector, `w:${word}`, 1);
+			const padded = `#${word}#`;
+			for (let i = 0; i + NGRAM_SIZE <= padded.length; i++) {
+				_addFeature(vector, `g:${padded.substring(i, i + NGRAM_SIZE)}`, NGRAM_WEIGHT);
+			}
+		}
+
+		// Dampen repeated terms so long chunks are not dominated by them
+		for (let i = 0; i < vector.length; i++) {
+			const value = vector[i]!;
+			vector[i] = Math.sign(value) * Math.log1p(Math.abs(value));
+		}
+		return normalizeVector(vector);
+	}
+}
+
+/**
+ * Add a feature to its bucket, with a hash-derived sign so collisions
+ * cancel out rather than accumulate
+ */
+function _addFeature(vector: Float32Array, feature: string, weight: number): void {
+	const hash = _fnv1a(feature);
+	const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+	vector[hash % DIMENSIONS]! += sign * weight;
+}
+
+function _fnv1a(value: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
@@ -0,0 +1,86 @@
+import { RSWEError } from '@/types';
+import { EmbeddingProvider } from '@/services/embeddings/EmbeddingProvider';
+import { normalizeVector } from '@/services/embeddings/vectors';
+
+// Texts sent per request
+const BATCH_SIZE = 64;
+
+// Characters of each text sent; embedding models truncate long input anyway
+const MAX_TEXT_CHARS = 8000;
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+export interface RemoteEmbeddingOptions {
+	// OpenAI-compatible embeddings endpoint, e.g. https://api.voyageai.com/v1/embeddings
+	url: string;
+	model: string;
+	apiKey: string;
+}
+
+/**
+ * RemoteEmbeddingProvider - Embeddings from an OpenAI-compatible HTTP API
+ *
+ * Sends `{ input, model }` and reads `data[].embedding`, the format shared by
+ * Voyage AI, OpenAI and most self-hosted embedding servers.
+ */
+export class RemoteEmbeddingProvider implements EmbeddingProvider {
+	public readonly id: string;
+
+	constructor(
+		private readonly _options: RemoteEmbeddingOptions,
+		private readonly _redact: (text: string) => string
+	) {
+		this.id = `remote:${_options.url}:${_options.model}`;
+	}
+
+	public async embed(texts: string[]): Promise<Float32Array[]> {
+		const vectors: Float32Array[] = [];
+		for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+			vectors.push(...await this._embedBatch(texts.slice(i, i + BATCH_SIZE)));
+		}
+		return vectors;
+	}
+
+	private async _embedBatch(texts: string[]): Promise<Float32Array[]> {
+		let response: Response;
+		try {
+			response = await fetch(this._options.url, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					...(this._options.apiKey ? { 'Authorization': `Bearer ${this._options.apiKey}` } : {})
+				},
+				body: JSON.stringify({
+					model: this._options.model,
+					input: texts.map(text => this._redact(text.substring(0, MAX_TEXT_CHARS)))
+				}),
+				signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+			});
+		} catch (error) {
+			throw new RSWEError(
+				`Embedding request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+				'EMBEDDING_ERROR',
+				{ url: this._options.url }
+			);
+		}
+
+		if (!response.ok) {
+			throw new RSWEError(
+				`Embedding endpoint responded with HTTP ${response.status} ${response.statusText}`,
+				'EMBEDDING_ERROR',
+				{ url: this._options.url }
+			);
+		}
+
+		const body = await response.json() as { data?: Array<{ embedding?: unknown; index?: number }> };
+		const data = body.data ?? [];
+		if (data.length !== texts.length || !data.every(entry => Array.isArray(entry.embedding))) {
+			throw new RSWEError('Embedding endpoint returned an unexpected response', 'EMBEDDING_ERROR', { url: this._options.url });
+		}
+
+		return data
+			.map((entry, position) => ({ index: entry.index ?? position, embedding: entry.embedding as number[] }))
+			.sort((a, b) => a.index - b.index)
+			.map(entry => normalizeVector(Float32Array.from(entry.embedding)));
+	}
+}
@@ -0,0 +1,116 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+// Bump when the file layout changes; older files are discarded
+const VECTOR_INDEX_VERSION = 1;
+
+interface VectorIndexFile {
+	version: number;
+	providerId: string;
+	// Content hash -> base64-encoded Float32Array
+	vectors: Record<string, string>;
+}
+
+/**
+ * VectorIndex - Embeddings of search chunks, persisted between sessions
+ *
+ * Vectors are keyed by a hash of the embedded text, so unchanged chunks are
+ * never embedded twice, even when they move within or between files. The
+ * file is tied to one provider and discarded when the provider changes.
+ */
+export class VectorIndex {
+	private _vectors = new Map<string, Float32Array>();
+	private _providerId: string | null = null;
+	private _isDirty = false;
+
+	constructor(private readonly _filePath: string) {}
+
+	public static hashText(text: string): string {
+		return createHash('sha1').update(text).digest('hex');
+	}
+
+	/**
+	 * Load the vectors stored for a provider, starting empty when the file is
+	 * missing, unreadable or written by another provider
+	 */
+	public async load(providerId: string): Promise<void> {
+		this._vectors.clear();
+		this._providerId = providerId;
+		this._isDirty = false;
+
+		let file: VectorIndexFile;
+		try {
+			file = JSON.parse(await fs.readFile(this._filePath, 'utf8')) as VectorIndexFile;
+		} catch {
+			return;
+		}
+		if (file.version !== VECTOR_INDEX_VERSION || file.providerId !== providerId || typeof file.vectors !== 'object') {
+			console.log(`🧭 VectorIndex: Discarding vectors from ${file.providerId ?? 'an unknown provider'}`);
+			return;
+		}
+
+		for (const [hash, encoded] of Object.entries(file.vectors)) {
+			// Copy out of Node's shared buffer pool, which is not 4-byte aligned
+			const bytes = new Uint8Array(Buffer.from(encoded, 'base64'));
+			this._vectors.set(hash, new Float32Array(bytes.buffer));
+		}
+	}
+
+	public get(hash: string): Float32Array | undefined {
+		return this._vectors.get(hash);
+	}
+
+	public has(hash: string): boolean {
+		return this._vectors.has(hash);
+	}
+
+	public set(hash: string, vector: Float32Array): void {
+		this._vectors.set(hash, vector);
+		this._isDirty = true;
+	}
+
+	/**
+	 * Drop vectors whose text is no longer in the project
+	 */
+	public retain(hashes: Set<string>): void {
+		for (const hash of this._vectors.keys()) {
+			if (!hashes.has(hash)) {
+				this._vectors.delete(hash);
+				this._isDirty = true;
+			}
+		}
+	}
+
+	public get size(): number {
+		return this._vectors.size;
+	}
+
+	/**
+	 * Write the index to disk if it changed since it was loaded or saved
+	 */
+	public async save(): Promise<void> {
+		if (!this._isDirty || !this._providerId) return;
+
+		const file: VectorIndexFile = {
+			version: VECTOR_INDEX_VERSION,
+			providerId: this._providerId,
+			vectors: Object.fromEntries(Array.from(this._vectors, ([hash, vector]) => [
+				hash,
+				Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64')
+			]))
+		};
+
+		// Write to a temporary file first so a crash never leaves a truncated index
+		await fs.mkdir(path.dirname(this._filePath), { recursive: true });
+		const temporaryPath = `${this._filePath}.tmp`;
+		await fs.writeFile(temporaryPath, JSON.stringify(file), 'utf8');
+		await fs.rename(temporaryPath, this._filePath);
+		this._isDirty = false;
+	}
+
+	public clear(): void {
+		this._vectors.clear();
+		this._isDirty = false;
+	}
+}
@@ -0,0 +1,29 @@
+/**
+ * Scale a vector to unit length in place, so dot products are cosine similarities
+ */
+export function normalizeVector(vector: Float32Array): Float32Array {
+	let norm = 0;
+	for (const value of vector) {
+		norm += value * value;
+	}
+	norm = Math.sqrt(norm);
+	if (norm > 0) {
+		for (let i = 0; i < vector.length; i++) {
+			vector[i]! /= norm;
+		}
+	}
+	return vector;
+}
+
+/**
+ * Cosine similarity of two unit vectors
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+	if (a.length !== b.length) return 0;
+
+	let dot = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i]! * b[i]!;
+	}
+	return dot;
+}
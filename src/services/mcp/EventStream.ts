@@ -0,0 +1,87 @@
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+	event: string;
+	data: string;
+	id?: string;
+}
+
+/**
+ * Read a text/event-stream body, calling `onEvent` for every complete event.
+ * Resolves when the stream ends.
+ */
+export async function readEventStream(
+	body: ReadableStream<Uint8Array>,
+	onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let eventName = '';
+	let eventId: string | undefined;
+	let dataLines: string[] = [];
+
+	const dispatch = (): void => {
+		if (dataLines.length > 0) {
+			onEvent({
+				event: eventName || 'message',
+				data: dataLines.join('\n'),
+				...(eventId !== undefined ? { id: eventId } : {})
+			});
+		}
+		eventName = '';
+		dataLines = [];
+	};
+
+	const processLine = (line: string): void => {
+		if (line === '') {
+			dispatch();
+			return;
+		}
+		if (line.startsWith(':')) {
+			return; // Comment / keep-alive
+		}
+
+		const colonIndex = line.indexOf(':');
+		const field = colonIndex >= 0 ? line.substring(0, colonIndex) : line;
+		let value = colonIndex >= 0 ? line.substring(colonIndex + 1) : '';
+		if (value.startsWith(' ')) {
+			value = value.substring(1);
+		}
+
+		switch (field) {
+			case 'event':
+				eventName = value;
+				break;
+			case 'data':
+				dataLines.push(value);
+				break;
+			case 'id':
+				eventId = value;
+				break;
+		}
+	};
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+
+			buffer += decoder.decode(value, { stream: true });
+			let newlineIndex: number;
+			while ((newlineIndex = buffer.search(/\r?\n/)) >= 0) {
+				const line = buffer.substring(0, newlineIndex);
+				buffer = buffer.substring(buffer[newlineIndex] === '\r' ? newlineIndex + 2 : newlineIndex + 1);
+				processLine(line);
+			}
+		}
+
+		if (buffer) {
+			processLine(buffer);
+		}
+		dispatch();
+	} finally {
+		reader.releaseLock();
+	}
+}
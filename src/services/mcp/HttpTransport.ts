@@ -0,0 +1,141 @@
+import { MCPError } from '@/types';
+import { JsonRpcMessage, MCPTransport } from '@/services/mcp/MCPTransport';
+import { readEventStream } from '@/services/mcp/EventStream';
+
+/**
+ * Options for connecting to a remote MCP server
+ */
+export interface HttpTransportOptions {
+	url: string;
+	headers?: Record<string, string>;
+}
+
+/**
+ * HttpTransport - MCP "streamable HTTP" transport
+ *
+ * Every message is POSTed to the server URL. The server answers with either a
+ * JSON body or an event stream carrying the responses, and may assign a session
+ * id that is sent back on every following request.
+ */
+export class HttpTransport implements MCPTransport {
+	public onMessage?: (message: JsonRpcMessage) => void;
+	public onClose?: (error?: Error) => void;
+
+	private _sessionId: string | null = null;
+	private _abortController = new AbortController();
+	private _closed = false;
+
+	constructor(private readonly _options: HttpTransportOptions) {}
+
+	/**
+	 * Validate the server URL; the connection itself is established per request
+	 */
+	public async start(): Promise<void> {
+		try {
+			new URL(this._options.url);
+		} catch {
+			throw new MCPError(`Invalid MCP server URL: ${this._options.url}`);
+		}
+	}
+
+	/**
+	 * POST a message and dispatch whatever the server sends back
+	 */
+	public async send(message: JsonRpcMessage): Promise<void> {
+		if (this._closed) {
+			throw new MCPError('HTTP transport is closed');
+		}
+
+		const response = await fetch(this._options.url, {
+			method: 'POST',
+			headers: this._buildHeaders({
+				'Content-Type': 'application/json',
+				'Accept': 'application/json, text/event-stream'
+			}),
+			body: JSON.stringify(message),
+			signal: this._abortController.signal
+		});
+
+		const sessionId = response.headers.get('mcp-session-id');
+		if (sessionId) {
+			this._sessionId = sessionId;
+		}
+
+		if (response.status === 404 && this._sessionId) {
+			const error = new MCPError('MCP session expired');
+			this._handleClose(error);
+			throw error;
+		}
+		if (!response.ok) {
+			throw new MCPError(`MCP server responded with HTTP ${response.status} ${response.statusText}`);
+		}
+		if (response.status === 202 || !response.body) {
+			return;
+		}
+
+		const contentType = response.headers.get('content-type') ?? '';
+		if (contentType.includes('text/event-stream')) {
+			// Responses may take a while; keep reading in the background
+			readEventStream(response.body, event => {
+				if (event.event === 'message' && event.data) {
+					this._dispatch(event.data);
+				}
+			}).catch(error => {
+				// Aborted streams are expected while closing
+				if (!this._closed && !this._abortController.signal.aborted) {
+					console.warn('MCP HTTP event stream failed:', error);
+				}
+			});
+		} else if (contentType.includes('application/json')) {
+			this._dispatch(await response.text());
+		}
+	}
+
+	/**
+	 * Abort in-flight requests and end the server session
+	 */
+	public async close(): Promise<void> {
+		if (this._closed) return;
+
+		this._abortController.abort();
+		if (this._sessionId) {
+			try {
+				await fetch(this._options.url, { method: 'DELETE', headers: this._buildHeaders({}) });
+			} catch {
+				// The server may already be gone
+			}
+		}
+		this._handleClose();
+	}
+
+	/**
+	 * Merge configured headers, protocol headers and the session id
+	 */
+	private _buildHeaders(headers: Record<string, string>): Record<string, string> {
+		return {
+			...this._options.headers,
+			...headers,
+			...(this._sessionId ? { 'Mcp-Session-Id': this._sessionId } : {})
+		};
+	}
+
+	/**
+	 * Parse a JSON body holding one message or a batch
+	 */
+	private _dispatch(data: string): void {
+		try {
+			const parsed = JSON.parse(data);
+			for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+				this.onMessage?.(message);
+			}
+		} catch (error) {
+			console.warn('Ignoring malformed MCP HTTP message:', data);
+		}
+	}
+
+	private _handleClose(error?: Error): void {
+		if (this._closed) return;
+		this._closed = true;
+		this.onClose?.(error);
+	}
+}
@@ -0,0 +1,325 @@
+import { MCPError, MCPPrompt, MCPResource, MCPTool } from '@/types';
+import {
+	JsonRpcMessage,
+	JsonRpcRequest,
+	JsonRpcResponse,
+	MCPTransport
+} from '@/services/mcp/MCPTransport';
+
+// MCP protocol revision this client implements
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+// JSON-RPC error code for unsupported server-to-client requests
+const METHOD_NOT_FOUND = -32601;
+
+/**
+ * Server details returned by the initialize handshake
+ */
+export interface MCPServerInfo {
+	protocolVersion: string;
+	serverInfo: { name: string; version?: string };
+	capabilities: Record<string, any>;
+	instructions?: string;
+}
+
+/**
+ * Result of an MCP tools/call request
+ */
+export interface MCPToolCallResult {
+	content: Array<{ type: string; text?: string; [key: string]: any }>;
+	isError?: boolean;
+}
+
+/**
+ * Content returned by an MCP resources/read request
+ */
+export interface MCPResourceContents {
+	uri: string;
+	mimeType?: string;
+	text?: string;
+	blob?: string;
+}
+
+/**
+ * Result of an MCP prompts/get request
+ */
+export interface MCPPromptResult {
+	description?: string;
+	messages: Array<{ role: 'user' | 'assistant'; content: { type: string; text?: string; [key: string]: any } }>;
+}
+
+interface PendingRequest {
+	resolve: (result: any) => void;
+	reject: (error: Error) => void;
+	timer: NodeJS.Timeout;
+}
+
+/**
+ * MCPClient - Model Context Protocol client over any transport
+ *
+ * Handles JSON-RPC request/response correlation, the initialize handshake and
+ * the MCP methods RSWE uses.
+ */
+export class MCPClient {
+	public onClose?: (error?: Error) => void;
+
+	private _nextId = 1;
+	private _pending = new Map<number | string, PendingRequest>();
+	private _serverInfo: MCPServerInfo | null = null;
+	private _closed = false;
+
+	constructor(
+		private readonly _transport: MCPTransport,
+		private readonly _requestTimeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+	) {
+		this._transport.onMessage = message => this._handleMessage(message);
+		this._transport.onClose = error => this._handleClose(error);
+	}
+
+	/**
+	 * Start the transport and perform the initialize handshake
+	 */
+	public async connect(): Promise<MCPServerInfo> {
+		await this._transport.start();
+
+		const result = await this.request('initialize', {
+			protocolVersion: MCP_PROTOCOL_VERSION,
+			capabilities: {},
+			clientInfo: { name: 'rswe-v1', version: '1.0.0' }
+		});
+
+		this._serverInfo = {
+			protocolVersion: result?.protocolVersion ?? MCP_PROTOCOL_VERSION,
+			serverInfo: result?.serverInfo ?? { name: 'unknown' },
+			capabilities: result?.capabilities ?? {},
+			...(typeof result?.instructions === 'string' ? { instructions: result.instructions } : {})
+		};
+
+		await this.notify('notifications/initialized');
+		return this._serverInfo;
+	}
+
+	/**
+	 * Get the server details from the handshake
+	 */
+	public getServerInfo(): MCPServerInfo | null {
+		return this._serverInfo;
+	}
+
+	/**
+	 * List all tools offered by the server, following pagination cursors
+	 */
+	public async listTools(): Promise<MCPTool[]> {
+		const tools: MCPTool[] = [];
+		let cursor: string | undefined;
+
+		do {
+			const result = await this.request('tools/list', cursor ? { cursor } : {});
+			for (const tool of result?.tools ?? []) {
+				const inputSchema = tool.inputSchema ?? { type: 'object', properties: {} };
+				tools.push({
+					name: tool.name,
+					description: tool.description ?? '',
+					parameters: inputSchema.properties ?? {},
+					inputSchema
+				});
+			}
+			cursor = result?.nextCursor;
+		} while (cursor);
+
+		return tools;
+	}
+
+	/**
+	 * Call a tool on the server
+	 */
+	public async callTool(name: string, args: Record<string, any>): Promise<MCPToolCallResult> {
+		const result = await this.request('tools/call', { name, arguments: args });
+		return {
+			content: Array.isArray(result?.content) ? result.content : [],
+			...(result?.isError ? { isError: true } : {})
+		};
+	}
+
+	/**
+	 * List all resources offered by the server, following pagination cursors
+	 */
+	public async listResources(): Promise<MCPResource[]> {
+		const resources: MCPResource[] = [];
+		let cursor: string | undefined;
+
+		do {
+			const result = await this.request('resources/list', cursor ? { cursor } : {});
+			for (const resource of result?.resources ?? []) {
+				resources.push({
+					uri: resource.uri,
+					name: resource.name ?? resource.uri,
+					...(resource.description ? { description: resource.description } : {}),
+					...(resource.mimeType ? { mimeType: resource.mimeType } : {})
+				});
+			}
+			cursor = result?.nextCursor;
+		} while (cursor);
+
+		return resources;
+	}
+
+	/**
+	 * Read the contents of a resource
+	 */
+	public async readResource(uri: string): Promise<MCPResourceContents[]> {
+		const result = await this.request('resources/read', { uri });
+		return Array.isArray(result?.contents) ? result.contents : [];
+	}
+
+	/**
+	 * List all prompt templates offered by the server, following pagination cursors
+	 */
+	public async listPrompts(): Promise<MCPPrompt[]> {
+		const prompts: MCPPrompt[] = [];
+		let cursor: string | undefined;
+
+		do {
+			const result = await this.request('prompts/list', cursor ? { cursor } : {});
+			for (const prompt of result?.prompts ?? []) {
+				prompts.push({
+					name: prompt.name,
+					...(prompt.description ? { description: prompt.description } : {}),
+					arguments: Array.isArray(prompt.arguments) ? prompt.arguments : []
+				});
+			}
+			cursor = result?.nextCursor;
+		} while (cursor);
+
+		return prompts;
+	}
+
+	/**
+	 * Render a prompt template with the given arguments
+	 */
+	public async getPrompt(name: string, args: Record<string, string>): Promise<MCPPromptResult> {
+		const result = await this.request('prompts/get', { name, arguments: args });
+		return {
+			...(result?.description ? { description: result.description } : {}),
+			messages: Array.isArray(result?.messages) ? result.messages : []
+		};
+	}
+
+	/**
+	 * Ping the server, returning the round-trip time in milliseconds
+	 */
+	public async ping(): Promise<number> {
+		const startedAt = Date.now();
+		await this.request('ping');
+		return Date.now() - startedAt;
+	}
+
+	/**
+	 * Send a JSON-RPC request and wait for its response
+	 */
+	public async request(method: string, params?: Record<string, any>): Promise<any> {
+		if (this._closed) {
+			throw new MCPError(`Cannot call ${method}: connection is closed`);
+		}
+
+		const id = this._nextId++;
+		const message: JsonRpcRequest = { jsonrpc: '2.0', id, method, ...(params ? { params } : {}) };
+
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				this._pending.delete(id);
+				reject(new MCPError(`Request ${method} timed out after ${this._requestTimeoutMs}ms`));
+			}, this._requestTimeoutMs);
+
+			this._pending.set(id, { resolve, reject, timer });
+			this._transport.send(message).catch(error => {
+				clearTimeout(timer);
+				this._pending.delete(id);
+				reject(new MCPError(`Failed to send ${method}: ${error instanceof Error ? error.message : 'Unknown error'}`, { error }));
+			});
+		});
+	}
+
+	/**
+	 * Send a JSON-RPC notification
+	 */
+	public async notify(method: string, params?: Record<string, any>): Promise<void> {
+		await this._transport.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+	}
+
+	/**
+	 * Close the connection and fail all outstanding requests
+	 */
+	public async close(): Promise<void> {
+		if (this._closed) return;
+		await this._transport.close();
+		this._handleClose();
+	}
+
+	/**
+	 * Check whether the connection is still open
+	 */
+	public isConnected(): boolean {
+		return !this._closed && this._serverInfo !== null;
+	}
+
+	/**
+	 * Dispatch an incoming message to its pending request or handler
+	 */
+	private _handleMessage(message: JsonRpcMessage): void {
+		// Response to one of our requests
+		if ('id' in message && message.id !== null && !('method' in message)) {
+			const response = message as JsonRpcResponse;
+			const pending = this._pending.get(response.id as number | string);
+			if (!pending) return;
+
+			clearTimeout(pending.timer);
+			this._pending.delete(response.id as number | string);
+
+			if (response.error) {
+				pending.reject(new MCPError(response.error.message, { code: response.error.code, data: response.error.data }));
+			} else {
+				pending.resolve(response.result);
+			}
+			return;
+		}
+
+		// Request from the server
+		if ('id' in message && 'method' in message) {
+			this._handleServerRequest(message as JsonRpcRequest);
+		}
+
+		// Server notifications (progress, list changes, logging) are not used yet
+	}
+
+	/**
+	 * Answer requests the server sends to the client
+	 */
+	private _handleServerRequest(request: JsonRpcRequest): void {
+		const response: JsonRpcResponse = request.method === 'ping'
+			? { jsonrpc: '2.0', id: request.id, result: {} }
+			: { jsonrpc: '2.0', id: request.id, error: { code: METHOD_NOT_FOUND, message: `Method not supported: ${request.method}` } };
+
+		this._transport.send(response).catch(error => {
+			console.warn(`Failed to answer MCP server request ${request.method}:`, error);
+		});
+	}
+
+	/**
+	 * Reject outstanding requests and notify listeners once
+	 */
+	private _handleClose(error?: Error): void {
+		if (this._closed) return;
+		this._closed = true;
+
+		for (const pending of this._pending.values()) {
+			clearTimeout(pending.timer);
+			pending.reject(error ?? new MCPError('Connection closed'));
+		}
+		this._pending.clear();
+
+		this.onClose?.(error);
+	}
+}
@@ -0,0 +1,206 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MCPError } from '@/types';
+import { JsonRpcMessage, JsonRpcResponse } from '@/services/mcp/MCPTransport';
+
+// Largest request body accepted from a client
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// JSON-RPC error code for unparseable requests
+const PARSE_ERROR = -32700;
+
+/**
+ * Options for the local MCP HTTP endpoint
+ */
+export interface MCPHttpServerOptions {
+	host: string;
+	port: number;
+	// Addresses the server may bind to and accept connections from
+	allowedAddresses: string[];
+}
+
+/**
+ * Handles one JSON-RPC message, returning null for notifications
+ */
+export type MCPMessageHandler = (message: JsonRpcMessage) => Promise<JsonRpcResponse | null>;
+
+/**
+ * MCPHttpServer - Serves MCP over "streamable HTTP" on a local address
+ *
+ * Every client message is POSTed to /mcp and answered with a JSON body.
+ * Connections from addresses outside the allowlist, requests whose Host
+ * header names another machine (DNS rebinding), requests from web pages on
+ * other origins and bodies that are not JSON (cross-site form posts) are
+ * refused.
+ */
+export class MCPHttpServer {
+	private _server: http.Server | null = null;
+
+	constructor(
+		private readonly _options: MCPHttpServerOptions,
+		private readonly _handler: MCPMessageHandler
+	) {}
+
+	/**
+	 * Start listening, resolving to the URL clients should connect to
+	 */
+	public async start(): Promise<string> {
+		if (!this._isAllowed(this._options.host)) {
+			throw new MCPError(`Bind address ${this._options.host} is not in rswe.mcpServer.allowedAddresses`);
+		}
+
+		const server = http.createServer((request, response) => {
+			this._handleRequest(request, response).catch(error => {
+				console.warn('MCPHttpServer: Request failed:', error);
+				if (!response.headersSent) {
+					response.writeHead(500).end();
+				}
+			});
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			server.once('error', reject);
+			server.listen(this._options.port, this._options.host, () => {
+				server.off('error', reject);
+				resolve();
+			});
+		});
+
+		this._server = server;
+		return this.getUrl()!;
+	}
+
+	/**
+	 * Get the endpoint URL while the server is running
+	 */
+	public getUrl(): string | undefined {
+		const address = this._server?.address() as AddressInfo | null | undefined;
+		if (!address) return undefined;
+
+		const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+		return `http://${host}:${address.port}/mcp`;
+	}
+
+	public async stop(): Promise<void> {
+		const server = this._server;
+		this._server = null;
+		if (!server) return;
+
+		server.closeAllConnections();
+		await new Promise<void>(resolve => server.close(() => resolve()));
+	}
+
+	private async _handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+		const remoteAddress = _normalizeAddress(request.socket.remoteAddress ?? '');
+		if (!this._isAllowed(remoteAddress)) {
+			response.writeHead(403).end();
+			return;
+		}
+
+		const hostHeader = request.headers.host ?? '';
+		const hostname = hostHeader.startsWith('[')
+			? hostHeader.substring(1, hostHeader.indexOf(']'))
+			: hostHeader.split(':')[0]!;
+		if (!this._isAllowed(hostname) && hostname !== 'localhost' && hostname !== this._options.host) {
+			response.writeHead(403).end();
+			return;
+		}
+
+		const origin = request.headers.origin;
+		if (origin !== undefined && !this._isAllowedOrigin(origin)) {
+			response.writeHead(403).end();
+			return;
+		}
+
+		const url = new URL(request.url ?? '/', 'http://localhost');
+		if (url.pathname !== '/mcp') {
+			response.writeHead(404).end();
+			return;
+		}
+		if (request.method === 'DELETE') {
+			// Sessions are not tracked, so there is nothing to end
+			response.writeHead(200).end();
+			return;
+		}
+		if (request.method !== 'POST') {
+			response.writeHead(405, { Allow: 'POST, DELETE' }).end();
+			return;
+		}
+		const contentType = (request.headers['content-type'] ?? '').split(';')[0]!.trim().toLowerCase();
+		if (contentType !== 'application/json') {
+			response.writeHead(415, { Accept: 'application/json' }).end();
+			return;
+		}
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(await _readBody(request));
+		} catch (error) {
+			this._writeJson(response, { jsonrpc: '2.0', id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+			return;
+		}
+
+		const messages = (Array.isArray(parsed) ? parsed : [parsed]) as JsonRpcMessage[];
+		const responses = (await Promise.all(messages.map(message => this._handler(message))))
+			.filter((result): result is JsonRpcResponse => result !== null);
+
+		if (responses.length === 0) {
+			response.writeHead(202).end();
+		} else {
+			this._writeJson(response, Array.isArray(parsed) ? responses : responses[0]!);
+		}
+	}
+
+	private _writeJson(response: http.ServerResponse, body: unknown): void {
+		response.writeHead(200, { 'Content-Type': 'application/json' });
+		response.end(JSON.stringify(body));
+	}
+
+	/**
+	 * Browsers send an Origin header; only pages served from this machine or
+	 * an allowed address may call the endpoint
+	 */
+	private _isAllowedOrigin(origin: string): boolean {
+		let hostname: string;
+		try {
+			hostname = new URL(origin).hostname.replace(/^\[|\]$/g, '');
+		} catch {
+			return false; // Includes the opaque "null" origin
+		}
+		return hostname === 'localhost' || _isLoopback(hostname) || this._isAllowed(hostname);
+	}
+
+	private _isAllowed(address: string): boolean {
+		return this._options.allowedAddresses.map(_normalizeAddress).includes(_normalizeAddress(address));
+	}
+}
+
+/**
+ * Map IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) to plain IPv4
+ */
+function _normalizeAddress(address: string): string {
+	return address.replace(/^::ffff:/i, '').toLowerCase();
+}
+
+function _isLoopback(address: string): boolean {
+	const normalized = _normalizeAddress(address);
+	return normalized === '::1' || /^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(normalized);
+}
+
+function _readBody(request: http.IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		let size = 0;
+		request.on('data', (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_BYTES) {
+				reject(new MCPError('Request body too large'));
+				request.destroy();
+				return;
+			}
+			chunks.push(chunk);
+		});
+		request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+		request.on('error', reject);
+	});
+}
@@ -0,0 +1,47 @@
+/**
+ * JSON-RPC 2.0 message shapes used by the Model Context Protocol
+ */
+export interface JsonRpcRequest {
+	jsonrpc: '2.0';
+	id: number | string;
+	method: string;
+	params?: Record<string, any>;
+}
+
+export interface JsonRpcNotification {
+	jsonrpc: '2.0';
+	method: string;
+	params?: Record<string, any>;
+}
+
+export interface JsonRpcResponse {
+	jsonrpc: '2.0';
+	id: number | string | null;
+	result?: any;
+	error?: {
+		code: number;
+		message: string;
+		data?: any;
+	};
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Transport carrying JSON-RPC messages between the MCP client and a server
+ */
+export interface MCPTransport {
+	/**
+	 * Called for every message received from the server
+	 */
+	onMessage?: (message: JsonRpcMessage) => void;
+
+	/**
+	 * Called once when the connection ends, with the error that caused it if any
+	 */
+	onClose?: (error?: Error) => void;
+
+	start(): Promise<void>;
+	send(message: JsonRpcMessage): Promise<void>;
+	close(): Promise<void>;
+}
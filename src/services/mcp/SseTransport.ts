@@ -0,0 +1,116 @@
+import { MCPError } from '@/types';
+import { JsonRpcMessage, MCPTransport } from '@/services/mcp/MCPTransport';
+import { HttpTransportOptions } from '@/services/mcp/HttpTransport';
+import { readEventStream } from '@/services/mcp/EventStream';
+
+// Time the server has to announce its message endpoint
+const ENDPOINT_TIMEOUT_MS = 10000;
+
+/**
+ * SseTransport - Legacy MCP HTTP+SSE transport
+ *
+ * Opens a long-lived event stream with GET. The server first sends an
+ * `endpoint` event naming the URL that client messages are POSTed to, then
+ * delivers all of its messages as `message` events on the stream.
+ */
+export class SseTransport implements MCPTransport {
+	public onMessage?: (message: JsonRpcMessage) => void;
+	public onClose?: (error?: Error) => void;
+
+	private _endpoint: URL | null = null;
+	private _abortController = new AbortController();
+	private _closed = false;
+
+	constructor(private readonly _options: HttpTransportOptions) {}
+
+	/**
+	 * Open the event stream and wait for the message endpoint
+	 */
+	public async start(): Promise<void> {
+		const response = await fetch(this._options.url, {
+			method: 'GET',
+			headers: { ...this._options.headers, 'Accept': 'text/event-stream' },
+			signal: this._abortController.signal
+		});
+
+		if (!response.ok || !response.body) {
+			throw new MCPError(`MCP server responded with HTTP ${response.status} ${response.statusText}`);
+		}
+
+		await new Promise<void>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				reject(new MCPError(`MCP server did not announce a message endpoint within ${ENDPOINT_TIMEOUT_MS}ms`));
+				this._abortController.abort();
+			}, ENDPOINT_TIMEOUT_MS);
+
+			readEventStream(response.body!, event => {
+				if (event.event === 'endpoint') {
+					const endpoint = new URL(event.data, this._options.url);
+					clearTimeout(timer);
+					// Messages carry the configured headers, so they must not leave the server's origin
+					if (endpoint.origin !== new URL(this._options.url).origin) {
+						const error = new MCPError(`MCP server announced a message endpoint on another origin: ${endpoint.origin}`, { endpoint: endpoint.href });
+						reject(error);
+						this._handleClose(error);
+						this._abortController.abort();
+						return;
+					}
+					this._endpoint = endpoint;
+					resolve();
+				} else if (event.event === 'message') {
+					this._dispatch(event.data);
+				}
+			})
+				.then(() => this._handleClose(new MCPError('MCP event stream ended')))
+				.catch(error => this._handleClose(error instanceof Error ? error : new MCPError('MCP event stream failed')))
+				.finally(() => {
+					clearTimeout(timer);
+					reject(new MCPError('MCP event stream closed before the endpoint was announced'));
+				});
+		});
+	}
+
+	/**
+	 * POST a message to the announced endpoint
+	 */
+	public async send(message: JsonRpcMessage): Promise<void> {
+		if (!this._endpoint || this._closed) {
+			throw new MCPError('SSE transport is not connected');
+		}
+
+		const response = await fetch(this._endpoint, {
+			method: 'POST',
+			headers: { ...this._options.headers, 'Content-Type': 'application/json' },
+			body: JSON.stringify(message),
+			signal: this._abortController.signal
+		});
+
+		if (!response.ok) {
+			throw new MCPError(`MCP server responded with HTTP ${response.status} ${response.statusText}`);
+		}
+	}
+
+	/**
+	 * Close the event stream
+	 */
+	public async close(): Promise<void> {
+		if (this._closed) return;
+		this._closed = true;
+		this._abortController.abort();
+		this.onClose?.();
+	}
+
+	private _dispatch(data: string): void {
+		try {
+			this.onMessage?.(JSON.parse(data));
+		} catch (error) {
+			console.warn('Ignoring malformed MCP SSE message:', data);
+		}
+	}
+
+	private _handleClose(error?: Error): void {
+		if (this._closed) return;
+		this._closed = true;
+		this.onClose?.(error);
+	}
+}
@@ -0,0 +1,147 @@
+import { spawn, ChildProcess } from 'child_process';
+import { MCPError } from '@/types';
+import { JsonRpcMessage, MCPTransport } from '@/services/mcp/MCPTransport';
+
+// Time a server gets to exit after SIGTERM before it is killed
+const KILL_TIMEOUT_MS = 2000;
+
+/**
+ * Options for launching a stdio MCP server
+ */
+export interface StdioTransportOptions {
+	command: string;
+	args?: string[];
+	env?: Record<string, string>;
+	cwd?: string;
+}
+
+/**
+ * StdioTransport - MCP over a child process's stdin/stdout
+ *
+ * Messages are newline-delimited JSON. Anything the server writes to stderr is
+ * forwarded to the console for troubleshooting.
+ */
+export class StdioTransport implements MCPTransport {
+	public onMessage?: (message: JsonRpcMessage) => void;
+	public onClose?: (error?: Error) => void;
+
+	private _process: ChildProcess | null = null;
+	private _buffer = '';
+	private _closed = false;
+	private _closeReported = false;
+
+	constructor(private readonly _options: StdioTransportOptions) {}
+
+	/**
+	 * Spawn the server process
+	 */
+	public async start(): Promise<void> {
+		if (this._process) {
+			throw new MCPError('Stdio transport already started');
+		}
+
+		await new Promise<void>((resolve, reject) => {
+			const child = spawn(this._options.command, this._options.args ?? [], {
+				cwd: this._options.cwd,
+				env: { ...process.env, ...this._options.env },
+				stdio: ['pipe', 'pipe', 'pipe'],
+				// npx and friends are .cmd shims on Windows
+				shell: process.platform === 'win32',
+				windowsHide: true
+			});
+			this._process = child;
+
+			child.once('spawn', () => resolve());
+			child.once('error', error => {
+				if (!this._closed) {
+					reject(new MCPError(`Failed to start ${this._options.command}: ${error.message}`, { error }));
+				}
+				this._handleClose(error);
+			});
+			child.once('exit', (code, signal) => {
+				this._handleClose(code === 0 || this._closed
+					? undefined
+					: new MCPError(`Server process exited with ${signal ?? `code ${code}`}`));
+			});
+
+			child.stdout?.setEncoding('utf-8');
+			child.stdout?.on('data', (data: string) => this._handleData(data));
+			child.stderr?.setEncoding('utf-8');
+			child.stderr?.on('data', (data: string) => {
+				console.warn(`[MCP ${this._options.command}] ${data.trimEnd()}`);
+			});
+		});
+	}
+
+	/**
+	 * Write a message to the server's stdin
+	 */
+	public async send(message: JsonRpcMessage): Promise<void> {
+		const stdin = this._process?.stdin;
+		if (!stdin || this._closed) {
+			throw new MCPError('Stdio transport is not connected');
+		}
+
+		await new Promise<void>((resolve, reject) => {
+			stdin.write(`${JSON.stringify(message)}\n`, error => error ? reject(error) : resolve());
+		});
+	}
+
+	/**
+	 * Stop the server process, killing it if it does not exit in time
+	 */
+	public async close(): Promise<void> {
+		const child = this._process;
+		if (!child || this._closed) {
+			return;
+		}
+		this._closed = true;
+
+		await new Promise<void>(resolve => {
+			if (child.exitCode !== null || child.signalCode !== null) {
+				resolve();
+				return;
+			}
+
+			const killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_TIMEOUT_MS);
+			child.once('exit', () => {
+				clearTimeout(killTimer);
+				resolve();
+			});
+
+			child.stdin?.end();
+			child.kill('SIGTERM');
+		});
+	}
+
+	/**
+	 * Split stdout into lines and parse each as a JSON-RPC message
+	 */
+	private _handleData(data: string): void {
+		this._buffer += data;
+
+		let newlineIndex: number;
+		while ((newlineIndex = this._buffer.indexOf('\n')) >= 0) {
+			const line = this._buffer.substring(0, newlineIndex).trim();
+			this._buffer = this._buffer.substring(newlineIndex + 1);
+			if (!line) continue;
+
+			try {
+				this.onMessage?.(JSON.parse(line));
+			} catch (error) {
+				console.warn(`[MCP ${this._options.command}] Ignoring non-JSON output: ${line}`);
+			}
+		}
+	}
+
+	/**
+	 * Report the end of the connection exactly once
+	 */
+	private _handleClose(error?: Error): void {
+		this._closed = true;
+		if (this._closeReported) return;
+
+		this._closeReported = true;
+		this.onClose?.(error);
+	}
+}
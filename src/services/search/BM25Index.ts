@@ -0,0 +1,183 @@
+import { tokenizeForSearch } from '@/utils/codeTokens';
+
+// Term frequency saturation and length normalization (standard BM25 values)
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * A document matching a query, with the query terms found in each field
+ */
+export interface BM25Match<TDocument, TField extends string> {
+	id: string;
+	document: TDocument;
+	score: number;
+	matchedTerms: Partial<Record<TField, string[]>>;
+}
+
+interface IndexedDocument<TDocument, TField extends string> {
+	document: TDocument;
+	fieldLengths: Record<TField, number>;
+	terms: Set<string>;
+}
+
+/**
+ * BM25Index - Inverted index ranked with BM25F
+ *
+ * Documents have several text fields; each field is tokenized into
+ * identifier-aware, stemmed terms and weighted by its boost, with length
+ * normalization per field, so a term in a short name outweighs the same
+ * term in a long body. Documents can be added and removed incrementally.
+ */
+export class BM25Index<TDocument, TField extends string> {
+	// Term -> document id -> frequency per field
+	private readonly _postings = new Map<string, Map<string, Partial<Record<TField, number>>>>();
+	private readonly _documents = new Map<string, IndexedDocument<TDocument, TField>>();
+	private readonly _totalFieldLengths = {} as Record<TField, number>;
+	private readonly _fields: TField[];
+
+	constructor(private readonly _boosts: Record<TField, number>) {
+		this._fields = Object.keys(_boosts) as TField[];
+		for (const field of this._fields) {
+			this._totalFieldLengths[field] = 0;
+		}
+	}
+
+	public get size(): number {
+		return this._documents.size;
+	}
+
+	public get termCount(): number {
+		return this._postings.size;
+	}
+
+	/**
+	 * Add a document, replacing any document with the same id
+	 */
+	public add(id: string, document: TDocument, fields: Record<TField, string>): void {
+		this.remove(id);
+
+		const fieldLengths = {} as Record<TField, number>;
+		const terms = new Set<string>();
+		for (const field of this._fields) {
+			const tokens = tokenizeForSearch(fields[field]);
+			fieldLengths[field] = tokens.length;
+			this._totalFieldLengths[field] += tokens.length;
+
+			for (const term of tokens) {
+				terms.add(term);
+				let postings = this._postings.get(term);
+				if (!postings) {
+					postings = new Map();
+					this._postings.set(term, postings);
+				}
+				let frequencies = postings.get(id);
+				if (!frequencies) {
+					frequencies = {};
+					postings.set(id, frequencies);
+				}
+				frequencies[field] = (frequencies[field] ?? 0) + 1;
+			}
+		}
+
+		this._documents.set(id, { document, fieldLengths, terms });
+	}
+
+	public remove(id: string): void {
+		const indexed = this._documents.get(id);
+		if (!indexed) return;
+
+		for (const term of indexed.terms) {
+			const postings = this._postings.get(term);
+			postings?.delete(id);
+			if (postings?.size === 0) {
+				this._postings.delete(term);
+			}
+		}
+		for (const field of this._fields) {
+			this._totalFieldLengths[field] -= indexed.fieldLengths[field];
+		}
+		this._documents.delete(id);
+	}
+
+	public clear(): void {
+		this._postings.clear();
+		this._documents.clear();
+		for (const field of this._fields) {
+			this._totalFieldLengths[field] = 0;
+		}
+	}
+
+	/**
+	 * Rank the documents containing any query term, best first, optionally
+	 * only among the documents accepted by a filter
+	 */
+	public search(query: string, limit: number, filter?: (document: TDocument, id: string) => boolean): BM25Match<TDocument, TField>[] {
+		return this.searchTerms([...new Set(tokenizeForSearch(query))], limit, filter);
+	}
+
+	/**
+	 * Rank the documents containing any of the given (already tokenized) terms
+	 */
+	public searchTerms(terms: string[], limit: number, filter?: (document: TDocument, id: string) => boolean): BM25Match<TDocument, TField>[] {
+		const documentCount = this._documents.size;
+		if (documentCount === 0) return [];
+
+		const averageLengths = {} as Record<TField, number>;
+		for (const field of this._fields) {
+			averageLengths[field] = this._totalFieldLengths[field] / documentCount || 1;
+		}
+
+		const matches = new Map<string, BM25Match<TDocument, TField>>();
+		for (const term of terms) {
+			const postings = this._postings.get(term);
+			if (!postings) continue;
+
+			const idf = Math.log(1 + (documentCount - postings.size + 0.5) / (postings.size + 0.5));
+			for (const [id, frequencies] of postings) {
+				const indexed = this._documents.get(id)!;
+
+				// BM25F: boosted, length-normalized frequencies summed before saturation
+				let weightedFrequency = 0;
+				for (const field of this._fields) {
+					const frequency = frequencies[field];
+					if (!frequency) continue;
+					const normalization = 1 - B + B * indexed.fieldLengths[field] / averageLengths[field];
+					weightedFrequency += this._boosts[field] * frequency / normalization;
+				}
+
+				let match = matches.get(id);
+				if (!match) {
+					match = { id, document: indexed.document, score: 0, matchedTerms: {} };
+					matches.set(id, match);
+				}
+				match.score += idf * weightedFrequency / (K1 + weightedFrequency);
+				for (const field of this._fields) {
+					if (frequencies[field]) {
+						(match.matchedTerms[field] ??= []).push(term);
+					}
+				}
+			}
+		}
+
+		return Array.from(matches.values())
+			.filter(match => !filter || filter(match.document, match.id))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit);
+	}
+
+	/**
+	 * Ids of the documents that contain every given term
+	 */
+	public findContainingAll(terms: string[]): string[] {
+		const postingLists = terms.map(term => this._postings.get(term));
+		if (postingLists.length === 0 || postingLists.some(postings => !postings)) return [];
+
+		// Intersect starting from the rarest term
+		const [rarest, ...others] = (postingLists as Map<string, unknown>[]).sort((a, b) => a.size - b.size);
+		return Array.from(rarest!.keys()).filter(id => others.every(postings => postings.has(id)));
+	}
+
+	public getDocument(id: string): TDocument | undefined {
+		return this._documents.get(id)?.document;
+	}
+}
@@ -0,0 +1,190 @@
+/**
+ * A piece of code checked for clones, e.g. a function body
+ */
+export interface CloneUnit {
+	id: string;
+	code: string;
+}
+
+/**
+ * Units whose normalized code is at least `similarity` alike (Jaccard
+ * similarity of token shingles, lowest over the linked pairs)
+ */
+export interface CloneMatch {
+	ids: string[];
+	similarity: number;
+}
+
+// Consecutive normalized tokens hashed together
+const SHINGLE_SIZE = 5;
+// Units with fewer tokens are too small for clones to be worth reporting
+const MIN_TOKENS = 40;
+// LSH bands x rows: pairs at 50% similarity have about an even chance of
+// becoming candidates, and pairs at 80% are almost always found
+const BANDS = 16;
+const ROWS_PER_BAND = 4;
+const SIGNATURE_SIZE = BANDS * ROWS_PER_BAND;
+// Larger buckets are linked in a chain instead of compared pairwise
+const MAX_PAIRWISE_BUCKET_SIZE = 50;
+
+// Words kept as-is so the structure of the code survives normalization
+const KEYWORDS = new Set([
+	'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default', 'delete', 'do', 'elif',
+	'else', 'except', 'export', 'extends', 'false', 'False', 'finally', 'fn', 'for', 'foreach', 'func', 'function', 'if',
+	'implements', 'import', 'in', 'instanceof', 'interface', 'is', 'lambda', 'let', 'match', 'new', 'nil', 'None', 'not',
+	'null', 'of', 'or', 'and', 'pass', 'private', 'protected', 'public', 'raise', 'return', 'self', 'static', 'super',
+	'switch', 'this', 'throw', 'true', 'True', 'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+const TOKEN_PATTERN = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|#(?=\s)[^\n]*|"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`|\d[\w.]*|[A-Za-z_$][\w$]*|[^\s\w]/g;
+
+/**
+ * Tokenize code with comments dropped and identifiers and literals replaced
+ * by placeholders, so renamed copies normalize to the same tokens
+ */
+export function normalizeCode(code: string): string[] {
+	const tokens: string[] = [];
+	for (const [token] of code.matchAll(TOKEN_PATTERN)) {
+		if (token.startsWith('//') || token.startsWith('/*') || token.startsWith('#')) continue;
+
+		if (/^["'`]/.test(token)) {
+			tokens.push('STR');
+		} else if (/^\d/.test(token)) {
+			tokens.push('NUM');
+		} else if (/^[A-Za-z_$]/.test(token)) {
+			tokens.push(KEYWORDS.has(token) ? token : 'ID');
+		} else {
+			tokens.push(token);
+		}
+	}
+	return tokens;
+}
+
+/**
+ * Find groups of similar units with MinHash signatures and locality-sensitive
+ * hashing, confirming each candidate pair with its exact shingle similarity
+ */
+export function detectClones(units: CloneUnit[], threshold: number): CloneMatch[] {
+	const shingles: Set<number>[] = [];
+	const indexed: CloneUnit[] = [];
+	for (const unit of units) {
+		const tokens = normalizeCode(unit.code);
+		if (tokens.length < MIN_TOKENS) continue;
+
+		const unitShingles = new Set<number>();
+		for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+			unitShingles.add(_hashString(tokens.slice(i, i + SHINGLE_SIZE).join(' ')));
+		}
+		shingles.push(unitShingles);
+		indexed.push(unit);
+	}
+
+	// Units sharing all rows of any band become candidates
+	const buckets = new Map<string, number[]>();
+	shingles.forEach((unitShingles, unitIndex) => {
+		const signature = _computeSignature(unitShingles);
+		for (let band = 0; band < BANDS; band++) {
+			const key = `${band}:${signature.subarray(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(',')}`;
+			const bucket = buckets.get(key);
+			if (bucket) {
+				bucket.push(unitIndex);
+			} else {
+				buckets.set(key, [unitIndex]);
+			}
+		}
+	});
+
+	const similarities = new Map<string, number>();
+	const parents = indexed.map((_unit, index) => index);
+	const find = (index: number): number => {
+		while (parents[index] !== index) {
+			parents[index] = parents[parents[index]!]!;
+			index = parents[index]!;
+		}
+		return index;
+	};
+	const link = (a: number, b: number) => {
+		const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+		if (similarities.has(key)) return;
+
+		const similarity = _jaccard(shingles[a]!, shingles[b]!);
+		if (similarity < threshold) return;
+		similarities.set(key, similarity);
+		parents[find(a)] = find(b);
+	};
+
+	for (const bucket of buckets.values()) {
+		if (bucket.length > MAX_PAIRWISE_BUCKET_SIZE) {
+			for (let i = 1; i < bucket.length; i++) link(bucket[i - 1]!, bucket[i]!);
+			continue;
+		}
+		for (let i = 0; i < bucket.length; i++) {
+			for (let j = i + 1; j < bucket.length; j++) link(bucket[i]!, bucket[j]!);
+		}
+	}
+
+	// Collect linked units, with the lowest similarity of the links in each group
+	const groups = new Map<number, { members: number[]; similarity: number }>();
+	for (const [key, similarity] of similarities) {
+		const root = find(Number(key.split(':')[0]));
+		let group = groups.get(root);
+		if (!group) {
+			group = { members: [], similarity };
+			groups.set(root, group);
+		}
+		group.similarity = Math.min(group.similarity, similarity);
+	}
+	indexed.forEach((_unit, index) => groups.get(find(index))?.members.push(index));
+
+	return Array.from(groups.values(), group => ({
+		ids: group.members.map(index => indexed[index]!.id),
+		similarity: group.similarity
+	}));
+}
+
+function _computeSignature(shingles: Set<number>): Uint32Array {
+	const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+	for (const shingle of shingles) {
+		for (let i = 0; i < SIGNATURE_SIZE; i++) {
+			// Each row uses the shingle hash mixed with its own seed as an independent hash function
+			const value = _mix(shingle ^ Math.imul(i + 1, 0x9e3779b1));
+			if (value < signature[i]!) {
+				signature[i] = value;
+			}
+		}
+	}
+	return signature;
+}
+
+function _jaccard(a: Set<number>, b: Set<number>): number {
+	let intersection = 0;
+	for (const value of a) {
+		if (b.has(value)) intersection++;
+	}
+	const union = a.size + b.size - intersection;
+	return union === 0 ? 0 : intersection / union;
+}
+
+/**
+ * FNV-1a hash of a string
+ */
+function _hashString(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer, spreading every input bit over the output
+ */
+function _mix(value: number): number {
+	value ^= value >>> 16;
+	value = Math.imul(value, 0x85ebca6b);
+	value ^= value >>> 13;
+	value = Math.imul(value, 0xc2b2ae35);
+	value ^= value >>> 16;
+	return value >>> 0;
+}
@@ -0,0 +1,52 @@
+import { SearchableCodeItem, SearchableItemType } from '@/services/search/SearchableCodeItem';
+import { globToRegExp } from '@/utils/glob';
+
+/**
+ * Restrictions on which items a search returns. Empty lists and missing
+ * fields do not restrict anything.
+ */
+export interface SearchFilters {
+	kinds?: SearchableItemType[];
+	// Language names as detected during project analysis, e.g. "TypeScript"
+	languages?: string[];
+	pathGlob?: string;
+	scope?: 'source' | 'tests';
+}
+
+// Folder names and file name patterns of test code across common ecosystems
+const TEST_FOLDER_PATTERN = /(^|\/)(__tests__|__mocks__|tests?|spec|specs)\//i;
+const TEST_FILE_PATTERN = /(\.(test|spec)\.[^./]+|_test\.[^./]+|(^|\/)test_[^/]+\.py|Tests?\.(java|cs|kt|swift))$/;
+
+export function isTestFile(relativePath: string): boolean {
+	const normalized = relativePath.replace(/\\/g, '/');
+	return TEST_FOLDER_PATTERN.test(normalized) || TEST_FILE_PATTERN.test(normalized);
+}
+
+/**
+ * Compile filters into a predicate over indexed items
+ */
+export function createSearchFilter(filters: SearchFilters): (file: string, language: string, item: SearchableCodeItem) => boolean {
+	const kinds = filters.kinds?.length ? new Set(filters.kinds) : null;
+	const languages = filters.languages?.length ? new Set(filters.languages.map(language => language.toLowerCase())) : null;
+	const pathPattern = filters.pathGlob ? globToRegExp(filters.pathGlob) : null;
+
+	return (file, language, item) => {
+		if (kinds && !kinds.has(item.type)) return false;
+		if (languages && !languages.has(language.toLowerCase())) return false;
+		if (pathPattern && !pathPattern.test(file.replace(/\\/g, '/'))) return false;
+		if (filters.scope && isTestFile(file) !== (filters.scope === 'tests')) return false;
+		return true;
+	};
+}
+
+/**
+ * Short summary of the active filters, or an empty string when there are none
+ */
+export function describeSearchFilters(filters: SearchFilters): string {
+	const parts: string[] = [];
+	if (filters.kinds?.length) parts.push(`kind: ${filters.kinds.join(', ')}`);
+	if (filters.languages?.length) parts.push(`language: ${filters.languages.join(', ')}`);
+	if (filters.pathGlob) parts.push(`path: ${filters.pathGlob}`);
+	if (filters.scope) parts.push(filters.scope === 'tests' ? 'tests only' : 'source only');
+	return parts.join(' · ');
+}
@@ -0,0 +1,142 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+// Bump when the file layout or the extracted items change; older files are rebuilt
+const SEARCH_INDEX_VERSION = 3;
+
+/**
+ * The indexed items of one file, with what is needed to tell whether it changed
+ */
+export interface StoredFileEntry<TItem> {
+	mtimeMs: number;
+	size: number;
+	// Hash of the file content, to skip files that were touched but not changed
+	hash: string;
+	items: TItem[];
+}
+
+interface SearchIndexFile<TItem> {
+	version: number;
+	files: Record<string, StoredFileEntry<TItem>>;
+}
+
+/**
+ * SearchIndexStore - Search index entries persisted between sessions
+ *
+ * Entries are keyed by workspace-relative path. A file that is missing,
+ * unparseable or written with another schema version loads as empty, so the
+ * caller rebuilds the index from scratch.
+ */
+export class SearchIndexStore<TItem> {
+	private readonly _entries = new Map<string, StoredFileEntry<TItem>>();
+	private _writeQueue: Promise<void> = Promise.resolve();
+	private _isDirty = false;
+
+	constructor(private readonly _filePath: string) {}
+
+	public static hashContent(content: string): string {
+		return createHash('sha1').update(content).digest('hex');
+	}
+
+	/**
+	 * Load the stored entries, returning false when there was no usable index
+	 */
+	public async load(): Promise<boolean> {
+		this._entries.clear();
+		this._isDirty = false;
+
+		let text: string;
+		try {
+			text = await fs.readFile(this._filePath, 'utf8');
+		} catch {
+			return false;
+		}
+
+		try {
+			const file = JSON.parse(text) as SearchIndexFile<TItem>;
+			if (file.version !== SEARCH_INDEX_VERSION) {
+				console.log(`📇 SearchIndexStore: Discarding index with schema version ${file.version ?? 'unknown'}`);
+				return false;
+			}
+			for (const [relativePath, entry] of Object.entries(file.files)) {
+				if (typeof entry.mtimeMs !== 'number' || typeof entry.size !== 'number' || typeof entry.hash !== 'string' || !Array.isArray(entry.items)) {
+					throw new Error(`Invalid entry for ${relativePath}`);
+				}
+				this._entries.set(relativePath, entry);
+			}
+			return true;
+		} catch (error) {
+			console.warn('SearchIndexStore: Discarding corrupt search index:', error);
+			this._entries.clear();
+			return false;
+		}
+	}
+
+	public get(relativePath: string): StoredFileEntry<TItem> | undefined {
+		return this._entries.get(relativePath);
+	}
+
+	public set(relativePath: string, entry: StoredFileEntry<TItem>): void {
+		this._entries.set(relativePath, entry);
+		this._isDirty = true;
+	}
+
+	public delete(relativePath: string): void {
+		if (this._entries.delete(relativePath)) {
+			this._isDirty = true;
+		}
+	}
+
+	/**
+	 * Drop entries of files no longer in the project, returning how many were dropped
+	 */
+	public retain(relativePaths: Set<string>): number {
+		let removed = 0;
+		for (const relativePath of this._entries.keys()) {
+			if (!relativePaths.has(relativePath)) {
+				this._entries.delete(relativePath);
+				removed++;
+			}
+		}
+		if (removed > 0) {
+			this._isDirty = true;
+		}
+		return removed;
+	}
+
+	public get size(): number {
+		return this._entries.size;
+	}
+
+	/**
+	 * Write the index to disk if it changed since it was loaded or saved
+	 */
+	public save(): Promise<void> {
+		// Writes are serialized so two saves never share the temporary file
+		this._writeQueue = this._writeQueue.then(async () => {
+			if (!this._isDirty) return;
+			this._isDirty = false;
+
+			const file: SearchIndexFile<TItem> = {
+				version: SEARCH_INDEX_VERSION,
+				files: Object.fromEntries(this._entries)
+			};
+
+			// Write to a temporary file first so a crash never leaves a truncated index
+			await fs.mkdir(path.dirname(this._filePath), { recursive: true });
+			const temporaryPath = `${this._filePath}.tmp`;
+			await fs.writeFile(temporaryPath, JSON.stringify(file), 'utf8');
+			await fs.rename(temporaryPath, this._filePath);
+		}).catch(error => {
+			this._isDirty = true;
+			console.warn('SearchIndexStore: Failed to save the search index:', error);
+		});
+		return this._writeQueue;
+	}
+
+	public clear(): void {
+		this._entries.clear();
+		this._isDirty = false;
+	}
+}
@@ -0,0 +1,259 @@
+import { SearchQueryError } from '@/types';
+import { SEARCHABLE_ITEM_TYPES, SearchableItemType } from '@/services/search/SearchableCodeItem';
+import { SearchFilters } from '@/services/search/SearchFilters';
+import { globToRegExp } from '@/utils/glob';
+
+/**
+ * A word or quoted phrase an item is checked for
+ */
+export interface SearchQueryTerm {
+	text: string;
+	isPhrase: boolean;
+}
+
+/**
+ * A parsed search query. Plain words are only ranked; phrases and OR groups
+ * must match, and negated terms and filters rule items out.
+ */
+export interface SearchQuery {
+	// Words and phrases to rank by, as in a natural-language query
+	text: string;
+	filters: SearchFilters;
+	// Items matching any of these (one field each) are left out
+	excludedFilters: SearchFilters[];
+	// Each group needs at least one of its terms in an item
+	required: SearchQueryTerm[][];
+	excluded: SearchQueryTerm[];
+}
+
+type SearchQueryField = 'kind' | 'lang' | 'path' | 'in';
+
+const FIELDS: ReadonlySet<string> = new Set<SearchQueryField>(['kind', 'lang', 'path', 'in']);
+
+// Short names for the languages detected during project analysis
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+	ts: ['TypeScript', 'React TypeScript'],
+	tsx: ['React TypeScript'],
+	js: ['JavaScript', 'React'],
+	jsx: ['React'],
+	py: ['Python'],
+	rb: ['Ruby'],
+	rs: ['Rust'],
+	cs: ['C#'],
+	csharp: ['C#'],
+	kt: ['Kotlin'],
+	cpp: ['C++'],
+	golang: ['Go']
+};
+
+const SCOPES: Record<string, 'source' | 'tests'> = {
+	source: 'source',
+	src: 'source',
+	tests: 'tests',
+	test: 'tests'
+};
+
+interface QueryToken {
+	kind: 'word' | 'phrase' | 'field' | 'or';
+	value: string;
+	field?: SearchQueryField;
+	negated: boolean;
+	// 1-based, for error messages
+	column: number;
+}
+
+/**
+ * Parse a search query such as `kind:function lang:ts path:src/core/** async
+ * retry -test`. Supported syntax:
+ * - `kind:`, `lang:`, `path:` (a glob) and `in:tests` / `in:source` filters,
+ *   with comma-separated alternatives for kind and lang
+ * - `"quoted phrases"`, which must appear in an item
+ * - `-word`, `-"phrase"` and `-kind:class` to exclude matches
+ * - `a OR b` groups, of which at least one must appear
+ *
+ * Queries without this syntax parse to their words only, so natural-language
+ * queries keep working: other `word:` prefixes, a lone `-` and an unmatched
+ * quote are plain text.
+ *
+ * @param languages When given, `lang:` values must be one of these or a short
+ *   name such as `ts`
+ */
+export function parseSearchQuery(query: string, languages?: readonly string[]): SearchQuery {
+	const tokens = _tokenize(query);
+	const parsed: SearchQuery = { text: '', filters: {}, excludedFilters: [], required: [], excluded: [] };
+	const words: string[] = [];
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i]!;
+		if (token.kind === 'or') {
+			throw new SearchQueryError(`OR at column ${token.column} needs a search term or quoted phrase on both sides`, { query, column: token.column });
+		}
+
+		if (token.kind === 'field') {
+			_applyField(parsed, token, query, languages);
+			continue;
+		}
+
+		const term = { text: token.value, isPhrase: token.kind === 'phrase' };
+		if (token.negated) {
+			if (tokens[i + 1]?.kind === 'or') {
+				throw new SearchQueryError(`Excluded terms cannot be part of an OR group (column ${token.column})`, { query, column: token.column });
+			}
+			parsed.excluded.push(term);
+			continue;
+		}
+
+		// Collect `a OR b OR c`
+		const group = [term];
+		while (tokens[i + 1]?.kind === 'or') {
+			const operator = tokens[i + 1]!;
+			const next = tokens[i + 2];
+			if (!next || next.kind === 'or' || next.kind === 'field' || next.negated) {
+				throw new SearchQueryError(`OR at column ${operator.column} needs a search term or quoted phrase on both sides`, { query, column: operator.column });
+			}
+			group.push({ text: next.value, isPhrase: next.kind === 'phrase' });
+			i += 2;
+		}
+
+		words.push(...group.map(groupTerm => groupTerm.text));
+		if (group.length > 1 || term.isPhrase) {
+			parsed.required.push(group);
+		}
+	}
+
+	parsed.text = words.join(' ');
+	return parsed;
+}
+
+function _tokenize(query: string): QueryToken[] {
+	const tokens: QueryToken[] = [];
+	let i = 0;
+	while (i < query.length) {
+		if (/\s/.test(query[i]!)) {
+			i++;
+			continue;
+		}
+
+		const column = i + 1;
+		// A lone `-` is a plain word
+		const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]!);
+		if (negated) {
+			i++;
+		}
+
+		const quoted = query[i] === '"' ? _readQuoted(query, i) : null;
+		if (quoted) {
+			if (!quoted.value.trim()) {
+				throw new SearchQueryError(`Empty quoted phrase at column ${column}`, { query, column });
+			}
+			tokens.push({ kind: 'phrase', value: quoted.value.trim(), negated, column });
+			i = quoted.end;
+			continue;
+		}
+
+		// `kind:value` and the other filters, but not `std::vector` or `http://`;
+		// other `word:` prefixes and filters without a value are text
+		const field = /^([A-Za-z]+):(?=[^\s:/])/.exec(query.slice(i));
+		const name = field?.[1]?.toLowerCase() ?? '';
+		if (field && FIELDS.has(name)) {
+			i += field[0].length;
+			let value: string;
+			const quotedValue = query[i] === '"' ? _readQuoted(query, i) : null;
+			if (quotedValue) {
+				({ value, end: i } = quotedValue);
+			} else {
+				const start = i;
+				while (i < query.length && !/\s/.test(query[i]!)) i++;
+				value = query.slice(start, i);
+			}
+			if (!value.trim()) {
+				throw new SearchQueryError(`Missing value for "${name}:" at column ${column}`, { query, column });
+			}
+			tokens.push({ kind: 'field', field: name as SearchQueryField, value: value.trim(), negated, column });
+			continue;
+		}
+
+		const start = i;
+		while (i < query.length && !/\s/.test(query[i]!)) i++;
+		const word = query.slice(start, i);
+		tokens.push({ kind: !negated && word === 'OR' ? 'or' : 'word', value: word, negated, column });
+	}
+	return tokens;
+}
+
+/**
+ * The quoted text starting at `start`, or null for an unmatched quote
+ */
+function _readQuoted(query: string, start: number): { value: string; end: number } | null {
+	const end = query.indexOf('"', start + 1);
+	if (end === -1) return null;
+	return { value: query.slice(start + 1, end), end: end + 1 };
+}
+
+function _applyField(parsed: SearchQuery, token: QueryToken, query: string, languages: readonly string[] | undefined): void {
+	const context = { query, column: token.column };
+	const filters: SearchFilters = {};
+
+	switch (token.field) {
+		case 'kind': {
+			const kinds = token.value.split(',').filter(Boolean);
+			for (const kind of kinds) {
+				if (!(SEARCHABLE_ITEM_TYPES as readonly string[]).includes(kind)) {
+					throw new SearchQueryError(`Unknown kind "${kind}" at column ${token.column}. Expected one of: ${SEARCHABLE_ITEM_TYPES.join(', ')}`, context);
+				}
+			}
+			filters.kinds = kinds as SearchableItemType[];
+			break;
+		}
+		case 'lang': {
+			const values = token.value.split(',').filter(Boolean);
+			const known = new Set(languages?.map(language => language.toLowerCase()));
+			for (const value of values) {
+				if (languages && !LANGUAGE_ALIASES[value.toLowerCase()] && !known.has(value.toLowerCase())) {
+					const expected = [...Object.keys(LANGUAGE_ALIASES), ...languages];
+					throw new SearchQueryError(`Unknown language "${value}" at column ${token.column}. Expected one of: ${expected.join(', ')}`, context);
+				}
+			}
+			filters.languages = values.flatMap(language => LANGUAGE_ALIASES[language.toLowerCase()] ?? [language]);
+			break;
+		}
+		case 'path':
+			try {
+				globToRegExp(token.value);
+			} catch (error) {
+				throw new SearchQueryError(`Invalid path glob "${token.value}" at column ${token.column}: ${error instanceof Error ? error.message : 'Unknown error'}`, context);
+			}
+			filters.pathGlob = token.value;
+			break;
+		case 'in': {
+			const scope = SCOPES[token.value.toLowerCase()];
+			if (!scope) {
+				throw new SearchQueryError(`Unknown scope "in:${token.value}" at column ${token.column}. Use in:source or in:tests`, context);
+			}
+			filters.scope = scope;
+			break;
+		}
+	}
+
+	if (token.negated) {
+		parsed.excludedFilters.push(filters);
+		return;
+	}
+
+	// Repeated kinds and languages add alternatives; a path or scope can only be given once
+	const target = parsed.filters;
+	if (filters.kinds) target.kinds = [...new Set([...(target.kinds ?? []), ...filters.kinds])];
+	if (filters.languages) target.languages = [...new Set([...(target.languages ?? []), ...filters.languages])];
+	if (filters.pathGlob) {
+		if (target.pathGlob) {
+			throw new SearchQueryError(`Only one path: filter is allowed (column ${token.column}); use {a,b} in the glob for alternatives`, context);
+		}
+		target.pathGlob = filters.pathGlob;
+	}
+	if (filters.scope) {
+		if (target.scope && target.scope !== filters.scope) {
+			throw new SearchQueryError(`in:source and in:tests cannot be combined (column ${token.column})`, context);
+		}
+		target.scope = filters.scope;
+	}
+}
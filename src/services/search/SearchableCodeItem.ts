@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+
+export const SEARCHABLE_ITEM_TYPES = ['function', 'class', 'method', 'interface', 'type', 'enum', 'variable'] as const;
+
+export type SearchableItemType = typeof SEARCHABLE_ITEM_TYPES[number];
+
+/**
+ * Location of an item in its file (1-based lines and columns)
+ */
+export interface SourceRange {
+	startLine: number;
+	startColumn: number;
+	endLine: number;
+	endColumn: number;
+}
+
+/**
+ * A symbol indexed for code search. Extractors that parse a syntax tree also
+ * fill in the optional details.
+ */
+export interface SearchableCodeItem {
+	name: string;
+	type: SearchableItemType;
+	lineNumber: number;
+	content: string;
+	keywords: string[];
+	signature: string;
+	range?: SourceRange;
+	// Name of the enclosing class, interface, namespace or object
+	container?: string;
+	documentation?: string;
+	exported?: boolean;
+	visibility?: 'public' | 'protected' | 'private';
+}
+
+/**
+ * Editor range of an item, or the start of its line when its extent is unknown
+ */
+export function getItemRange(item: SearchableCodeItem): vscode.Range {
+	const range = item.range;
+	if (!range) {
+		return new vscode.Range(item.lineNumber - 1, 0, item.lineNumber - 1, 0);
+	}
+	return new vscode.Range(range.startLine - 1, range.startColumn - 1, range.endLine - 1, range.endColumn - 1);
+}
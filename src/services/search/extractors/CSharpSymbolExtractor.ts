@@ -0,0 +1,58 @@
+import { DeclarationAccess, DeclarationInfo, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+// Modifiers, after any attributes on the same line
+const MODIFIERS = String.raw`(?:\[[^\]]*\]\s*)*(?<modifiers>(?:(?:public|private|protected|internal|static|readonly|sealed|abstract|virtual|override|partial|async|extern|unsafe|new|file|required)\s+)*)`;
+// A type name with optional generic arguments, array ranks and nullability
+const TYPE = String.raw`[\w.]+(?:<[^()=]*?>)?[?\[\],]*`;
+
+/**
+ * C# classes, structs, records, interfaces, enums, delegates, methods,
+ * constructors and constants. Namespaces, including file-scoped ones,
+ * qualify the types inside them.
+ */
+export class CSharpSymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'csharp',
+			extensions: ['.cs'],
+			blocks: 'braces',
+			lineComments: ['//'],
+			blockComments: true,
+			stringQuotes: ['"'],
+			charLiterals: true,
+			attributePattern: /^\s*\[/,
+			rules: [
+				{ pattern: /^\s*namespace\s+(?<name>[\w.]+)/, type: null, isContainer: true, isNamespace: true, scopesFile: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}interface\s+(?<name>\w+)`), type: 'interface', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}enum\s+(?<name>\w+)`), type: 'enum' },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}(?:class|struct|record(?:\s+(?:class|struct))?)\s+(?<name>\w+)`), type: 'class', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}delegate\s+${TYPE}\s+(?<name>\w+)`), type: 'type', hasBody: false, keywords: ['delegate'] },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}const\s+${TYPE}\s+(?<name>\w+)`), type: 'variable', hasBody: false, keywords: ['const'] },
+				{ pattern: new RegExp(String.raw`^\s*(?<modifiers>(?:(?:public|private|protected|internal|new)\s+)*static\s+readonly\s+)${TYPE}\s+(?<name>\w+)\s*[=;]`), type: 'variable', hasBody: false },
+				// Methods, and constructors without a return type
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}(?:${TYPE}\s+)?(?<name>\w+)\s*(?:<[^()=]*?>)?\s*\(`), type: 'method', membersOnly: true }
+			]
+		});
+	}
+
+	/**
+	 * Members are private and types internal unless declared otherwise
+	 */
+	protected override _getAccess(declaration: DeclarationInfo): DeclarationAccess {
+		const access = super._getAccess(declaration);
+		if (access.visibility) return access;
+		if (/\binternal\b/.test(declaration.modifiers)) return { exported: false };
+		return declaration.isMember ? { exported: false, visibility: 'private' } : { exported: false };
+	}
+
+	/**
+	 * XML documentation as plain text, e.g. `<see cref="Parse"/>` as `Parse`
+	 */
+	protected override _cleanDocumentation(text: string): string {
+		return text
+			.replace(/<(?:see|seealso|paramref|typeparamref)\s+\w+="([^"]*)"\s*\/>/g, '$1')
+			.replace(/<param\s+name="([^"]*)">/g, '$1: ')
+			.replace(/<\/?[a-z]+[^>]*>/g, '')
+			.replace(/\n{3,}/g, '\n\n');
+	}
+}
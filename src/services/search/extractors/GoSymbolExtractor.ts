@@ -0,0 +1,40 @@
+import { DeclarationAccess, DeclarationInfo, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+const TYPE_PARAMETERS = String.raw`(?:\[[^\]]*\])?`;
+
+/**
+ * Go functions, methods (with their receiver type as container), structs,
+ * interfaces, types, constants and package variables
+ */
+export class GoSymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'go',
+			extensions: ['.go'],
+			blocks: 'braces',
+			lineComments: ['//'],
+			blockComments: true,
+			stringQuotes: ['"', '`'],
+			charLiterals: true,
+			rules: [
+				{ pattern: new RegExp(String.raw`^func\s*\(\s*(?:\w+\s+)?\*?(?<receiver>\w+)${TYPE_PARAMETERS}\s*\)\s*(?<name>\w+)`), type: 'method' },
+				{ pattern: /^func\s+(?<name>\w+)/, type: 'function' },
+				{ pattern: new RegExp(String.raw`^type\s+(?<name>\w+)${TYPE_PARAMETERS}\s+struct\b`), type: 'class', keywords: ['struct'] },
+				{ pattern: new RegExp(String.raw`^type\s+(?<name>\w+)${TYPE_PARAMETERS}\s+interface\b`), type: 'interface' },
+				{ pattern: /^type\s+(?<name>\w+)/, type: 'type', hasBody: false },
+				{ pattern: /^const\s*\(/, type: 'variable', entryPattern: /^\s*(?<name>[A-Za-z_]\w*)/, keywords: ['const'] },
+				{ pattern: /^var\s*\(/, type: 'variable', entryPattern: /^\s*(?<name>[A-Za-z_]\w*)/ },
+				{ pattern: /^const\s+(?<name>\w+)/, type: 'variable', hasBody: false, keywords: ['const'] },
+				{ pattern: /^var\s+(?<name>\w+)/, type: 'variable', hasBody: false }
+			]
+		});
+	}
+
+	/**
+	 * Names starting with a capital letter are exported from their package
+	 */
+	protected override _getAccess(declaration: DeclarationInfo): DeclarationAccess {
+		const exported = /^[A-Z]/.test(declaration.name);
+		return declaration.isMember ? { exported, visibility: exported ? 'public' : 'private' } : { exported };
+	}
+}
@@ -0,0 +1,34 @@
+import { PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+// Modifiers, including annotations on the same line
+const MODIFIERS = String.raw`(?<modifiers>(?:(?:public|private|protected|static|final|abstract|synchronized|native|default|sealed|non-sealed|strictfp)\s+|@\w+(?:\([^)]*\))?\s+)*)`;
+// A type name with optional generic arguments and array brackets
+const TYPE = String.raw`[\w.]+(?:<[^()=]*?>)?(?:\[\])*`;
+
+/**
+ * Java classes, records, interfaces, enums, methods, constructors and
+ * static final constants
+ */
+export class JavaSymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'java',
+			extensions: ['.java'],
+			blocks: 'braces',
+			lineComments: ['//'],
+			blockComments: true,
+			stringQuotes: ['"'],
+			tripleQuotes: ['"""'],
+			charLiterals: true,
+			attributePattern: /^\s*@(?!interface\b)\w/,
+			rules: [
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}@?interface\s+(?<name>\w+)`), type: 'interface', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}enum\s+(?<name>\w+)`), type: 'enum' },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}(?:class|record)\s+(?<name>\w+)`), type: 'class', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*(?<modifiers>(?:(?:public|private|protected)\s+)?(?:static\s+final|final\s+static)\s+)${TYPE}\s+(?<name>\w+)\s*[=;]`), type: 'variable', hasBody: false },
+				// Methods, and constructors without a return type
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}(?:<[^()]*?>\s+)?(?:${TYPE}\s+)?(?<name>\w+)\s*\(`), type: 'method', membersOnly: true }
+			]
+		});
+	}
+}
@@ -0,0 +1,47 @@
+import { DeclarationAccess, DeclarationInfo, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+// Modifiers, including annotations on the same line
+const MODIFIERS = String.raw`(?<modifiers>(?:(?:public|private|protected|internal|open|abstract|final|override|suspend|inline|infix|operator|tailrec|external|data|sealed|annotation|inner|value|const|lateinit|expect|actual)\s+|@[\w:]+(?:\([^)]*\))?\s+)*)`;
+
+/**
+ * Kotlin functions (including extension functions), classes, objects,
+ * interfaces, enum classes, type aliases and upper-case constants. Members of
+ * companion objects belong to their class.
+ */
+export class KotlinSymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'kotlin',
+			extensions: ['.kt', '.kts'],
+			blocks: 'braces',
+			lineComments: ['//'],
+			blockComments: true,
+			stringQuotes: ['"'],
+			tripleQuotes: ['"""'],
+			charLiterals: true,
+			attributePattern: /^\s*@\w/,
+			rules: [
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}fun\s+(?:<[^>]*>\s+)?(?:[\w.<>?, ]+\.)?(?<name>\w+|` + '`[^`]+`' + String.raw`)\s*\(`), type: 'function', memberType: 'method' },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}(?:fun\s+)?interface\s+(?<name>\w+)`), type: 'interface', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}enum\s+class\s+(?<name>\w+)`), type: 'enum', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}class\s+(?<name>\w+)`), type: 'class', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}companion\s+object\b(?:\s+(?<name>\w+))?`), type: null, isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}object\s+(?<name>\w+)`), type: 'class', isContainer: true, keywords: ['object'] },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}typealias\s+(?<name>\w+)`), type: 'type', hasBody: false },
+				// `const val` and other upper-case constants
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}val\s+(?<name>[A-Z][A-Z0-9_]*)\s*[:=]`), type: 'variable', hasBody: false }
+			]
+		});
+	}
+
+	/**
+	 * Declarations are public unless declared otherwise; internal ones are
+	 * visible only in their module
+	 */
+	protected override _getAccess(declaration: DeclarationInfo): DeclarationAccess {
+		const access = super._getAccess(declaration);
+		if (access.visibility) return access;
+		if (/\binternal\b/.test(declaration.modifiers)) return { exported: false };
+		return declaration.isMember ? { exported: true, visibility: 'public' } : { exported: true };
+	}
+}
@@ -0,0 +1,584 @@
+import { SearchableCodeItem, SearchableItemType } from '@/services/search/SearchableCodeItem';
+import { MAX_CONTENT_LINES, SymbolExtractor, formatSignature } from '@/services/search/extractors/SymbolExtractor';
+
+// Lines a signature may span before its body starts
+const MAX_SIGNATURE_LINES = 15;
+
+/**
+ * A kind of declaration, recognized at the start of a line
+ */
+export interface DeclarationRule {
+	// Matched against the line with comments and string contents blanked out.
+	// Captures `name` and optionally `modifiers` and `receiver` (the type a
+	// method is declared on, as in Go).
+	pattern: RegExp;
+	// Null for blocks that only group declarations, such as Rust impl blocks
+	type: SearchableItemType | null;
+	// Type inside a class-like container, e.g. method for functions
+	memberType?: SearchableItemType;
+	// Declarations inside this one get it as their container
+	isContainer?: boolean;
+	// Containers such as namespaces whose names qualify the containers inside them
+	isNamespace?: boolean;
+	// A namespace declared without a block covers the rest of the file
+	scopesFile?: boolean;
+	// Only matched inside class-like containers
+	membersOnly?: boolean;
+	// Values such as constants end with their expression instead of a body
+	hasBody?: boolean;
+	// Declares one item of the rule's type (rather than the block itself) per
+	// matching line of its block, as in Go's `const ( ... )`
+	entryPattern?: RegExp;
+	// Name for declarations whose name the pattern cannot capture
+	resolveName?: (match: RegExpExecArray) => string | undefined;
+	keywords?: string[];
+}
+
+export interface LanguageDefinition {
+	id: string;
+	extensions: string[];
+	// How bodies are delimited
+	blocks: 'braces' | 'end' | 'indent';
+	lineComments: string[];
+	blockComments: boolean;
+	stringQuotes: string[];
+	tripleQuotes?: string[];
+	// Single-quoted character literals, as in C
+	charLiterals?: boolean;
+	// Lines allowed between a doc comment and its declaration, such as annotations
+	attributePattern?: RegExp;
+	// Documentation in a string at the start of the body, as in Python
+	docstrings?: boolean;
+	// Tried in order; the first match wins
+	rules: DeclarationRule[];
+}
+
+/**
+ * What visibility rules need to know about a declaration
+ */
+export interface DeclarationInfo {
+	name: string;
+	modifiers: string;
+	isMember: boolean;
+	// Type of the enclosing container, such as interface for members with
+	// implicit visibility
+	containerType: SearchableItemType | undefined;
+}
+
+export interface DeclarationAccess {
+	exported?: boolean;
+	visibility?: 'public' | 'protected' | 'private';
+}
+
+interface Container {
+	name: string;
+	type: SearchableItemType | null;
+	isNamespace: boolean;
+	startLine: number;
+	endLine: number;
+}
+
+interface Position {
+	line: number;
+	column: number;
+}
+
+interface DeclarationExtent {
+	end: Position;
+	signatureEnd: Position;
+}
+
+/**
+ * PatternSymbolExtractor - Line-based symbol extraction for languages
+ * without a parser in the extension
+ *
+ * Declarations are recognized by patterns on lines whose comments and
+ * strings are blanked out, and end where their braces close, at their `end`
+ * keyword or where indentation returns, depending on the language. Function
+ * bodies are skipped, so locals are not indexed.
+ */
+export class PatternSymbolExtractor implements SymbolExtractor {
+	public readonly id: string;
+	public readonly extensions: readonly string[];
+
+	constructor(private readonly _language: LanguageDefinition) {
+		this.id = _language.id;
+		this.extensions = _language.extensions;
+	}
+
+	public extract(_fileName: string, content: string): SearchableCodeItem[] {
+		const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+		const masked = this._mask(lines.join('\n')).split('\n');
+		const items: SearchableCodeItem[] = [];
+		const containers: Container[] = [];
+
+		for (let line = 0; line < masked.length; line++) {
+			while (containers.length > 0 && containers[containers.length - 1]!.endLine < line) {
+				containers.pop();
+			}
+			const container = containers[containers.length - 1];
+			const isInClass = container !== undefined && !container.isNamespace;
+
+			const declaration = this._matchDeclaration(masked[line]!, isInClass);
+			if (!declaration) continue;
+
+			const { rule, match } = declaration;
+			const startColumn = masked[line]!.search(/\S/);
+			const extent = this._findExtent(masked, line, startColumn, rule);
+			if (rule.entryPattern) {
+				items.push(...this._extractEntries(lines, masked, rule, line, extent.end.line, container?.name));
+				line = Math.max(line, extent.end.line);
+				continue;
+			}
+
+			const name = (rule.resolveName ? rule.resolveName(match) : match.groups?.['name'])?.replace(/^`|`$/g, '') ?? container?.name;
+			if (!name) continue;
+
+			if (rule.type) {
+				const receiver = match.groups?.['receiver'];
+				const isMember = receiver !== undefined || isInClass;
+				items.push(this._createItem(lines, masked, {
+					name,
+					type: isMember && rule.memberType ? rule.memberType : rule.type,
+					start: { line, column: startColumn },
+					extent,
+					container: receiver ?? container?.name,
+					modifiers: match.groups?.['modifiers'] ?? '',
+					isMember,
+					containerType: receiver === undefined ? container?.type ?? undefined : undefined,
+					keywords: rule.keywords ?? []
+				}));
+			}
+
+			if (rule.isContainer) {
+				const isAnonymous = !rule.resolveName && !match.groups?.['name'];
+				const endLine = rule.scopesFile && extent.end.line === extent.signatureEnd.line ? masked.length - 1 : extent.end.line;
+				containers.push({
+					name: rule.isNamespace && container?.isNamespace ? `${container.name}.${name}` : name,
+					type: isAnonymous ? container?.type ?? null : rule.type,
+					isNamespace: isAnonymous ? container?.isNamespace ?? true : rule.isNamespace === true,
+					startLine: line,
+					endLine
+				});
+			} else {
+				line = Math.max(line, extent.end.line);
+			}
+		}
+
+		return items;
+	}
+
+	/**
+	 * Whether a declaration is exported and its visibility, from modifiers
+	 * such as `public` and `private`. Interface members are public, and as
+	 * exported as their interface. Languages with other rules override this.
+	 */
+	protected _getAccess(declaration: DeclarationInfo): DeclarationAccess {
+		const { modifiers } = declaration;
+		if (/\b(private|fileprivate)\b/.test(modifiers)) return { exported: false, visibility: 'private' };
+		if (/\bprotected\b/.test(modifiers)) return { exported: false, visibility: 'protected' };
+		if (/\b(public|open)\b/.test(modifiers)) return { exported: true, visibility: 'public' };
+		if (declaration.containerType === 'interface') return { visibility: 'public' };
+		return {};
+	}
+
+	/**
+	 * Documentation text without comment markers; languages with markup in
+	 * their doc comments override this
+	 */
+	protected _cleanDocumentation(text: string): string {
+		return text;
+	}
+
+	private _matchDeclaration(line: string, isInClass: boolean): { rule: DeclarationRule; match: RegExpExecArray } | null {
+		for (const rule of this._language.rules) {
+			if (rule.membersOnly && !isInClass) continue;
+			const match = rule.pattern.exec(line);
+			if (match) return { rule, match };
+		}
+		return null;
+	}
+
+	private _extractEntries(lines: string[], masked: string[], rule: DeclarationRule, startLine: number, endLine: number, container: string | undefined): SearchableCodeItem[] {
+		const items: SearchableCodeItem[] = [];
+		for (let line = startLine + 1; line < endLine; line++) {
+			const match = rule.entryPattern!.exec(masked[line]!);
+			const name = match?.groups?.['name'];
+			if (!name) continue;
+
+			const start = { line, column: masked[line]!.search(/\S/) };
+			const extent = this._findExpressionExtent(masked, line, start.column);
+			items.push(this._createItem(lines, masked, {
+				name,
+				type: rule.type ?? 'variable',
+				start,
+				extent,
+				container,
+				modifiers: '',
+				isMember: false,
+				containerType: undefined,
+				keywords: rule.keywords ?? []
+			}));
+			line = Math.max(line, extent.end.line);
+		}
+		return items;
+	}
+
+	private _createItem(lines: string[], masked: string[], declaration: {
+		name: string;
+		type: SearchableItemType;
+		start: Position;
+		extent: DeclarationExtent;
+		container: string | undefined;
+		modifiers: string;
+		isMember: boolean;
+		containerType: SearchableItemType | undefined;
+		keywords: string[];
+	}): SearchableCodeItem {
+		const { name, type, start, extent, container, modifiers, isMember, containerType } = declaration;
+		const { exported, visibility } = this._getAccess({ name, modifiers, isMember, containerType });
+
+		const signatureLines = lines.slice(start.line, extent.signatureEnd.line + 1);
+		signatureLines[signatureLines.length - 1] = signatureLines[signatureLines.length - 1]!.substring(0, extent.signatureEnd.column);
+		signatureLines[0] = signatureLines[0]!.substring(start.column);
+		const documentation = this._getDocumentation(lines, masked, start.line, extent.signatureEnd.line);
+
+		const keywords = [name, type, ...declaration.keywords];
+		if (container) keywords.push(container);
+		if (exported) keywords.push('exported');
+		if (visibility && visibility !== 'public') keywords.push(visibility);
+
+		return {
+			name,
+			type,
+			lineNumber: start.line + 1,
+			content: lines.slice(start.line, Math.min(extent.end.line + 1, start.line + MAX_CONTENT_LINES)).join('\n'),
+			keywords,
+			signature: formatSignature(signatureLines.join('\n')),
+			range: {
+				startLine: start.line + 1,
+				startColumn: start.column + 1,
+				endLine: extent.end.line + 1,
+				endColumn: extent.end.column + 1
+			},
+			...(container ? { container } : {}),
+			...(documentation ? { documentation } : {}),
+			...(exported !== undefined ? { exported } : {}),
+			...(visibility ? { visibility } : {})
+		};
+	}
+
+	private _findExtent(masked: string[], line: number, column: number, rule: DeclarationRule): DeclarationExtent {
+		if (rule.hasBody === false || rule.entryPattern) {
+			return this._findExpressionExtent(masked, line, column);
+		}
+		switch (this._language.blocks) {
+			case 'braces':
+				return this._findBraceExtent(masked, line, column);
+			case 'end':
+				return this._findKeywordExtent(masked, line);
+			case 'indent':
+				return this._findIndentExtent(masked, line, column);
+		}
+	}
+
+	/**
+	 * A declaration ends at its semicolon, at the brace closing its body or
+	 * at the end of a line that does not continue on the next
+	 */
+	private _findBraceExtent(masked: string[], startLine: number, startColumn: number): DeclarationExtent {
+		let depth = 0;
+		const lastLine = Math.min(masked.length, startLine + MAX_SIGNATURE_LINES) - 1;
+		for (let line = startLine; line <= lastLine; line++) {
+			const text = masked[line]!;
+			for (let column = line === startLine ? startColumn : 0; column < text.length; column++) {
+				const char = text[column];
+				if (char === '(' || char === '[') {
+					depth++;
+				} else if (char === ')' || char === ']') {
+					depth--;
+				} else if (depth <= 0 && char === '{') {
+					return { end: _findClosingBrace(masked, line, column), signatureEnd: { line, column } };
+				} else if (depth <= 0 && char === ';') {
+					return { end: { line, column: column + 1 }, signatureEnd: { line, column } };
+				} else if (depth <= 0 && char === '}') {
+					// The enclosing block closes first
+					return { end: { line, column }, signatureEnd: { line, column } };
+				}
+			}
+			if (depth <= 0 && !_continuesOnNextLine(masked, line)) {
+				return _toEndOfLine(masked, line);
+			}
+		}
+		return _toEndOfLine(masked, startLine);
+	}
+
+	/**
+	 * A value ends at a semicolon or line end outside brackets, unless the
+	 * line continues on the next
+	 */
+	private _findExpressionExtent(masked: string[], startLine: number, startColumn: number): DeclarationExtent {
+		let depth = 0;
+		for (let line = startLine; line < masked.length; line++) {
+			const text = masked[line]!;
+			for (let column = line === startLine ? startColumn : 0; column < text.length; column++) {
+				const char = text[column]!;
+				if ('([{'.includes(char)) {
+					depth++;
+				} else if (')]}'.includes(char)) {
+					if (--depth < 0) return { end: { line, column }, signatureEnd: { line, column } };
+				} else if (depth === 0 && char === ';') {
+					return { end: { line, column: column + 1 }, signatureEnd: { line, column } };
+				}
+			}
+			if (depth <= 0 && !_continuesOnNextLine(masked, line)) {
+				return _toEndOfLine(masked, line);
+			}
+		}
+		return _toEndOfLine(masked, masked.length - 1);
+	}
+
+	/**
+	 * A block opened by a keyword such as `def` or `class` ends at its
+	 * matching `end`
+	 */
+	private _findKeywordExtent(masked: string[], startLine: number): DeclarationExtent {
+		let depth = 0;
+		for (let line = startLine; line < masked.length; line++) {
+			depth += _countBlockOpeners(masked[line]!) - _countBlockClosers(masked[line]!);
+			if (depth <= 0) {
+				return { end: _toEndOfLine(masked, line).end, signatureEnd: _toEndOfLine(masked, startLine).end };
+			}
+		}
+		return { end: _toEndOfLine(masked, masked.length - 1).end, signatureEnd: _toEndOfLine(masked, startLine).end };
+	}
+
+	/**
+	 * A block ends before the first line indented no deeper than its
+	 * declaration, after a signature that may span lines inside brackets
+	 */
+	private _findIndentExtent(masked: string[], startLine: number, startColumn: number): DeclarationExtent {
+		let depth = 0;
+		let signatureLine = startLine;
+		for (let line = startLine; line < Math.min(masked.length, startLine + MAX_SIGNATURE_LINES); line++) {
+			const text = masked[line]!;
+			for (let column = line === startLine ? startColumn : 0; column < text.length; column++) {
+				const char = text[column]!;
+				if ('([{'.includes(char)) depth++;
+				else if (')]}'.includes(char)) depth--;
+			}
+			signatureLine = line;
+			if (depth <= 0 && !text.trimEnd().endsWith('\\')) break;
+		}
+
+		let endLine = signatureLine;
+		for (let line = signatureLine + 1; line < masked.length; line++) {
+			const text = masked[line]!;
+			if (!text.trim()) continue;
+			if (text.search(/\S/) <= startColumn) break;
+			endLine = line;
+		}
+
+		const signatureText = masked[signatureLine]!;
+		const colon = signatureText.lastIndexOf(':');
+		return {
+			end: _toEndOfLine(masked, endLine).end,
+			signatureEnd: { line: signatureLine, column: colon === -1 ? signatureText.length : colon }
+		};
+	}
+
+	/**
+	 * The doc comment directly above a declaration (past any attributes), or
+	 * the docstring opening its body
+	 */
+	private _getDocumentation(lines: string[], masked: string[], startLine: number, signatureLine: number): string | undefined {
+		if (this._language.docstrings) {
+			return _getDocstring(lines, masked, signatureLine);
+		}
+
+		const { attributePattern, blockComments, lineComments } = this._language;
+		let line = startLine - 1;
+		while (line >= 0 && attributePattern?.test(lines[line]!)) {
+			line--;
+		}
+		if (line < 0) return undefined;
+
+		const comment: string[] = [];
+		if (blockComments && lines[line]!.trim().endsWith('*/')) {
+			for (; line >= 0; line--) {
+				const text = lines[line]!.trim();
+				comment.unshift(text);
+				if (text.startsWith('/*')) break;
+			}
+			if (line < 0) return undefined;
+			return this._formatDocumentation(comment.join('\n')
+				.replace(/^\/\*+|\*+\/$/g, '')
+				.split('\n')
+				.map(text => text.replace(/^\s*\*(?!\/) ?/, '')));
+		}
+
+		for (; line >= 0; line--) {
+			const text = lines[line]!.trim();
+			const prefix = lineComments.find(marker => text.startsWith(marker));
+			if (!prefix || text.startsWith('#!') || text.startsWith('#[')) break;
+			comment.unshift(text.substring(prefix.length).replace(/^[/!]?\s?/, ''));
+		}
+		return this._formatDocumentation(comment);
+	}
+
+	private _formatDocumentation(lines: string[]): string | undefined {
+		const text = this._cleanDocumentation(lines.join('\n')).trim();
+		return text || undefined;
+	}
+
+	/**
+	 * Blank out comments and the contents of strings, keeping every
+	 * character's position, so patterns and bracket counting only see code
+	 */
+	private _mask(content: string): string {
+		const { lineComments, blockComments, stringQuotes, tripleQuotes = [], charLiterals } = this._language;
+		const chars = content.split('');
+		const blank = (from: number, to: number) => {
+			for (let i = from; i < to; i++) {
+				if (chars[i] !== '\n') chars[i] = ' ';
+			}
+		};
+		const charLiteral = /'(?:\\[^'\n]{1,10}|[^\\'\n])'/y;
+
+		let i = 0;
+		while (i < content.length) {
+			if (lineComments.some(marker => content.startsWith(marker, i))) {
+				const end = content.indexOf('\n', i);
+				const commentEnd = end === -1 ? content.length : end;
+				blank(i, commentEnd);
+				i = commentEnd;
+				continue;
+			}
+
+			if (blockComments && content.startsWith('/*', i)) {
+				const end = content.indexOf('*/', i + 2);
+				const commentEnd = end === -1 ? content.length : end + 2;
+				blank(i, commentEnd);
+				i = commentEnd;
+				continue;
+			}
+
+			const tripleQuote = tripleQuotes.find(quote => content.startsWith(quote, i));
+			if (tripleQuote) {
+				const end = content.indexOf(tripleQuote, i + 3);
+				const stringEnd = end === -1 ? content.length : end;
+				blank(i + 3, stringEnd);
+				i = stringEnd + 3;
+				continue;
+			}
+
+			const char = content[i]!;
+			if (stringQuotes.includes(char)) {
+				// Backtick strings are raw and may span lines, as in Go
+				const isRaw = char === '`';
+				let end = i + 1;
+				while (end < content.length && content[end] !== char && (isRaw || content[end] !== '\n')) {
+					end += !isRaw && content[end] === '\\' ? 2 : 1;
+				}
+				blank(i + 1, Math.min(end, content.length));
+				i = end + 1;
+				continue;
+			}
+
+			if (charLiterals && char === '\'') {
+				charLiteral.lastIndex = i;
+				if (charLiteral.test(content)) {
+					blank(i + 1, charLiteral.lastIndex - 1);
+					i = charLiteral.lastIndex;
+					continue;
+				}
+			}
+
+			i++;
+		}
+		return chars.join('');
+	}
+}
+
+function _findClosingBrace(masked: string[], startLine: number, startColumn: number): Position {
+	let depth = 0;
+	for (let line = startLine; line < masked.length; line++) {
+		const text = masked[line]!;
+		for (let column = line === startLine ? startColumn : 0; column < text.length; column++) {
+			if (text[column] === '{') {
+				depth++;
+			} else if (text[column] === '}' && --depth === 0) {
+				return { line, column: column + 1 };
+			}
+		}
+	}
+	// Unbalanced braces run to the end of the file
+	return { line: masked.length - 1, column: masked[masked.length - 1]!.length };
+}
+
+/**
+ * Whether a declaration goes on past the end of a line, because the line
+ * ends mid-expression or the next line starts its body or return type
+ */
+function _continuesOnNextLine(masked: string[], line: number): boolean {
+	const text = masked[line]!.trimEnd();
+	if (/([,([=:+|&.\\]|->|=>)$/.test(text)) return true;
+
+	for (let next = line + 1; next < masked.length; next++) {
+		const nextText = masked[next]!.trim();
+		if (nextText) {
+			return /^(\{|where\b|throws\b|:|->|=>|=(?!=)|\.|\?|&&|\|\|)/.test(nextText);
+		}
+	}
+	return false;
+}
+
+function _toEndOfLine(masked: string[], line: number): DeclarationExtent {
+	const position = { line, column: masked[line]!.trimEnd().length };
+	return { end: position, signatureEnd: position };
+}
+
+/**
+ * Ruby keywords opening a block closed by `end`: statements starting with
+ * one, blocks passed with `do`, and `x = if ...` style assignments. One-line
+ * `def name = value` methods have no `end`.
+ */
+function _countBlockOpeners(line: string): number {
+	const text = line.trim();
+	let count = 0;
+	if (/^(def|class|module|if|unless|while|until|case|begin|for)\b/.test(text) && !/^def\s+[^\s(=]+(\([^)]*\))?\s*=(?![=~])/.test(text)) count++;
+	if (/=\s*(if|unless|case|begin|while|until)\b/.test(text)) count++;
+	if (/\bdo\s*(\|[^|]*\|)?\s*$/.test(text) && !/^(while|until|for)\b/.test(text)) count++;
+	return count;
+}
+
+function _countBlockClosers(line: string): number {
+	return line.match(/(?<![.\w])end\b(?![?!])/g)?.length ?? 0;
+}
+
+/**
+ * The string literal opening a Python body, without its quotes and indentation
+ */
+function _getDocstring(lines: string[], masked: string[], signatureLine: number): string | undefined {
+	// One-line bodies have no docstring
+	const body = masked[signatureLine]!.substring(masked[signatureLine]!.lastIndexOf(':') + 1);
+	if (body.trim()) return undefined;
+
+	let line = signatureLine + 1;
+	while (line < lines.length && !lines[line]!.trim()) line++;
+	const opening = /^\s*[rRuU]?("""|'''|"|')/.exec(lines[line] ?? '');
+	if (!opening) return undefined;
+
+	const quote = opening[1]!;
+	const docLines: string[] = [];
+	let text = lines[line]!.substring(opening[0].length);
+	let end = text.indexOf(quote);
+	while (end === -1 && line + 1 < lines.length) {
+		docLines.push(text);
+		text = lines[++line]!;
+		end = text.indexOf(quote);
+	}
+	docLines.push(end === -1 ? text : text.substring(0, end));
+	const docstring = docLines.map(docLine => docLine.trim()).join('\n').trim();
+	return docstring || undefined;
+}
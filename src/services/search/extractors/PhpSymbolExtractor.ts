@@ -0,0 +1,40 @@
+import { DeclarationAccess, DeclarationInfo, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+const MODIFIERS = String.raw`(?<modifiers>(?:(?:public|private|protected|static|final|abstract|readonly)\s+)*)`;
+
+/**
+ * PHP functions, classes, interfaces, traits, enums, methods and constants.
+ * Namespaces, including ones declared without a block, qualify the types
+ * inside them.
+ */
+export class PhpSymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'php',
+			extensions: ['.php'],
+			blocks: 'braces',
+			lineComments: ['//', '#'],
+			blockComments: true,
+			stringQuotes: ['"', '\''],
+			attributePattern: /^\s*#\[/,
+			rules: [
+				{ pattern: /^\s*namespace\s+(?<name>[\w\\]+)/, type: null, isContainer: true, isNamespace: true, scopesFile: true, resolveName: match => match.groups?.['name']?.replace(/\\/g, '.') },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}function\s+&?(?<name>\w+)`), type: 'function', memberType: 'method' },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}interface\s+(?<name>\w+)`), type: 'interface', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}trait\s+(?<name>\w+)`), type: 'class', isContainer: true, keywords: ['trait'] },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}enum\s+(?<name>\w+)`), type: 'enum', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}class\s+(?<name>\w+)`), type: 'class', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}const\s+(?:\??[\w\\]+\s+)?(?<name>\w+)\s*=`), type: 'variable', hasBody: false, keywords: ['const'] }
+			]
+		});
+	}
+
+	/**
+	 * Members are public unless declared otherwise
+	 */
+	protected override _getAccess(declaration: DeclarationInfo): DeclarationAccess {
+		const access = super._getAccess(declaration);
+		if (access.visibility || !declaration.isMember) return access;
+		return { exported: true, visibility: 'public' };
+	}
+}
@@ -0,0 +1,38 @@
+import { DeclarationAccess, DeclarationInfo, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+/**
+ * Python functions, methods, classes and upper-case constants, documented by
+ * their docstrings
+ */
+export class PythonSymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'python',
+			extensions: ['.py', '.pyi'],
+			blocks: 'indent',
+			lineComments: ['#'],
+			blockComments: false,
+			stringQuotes: ['"', '\''],
+			tripleQuotes: ['"""', '\'\'\''],
+			attributePattern: /^\s*@/,
+			docstrings: true,
+			rules: [
+				{ pattern: /^\s*(?<modifiers>async\s+)?def\s+(?<name>\w+)/, type: 'function', memberType: 'method', keywords: ['def'] },
+				{ pattern: /^\s*class\s+(?<name>\w+)/, type: 'class', isContainer: true },
+				{ pattern: /^\s*(?<name>[A-Z][A-Z0-9_]*)\s*(?::[^=]+)?=(?!=)/, type: 'variable', hasBody: false }
+			]
+		});
+	}
+
+	/**
+	 * Names starting with an underscore are private by convention, and
+	 * `__name` members are name-mangled
+	 */
+	protected override _getAccess(declaration: DeclarationInfo): DeclarationAccess {
+		const { name } = declaration;
+		const exported = !name.startsWith('_');
+		if (!declaration.isMember) return { exported };
+		if (name.startsWith('__') && !name.endsWith('__')) return { exported: false, visibility: 'private' };
+		return name.startsWith('_') && !name.endsWith('__') ? { exported: false, visibility: 'protected' } : { exported: true, visibility: 'public' };
+	}
+}
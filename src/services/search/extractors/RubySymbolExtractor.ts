@@ -0,0 +1,31 @@
+import { DeclarationAccess, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+/**
+ * Ruby modules, classes, methods (including `def self.name`) and constants
+ */
+export class RubySymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'ruby',
+			extensions: ['.rb', '.rake'],
+			blocks: 'end',
+			lineComments: ['#'],
+			blockComments: false,
+			stringQuotes: ['"', '\''],
+			rules: [
+				{ pattern: /^\s*module\s+(?<name>[\w:]+)/, type: null, isContainer: true, isNamespace: true, keywords: ['module'] },
+				{ pattern: /^\s*class\s+(?<name>[\w:]+)/, type: 'class', isContainer: true },
+				{ pattern: /^\s*def\s+(?:self\.)?(?<name>\w+[?!=]?)/, type: 'function', memberType: 'method', keywords: ['def'] },
+				{ pattern: /^\s*(?<name>[A-Z][A-Z0-9_]*)\s*=(?![=~])/, type: 'variable', hasBody: false }
+			]
+		});
+	}
+
+	/**
+	 * Visibility in Ruby is set by `private` sections rather than on the
+	 * declaration, so it is left unknown
+	 */
+	protected override _getAccess(): DeclarationAccess {
+		return {};
+	}
+}
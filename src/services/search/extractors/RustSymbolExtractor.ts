@@ -0,0 +1,58 @@
+import { DeclarationAccess, DeclarationInfo, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+const VISIBILITY = String.raw`(?<modifiers>(?:pub(?:\s*\([^)]*\))?\s+)?)`;
+const FUNCTION_QUALIFIERS = String.raw`(?:(?:default|const|async|unsafe|extern(?:\s+"[^"]*")?)\s+)*`;
+
+/**
+ * Rust functions and methods (in impl and trait blocks, with the implementing
+ * type as container), structs, enums, traits, type aliases, constants,
+ * statics and macros. Modules qualify the containers inside them.
+ */
+export class RustSymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'rust',
+			extensions: ['.rs'],
+			blocks: 'braces',
+			lineComments: ['//'],
+			blockComments: true,
+			stringQuotes: ['"'],
+			charLiterals: true,
+			attributePattern: /^\s*#!?\[/,
+			rules: [
+				{ pattern: new RegExp(String.raw`^\s*${VISIBILITY}${FUNCTION_QUALIFIERS}fn\s+(?<name>\w+)`), type: 'function', memberType: 'method' },
+				{ pattern: new RegExp(String.raw`^\s*${VISIBILITY}(?:struct|union)\s+(?<name>\w+)`), type: 'class', keywords: ['struct'] },
+				{ pattern: new RegExp(String.raw`^\s*${VISIBILITY}enum\s+(?<name>\w+)`), type: 'enum' },
+				{ pattern: new RegExp(String.raw`^\s*${VISIBILITY}(?:unsafe\s+)?trait\s+(?<name>\w+)`), type: 'interface', isContainer: true, keywords: ['trait'] },
+				{ pattern: /^\s*(?:unsafe\s+)?impl\b(?<target>[^{]*)/, type: null, isContainer: true, resolveName: match => _getImplementedType(match.groups?.['target'] ?? '') },
+				{ pattern: new RegExp(String.raw`^\s*${VISIBILITY}mod\s+(?<name>\w+)`), type: null, isContainer: true, isNamespace: true },
+				{ pattern: new RegExp(String.raw`^\s*${VISIBILITY}type\s+(?<name>\w+)`), type: 'type', hasBody: false },
+				{ pattern: new RegExp(String.raw`^\s*${VISIBILITY}(?:const|static)\s+(?:mut\s+)?(?<name>\w+)\s*:`), type: 'variable', hasBody: false },
+				{ pattern: /^\s*macro_rules!\s*(?<name>\w+)/, type: 'function', keywords: ['macro'] }
+			]
+		});
+	}
+
+	protected override _getAccess(declaration: DeclarationInfo): DeclarationAccess {
+		// Trait items are as public as their trait
+		if (declaration.containerType === 'interface') return { visibility: 'public' };
+		const exported = /\bpub\b/.test(declaration.modifiers);
+		return declaration.isMember ? { exported, visibility: exported ? 'public' : 'private' } : { exported };
+	}
+}
+
+/**
+ * The type of `impl<T> Trait<T> for Type<T> where ...`, without generics or path
+ */
+function _getImplementedType(target: string): string | undefined {
+	let text = target.replace(/\bwhere\b.*$/, '');
+	// Drop generic arguments, innermost first
+	while (/<[^<>]*>/.test(text)) {
+		text = text.replace(/<[^<>]*>/g, '');
+	}
+	const forIndex = text.search(/\sfor\s/);
+	if (forIndex !== -1) {
+		text = text.substring(forIndex + 4);
+	}
+	return /(\w+)\s*$/.exec(text.trim())?.[1];
+}
@@ -0,0 +1,42 @@
+import { DeclarationAccess, DeclarationInfo, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+// Modifiers, including attributes on the same line
+const MODIFIERS = String.raw`(?<modifiers>(?:(?:public|private|fileprivate|internal|open|package|static|class|final|override|mutating|nonmutating|convenience|required|lazy|nonisolated|indirect|dynamic|optional)(?:\([^)]*\))?\s+|@\w+(?:\([^)]*\))?\s+)*)`;
+
+/**
+ * Swift functions, initializers, classes, structs, actors, protocols, enums,
+ * type aliases and constants. Declarations in extensions belong to the
+ * extended type.
+ */
+export class SwiftSymbolExtractor extends PatternSymbolExtractor {
+	constructor() {
+		super({
+			id: 'swift',
+			extensions: ['.swift'],
+			blocks: 'braces',
+			lineComments: ['//'],
+			blockComments: true,
+			stringQuotes: ['"'],
+			tripleQuotes: ['"""'],
+			attributePattern: /^\s*@\w/,
+			rules: [
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}func\s+(?<name>\w+|` + '`[^`]+`' + String.raw`|[^\s\w(<]+)`), type: 'function', memberType: 'method' },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}(?<name>init|deinit|subscript)\b`), type: 'method', membersOnly: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}protocol\s+(?<name>\w+)`), type: 'interface', isContainer: true, keywords: ['protocol'] },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}enum\s+(?<name>\w+)`), type: 'enum', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}(?:class|struct|actor)\s+(?!(?:func|var|let|subscript)\b)(?<name>\w+)`), type: 'class', isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}extension\s+(?<name>[\w.]+)`), type: null, isContainer: true },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}typealias\s+(?<name>\w+)`), type: 'type', hasBody: false },
+				{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}let\s+(?<name>\w+)`), type: 'variable', hasBody: false }
+			]
+		});
+	}
+
+	/**
+	 * Declarations are internal to their module unless declared public or open
+	 */
+	protected override _getAccess(declaration: DeclarationInfo): DeclarationAccess {
+		const access = super._getAccess(declaration);
+		return access.visibility ? access : { exported: false };
+	}
+}
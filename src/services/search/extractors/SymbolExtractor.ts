@@ -0,0 +1,24 @@
+import { SearchableCodeItem } from '@/services/search/SearchableCodeItem';
+
+// Lines of an item's code that are indexed; the rest of long declarations is cut off
+export const MAX_CONTENT_LINES = 30;
+export const MAX_SIGNATURE_LENGTH = 200;
+
+/**
+ * Finds the searchable symbols of one language, plugged into the
+ * SymbolExtractorRegistry
+ */
+export interface SymbolExtractor {
+	readonly id: string;
+	// Lowercase file extensions with the leading dot
+	readonly extensions: readonly string[];
+	extract(fileName: string, content: string): SearchableCodeItem[];
+}
+
+/**
+ * Declaration text as a one-line signature, without an opening brace
+ */
+export function formatSignature(text: string): string {
+	const signature = text.replace(/\s+/g, ' ').replace(/\s*\{?\s*$/, '').trim();
+	return signature.length > MAX_SIGNATURE_LENGTH ? `${signature.substring(0, MAX_SIGNATURE_LENGTH - 1)}…` : signature;
+}
@@ -0,0 +1,382 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { SearchableCodeItem, SearchableItemType } from '@/services/search/SearchableCodeItem';
+import { MAX_CONTENT_LINES, SymbolExtractor, formatSignature } from '@/services/search/extractors/SymbolExtractor';
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+	'.ts': ts.ScriptKind.TS,
+	'.tsx': ts.ScriptKind.TSX,
+	'.js': ts.ScriptKind.JS,
+	'.jsx': ts.ScriptKind.JSX
+};
+
+/**
+ * Extracts the symbols of TS/JS files from their syntax tree
+ */
+export class TypeScriptSymbolExtractor implements SymbolExtractor {
+	public readonly id = 'typescript';
+	public readonly extensions = Object.keys(SCRIPT_KINDS);
+
+	public extract(fileName: string, content: string): SearchableCodeItem[] {
+		const scriptKind = SCRIPT_KINDS[path.extname(fileName).toLowerCase()] ?? ts.ScriptKind.TS;
+		const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKind);
+		return new SymbolCollector(sourceFile).collect();
+	}
+}
+
+/**
+ * The declaration an item is nested in
+ */
+interface Container {
+	name: string;
+	exported: boolean;
+}
+
+interface ItemDeclaration {
+	name: string;
+	type: SearchableItemType;
+	// Node spanning the whole declaration
+	node: ts.Node;
+	// Where the signature ends, if not at the end of the declaration
+	signatureEnd?: number;
+	// Node carrying the JSDoc, if not the declaration itself
+	documentedNode?: ts.Node;
+	container: Container | undefined;
+	exported: boolean;
+	visibility?: 'public' | 'protected' | 'private';
+	// Overload signatures preceding the implementation
+	overloads?: ts.Node[];
+	keywords?: string[];
+}
+
+/**
+ * Walks module-level declarations, namespaces, classes and object literals.
+ * Function bodies are not entered, so locals are not indexed.
+ */
+class SymbolCollector {
+	private readonly _items: SearchableCodeItem[] = [];
+	private readonly _lines: string[];
+	// Names exported with `export { a, b }` rather than an export modifier
+	private readonly _exportedNames = new Set<string>();
+
+	constructor(private readonly _sourceFile: ts.SourceFile) {
+		this._lines = _sourceFile.text.split('\n');
+	}
+
+	public collect(): SearchableCodeItem[] {
+		for (const statement of this._sourceFile.statements) {
+			if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+				for (const element of statement.exportClause.elements) {
+					this._exportedNames.add((element.propertyName ?? element.name).text);
+				}
+			}
+		}
+
+		this._visitList(this._sourceFile.statements, (statement, overloads) => this._visitStatement(statement, undefined, overloads));
+		return this._items.sort((a, b) => a.lineNumber - b.lineNumber);
+	}
+
+	/**
+	 * Visit statements or class members, handing overload signatures to the
+	 * declaration that follows them instead of indexing each one
+	 */
+	private _visitList<T extends ts.Node>(nodes: readonly T[], visit: (node: T, overloads: ts.Node[]) => void): void {
+		let overloads: ts.Node[] = [];
+		nodes.forEach((node, index) => {
+			const next = nodes[index + 1];
+			if (_isOverloadSignature(node) && next && _getOverloadName(next, this._sourceFile) === _getOverloadName(node, this._sourceFile)) {
+				overloads.push(node);
+				return;
+			}
+			visit(node, overloads);
+			overloads = [];
+		});
+	}
+
+	private _visitStatement(statement: ts.Statement, container: Container | undefined, overloads: ts.Node[]): void {
+		const exported = this._isExported(statement, container);
+
+		if (ts.isFunctionDeclaration(statement)) {
+			this._add({
+				name: statement.name?.text ?? 'default',
+				type: 'function',
+				node: statement,
+				...(statement.body ? { signatureEnd: statement.body.getStart(this._sourceFile) } : {}),
+				container,
+				exported,
+				overloads
+			});
+		} else if (ts.isClassDeclaration(statement)) {
+			this._addClass(statement, statement.name?.text ?? 'default', statement, container, exported);
+		} else if (ts.isInterfaceDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+			this._add({
+				name: statement.name.text,
+				type: ts.isInterfaceDeclaration(statement) ? 'interface' : 'enum',
+				node: statement,
+				signatureEnd: statement.members.pos,
+				container,
+				exported
+			});
+		} else if (ts.isTypeAliasDeclaration(statement)) {
+			this._add({ name: statement.name.text, type: 'type', node: statement, container, exported });
+		} else if (ts.isModuleDeclaration(statement)) {
+			this._visitNamespace(statement, container, exported);
+		} else if (ts.isVariableStatement(statement)) {
+			for (const declaration of statement.declarationList.declarations) {
+				// A lone declaration is indexed with its keyword and modifiers
+				const node = statement.declarationList.declarations.length === 1 ? statement : declaration;
+				this._visitVariable(declaration, node, container, exported);
+			}
+		} else if (ts.isExpressionStatement(statement)) {
+			this._visitAssignment(statement, container);
+		}
+	}
+
+	private _visitNamespace(declaration: ts.ModuleDeclaration, container: Container | undefined, exported: boolean): void {
+		const name = container ? `${container.name}.${declaration.name.text}` : declaration.name.text;
+		const namespace: Container = { name, exported };
+
+		// `namespace A.B {}` nests one declaration in another
+		if (declaration.body && ts.isModuleDeclaration(declaration.body)) {
+			this._visitNamespace(declaration.body, namespace, exported);
+		} else if (declaration.body && ts.isModuleBlock(declaration.body)) {
+			this._visitList(declaration.body.statements, (statement, overloads) => this._visitStatement(statement, namespace, overloads));
+		}
+	}
+
+	private _visitVariable(declaration: ts.VariableDeclaration, node: ts.Node, container: Container | undefined, exported: boolean): void {
+		if (!ts.isIdentifier(declaration.name)) return;
+
+		const name = declaration.name.text;
+		const initializer = declaration.initializer && _skipParentheses(declaration.initializer);
+		if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+			this._add({
+				name,
+				type: 'function',
+				node,
+				signatureEnd: initializer.body.getStart(this._sourceFile),
+				documentedNode: declaration,
+				container,
+				exported,
+				keywords: ts.isArrowFunction(initializer) ? ['arrow'] : []
+			});
+		} else if (initializer && ts.isClassExpression(initializer)) {
+			this._addClass(initializer, name, node, container, exported);
+		} else {
+			this._add({ name, type: 'variable', node, documentedNode: declaration, container, exported });
+			if (initializer && ts.isObjectLiteralExpression(initializer)) {
+				this._visitObjectLiteral(initializer, { name, exported });
+			}
+		}
+	}
+
+	/**
+	 * Functions assigned to properties, e.g. `module.exports.run = function () {}`
+	 */
+	private _visitAssignment(statement: ts.ExpressionStatement, container: Container | undefined): void {
+		const expression = statement.expression;
+		if (!ts.isBinaryExpression(expression) || expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken) return;
+		if (!ts.isPropertyAccessExpression(expression.left)) return;
+
+		const right = _skipParentheses(expression.right);
+		if (!ts.isArrowFunction(right) && !ts.isFunctionExpression(right)) return;
+
+		const target = expression.left.expression.getText(this._sourceFile);
+		this._add({
+			name: expression.left.name.text,
+			type: 'function',
+			node: statement,
+			signatureEnd: right.body.getStart(this._sourceFile),
+			documentedNode: expression,
+			container: { name: container ? `${container.name}.${target}` : target, exported: container?.exported ?? false },
+			exported: /^(module\.)?exports\b/.test(target)
+		});
+	}
+
+	private _addClass(declaration: ts.ClassLikeDeclaration, name: string, node: ts.Node, container: Container | undefined, exported: boolean): void {
+		this._add({
+			name,
+			type: 'class',
+			node,
+			signatureEnd: declaration.members.pos,
+			documentedNode: declaration,
+			container,
+			exported
+		});
+
+		const classContainer: Container = { name, exported };
+		this._visitList(declaration.members, (member, overloads) => this._visitClassMember(member, classContainer, overloads));
+	}
+
+	private _visitClassMember(member: ts.ClassElement, container: Container, overloads: ts.Node[]): void {
+		const visibility = _getVisibility(member);
+
+		if (ts.isMethodDeclaration(member) || ts.isConstructorDeclaration(member) || ts.isGetAccessor(member) || ts.isSetAccessor(member)) {
+			const accessor = ts.isGetAccessor(member) ? 'get' : ts.isSetAccessor(member) ? 'set' : undefined;
+			this._add({
+				name: member.name ? _getPropertyName(member.name, this._sourceFile) : 'constructor',
+				type: 'method',
+				node: member,
+				...(member.body ? { signatureEnd: member.body.getStart(this._sourceFile) } : {}),
+				container,
+				exported: container.exported,
+				visibility,
+				overloads,
+				keywords: accessor ? [accessor] : []
+			});
+		} else if (ts.isPropertyDeclaration(member) && member.initializer) {
+			// Methods written as arrow function properties
+			const initializer = _skipParentheses(member.initializer);
+			if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+				this._add({
+					name: _getPropertyName(member.name, this._sourceFile),
+					type: 'method',
+					node: member,
+					signatureEnd: initializer.body.getStart(this._sourceFile),
+					container,
+					exported: container.exported,
+					visibility
+				});
+			}
+		}
+	}
+
+	/**
+	 * Functions in object literals, e.g. `const handlers = { save: () => {} }`
+	 */
+	private _visitObjectLiteral(literal: ts.ObjectLiteralExpression, container: Container): void {
+		for (const property of literal.properties) {
+			if (ts.isMethodDeclaration(property) || ts.isGetAccessor(property) || ts.isSetAccessor(property)) {
+				this._add({
+					name: _getPropertyName(property.name, this._sourceFile),
+					type: 'method',
+					node: property,
+					...(property.body ? { signatureEnd: property.body.getStart(this._sourceFile) } : {}),
+					container,
+					exported: container.exported
+				});
+			} else if (ts.isPropertyAssignment(property)) {
+				const name = _getPropertyName(property.name, this._sourceFile);
+				const initializer = _skipParentheses(property.initializer);
+				if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+					this._add({
+						name,
+						type: 'method',
+						node: property,
+						signatureEnd: initializer.body.getStart(this._sourceFile),
+						container,
+						exported: container.exported
+					});
+				} else if (ts.isObjectLiteralExpression(initializer)) {
+					this._visitObjectLiteral(initializer, { name: `${container.name}.${name}`, exported: container.exported });
+				}
+			}
+		}
+	}
+
+	private _isExported(statement: ts.Statement, container: Container | undefined): boolean {
+		const hasExportModifier = ts.canHaveModifiers(statement)
+			&& (ts.getModifiers(statement) ?? []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+
+		// Namespace members are visible outside only when exported from an exported namespace
+		if (container) {
+			return container.exported && hasExportModifier;
+		}
+		if (hasExportModifier) {
+			return true;
+		}
+
+		const names = ts.isVariableStatement(statement)
+			? statement.declarationList.declarations.map(declaration => declaration.name.getText(this._sourceFile))
+			: [(statement as ts.Statement & { name?: ts.Node }).name?.getText(this._sourceFile)];
+		return names.some(name => name !== undefined && this._exportedNames.has(name));
+	}
+
+	private _add(declaration: ItemDeclaration): void {
+		const sourceFile = this._sourceFile;
+		const overloads = declaration.overloads ?? [];
+		const startNode = overloads[0] ?? declaration.node;
+		const start = sourceFile.getLineAndCharacterOfPosition(startNode.getStart(sourceFile));
+		const end = sourceFile.getLineAndCharacterOfPosition(declaration.node.getEnd());
+
+		const signatures = overloads.map(overload => overload.getText(sourceFile));
+		signatures.push(sourceFile.text.substring(declaration.node.getStart(sourceFile), declaration.signatureEnd ?? declaration.node.getEnd()));
+		const signature = signatures
+			.map(formatSignature)
+			.join('\n');
+
+		const documentation = [...overloads, declaration.documentedNode ?? declaration.node]
+			.map(node => _getDocumentation(node, sourceFile))
+			.find(text => text !== undefined);
+
+		const keywords = [declaration.name, declaration.type, ...(declaration.keywords ?? [])];
+		if (declaration.container) keywords.push(declaration.container.name);
+		if (declaration.exported) keywords.push('exported');
+		if (declaration.visibility && declaration.visibility !== 'public') keywords.push(declaration.visibility);
+
+		this._items.push({
+			name: declaration.name,
+			type: declaration.type,
+			lineNumber: start.line + 1,
+			content: this._lines.slice(start.line, Math.min(end.line + 1, start.line + MAX_CONTENT_LINES)).join('\n'),
+			keywords,
+			signature,
+			range: {
+				startLine: start.line + 1,
+				startColumn: start.character + 1,
+				endLine: end.line + 1,
+				endColumn: end.character + 1
+			},
+			...(declaration.container ? { container: declaration.container.name } : {}),
+			...(documentation ? { documentation } : {}),
+			exported: declaration.exported,
+			...(declaration.visibility ? { visibility: declaration.visibility } : {})
+		});
+	}
+}
+
+function _isOverloadSignature(node: ts.Node): boolean {
+	return (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isConstructorDeclaration(node)) && !node.body;
+}
+
+function _getOverloadName(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
+	if (ts.isConstructorDeclaration(node)) return 'constructor';
+	if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) return node.name?.getText(sourceFile);
+	return undefined;
+}
+
+function _getPropertyName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+	return ts.isComputedPropertyName(name) ? name.getText(sourceFile) : name.text;
+}
+
+function _getVisibility(member: ts.ClassElement): 'public' | 'protected' | 'private' {
+	if (member.name && ts.isPrivateIdentifier(member.name)) return 'private';
+
+	const flags = ts.getCombinedModifierFlags(member);
+	if (flags & ts.ModifierFlags.Private) return 'private';
+	if (flags & ts.ModifierFlags.Protected) return 'protected';
+	return 'public';
+}
+
+/**
+ * JSDoc text of a declaration without the comment markers
+ */
+function _getDocumentation(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
+	const text = ts.getJSDocCommentsAndTags(node)
+		.filter(ts.isJSDoc)
+		.map(doc => doc.getText(sourceFile)
+			.replace(/^\/\*\*|\*\/$/g, '')
+			.split('\n')
+			.map(line => line.replace(/^\s*\* ?/, ''))
+			.join('\n')
+			.trim())
+		.join('\n\n');
+	return text || undefined;
+}
+
+function _skipParentheses(expression: ts.Expression): ts.Expression {
+	while (ts.isParenthesizedExpression(expression)) {
+		expression = expression.expression;
+	}
+	return expression;
+}
@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+
+/**
+ * A credential found in a piece of text
+ */
+export interface SecretMatch {
+	ruleId: string;
+	description: string;
+	// Offsets of the secret itself, excluding any surrounding assignment
+	start: number;
+	end: number;
+	// Known token formats are certain; entropy findings may be false positives
+	confidence: 'high' | 'medium';
+	// Short hash identifying the secret without revealing it
+	fingerprint: string;
+}
+
+interface SecretRule {
+	id: string;
+	description: string;
+	pattern: RegExp;
+	// Capture group holding the secret; the whole match when absent
+	group?: number;
+	minEntropy?: number;
+}
+
+// Bits per character above which an assigned credential value counts as a secret
+const MIN_SECRET_ENTROPY = 3.5;
+
+// Long text is scanned in chunks of this length, overlapping by more than
+// the longest secret so none is cut in two
+const SCAN_CHUNK_LENGTH = 2 * 1024 * 1024;
+const SCAN_CHUNK_OVERLAP = 64 * 1024;
+
+const SECRET_RULES: SecretRule[] = [
+	{
+		id: 'private-key',
+		description: 'Private key',
+		pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g
+	},
+	{
+		id: 'aws-access-key-id',
+		description: 'AWS access key ID',
+		pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g
+	},
+	{
+		id: 'aws-secret-access-key',
+		description: 'AWS secret access key',
+		pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+		group: 1
+	},
+	{
+		id: 'github-token',
+		description: 'GitHub token',
+		pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g
+	},
+	{
+		id: 'anthropic-api-key',
+		description: 'Anthropic API key',
+		pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g
+	},
+	{
+		id: 'slack-token',
+		description: 'Slack token',
+		pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g
+	},
+	{
+		// KEY=value in .env files, apiKey: '...' in code and configuration
+		id: 'high-entropy-secret',
+		description: 'High-entropy credential',
+		pattern: /(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|credential|auth)[A-Za-z0-9_.-]*["']?\s*[:=]\s*["'`]?([^\s"'`,;)]{16,})/gi,
+		group: 1,
+		minEntropy: MIN_SECRET_ENTROPY
+	}
+];
+
+/**
+ * Find credentials in text, in order of position. Overlapping findings are
+ * reported once, preferring known token formats over entropy findings.
+ */
+export function scanForSecrets(text: string): SecretMatch[] {
+	const matches: SecretMatch[] = [];
+	for (let chunkStart = 0; ; chunkStart += SCAN_CHUNK_LENGTH - SCAN_CHUNK_OVERLAP) {
+		const chunkEnd = Math.min(text.length, chunkStart + SCAN_CHUNK_LENGTH);
+		if (chunkEnd === text.length) {
+			_scanChunk(text.substring(chunkStart), chunkStart, chunkEnd, matches);
+			break;
+		}
+		// Matches starting in the overlap are found whole in the next chunk
+		_scanChunk(text.substring(chunkStart, chunkEnd), chunkStart, chunkEnd - SCAN_CHUNK_OVERLAP, matches);
+	}
+
+	return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Add the secrets in a chunk of text starting at `offset` whose matches
+ * start before `startLimit` (an offset in the whole text)
+ */
+function _scanChunk(chunk: string, offset: number, startLimit: number, matches: SecretMatch[]): void {
+	for (const rule of SECRET_RULES) {
+		for (const match of chunk.matchAll(rule.pattern)) {
+			if (offset + match.index! >= startLimit) break;
+
+			const secret = rule.group !== undefined ? match[rule.group] : match[0];
+			if (!secret) continue;
+			if (rule.minEntropy !== undefined && (_isReference(secret) || calculateEntropy(secret) < rule.minEntropy)) {
+				continue;
+			}
+
+			const start = offset + match.index! + match[0].lastIndexOf(secret);
+			const end = start + secret.length;
+			if (matches.some(existing => start < existing.end && end > existing.start)) {
+				continue;
+			}
+
+			matches.push({
+				ruleId: rule.id,
+				description: rule.description,
+				start,
+				end,
+				confidence: rule.minEntropy === undefined ? 'high' : 'medium',
+				fingerprint: fingerprintSecret(secret)
+			});
+		}
+	}
+}
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function calculateEntropy(value: string): number {
+	const counts = new Map<string, number>();
+	for (const char of value) {
+		counts.set(char, (counts.get(char) ?? 0) + 1);
+	}
+
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const probability = count / value.length;
+		entropy -= probability * Math.log2(probability);
+	}
+	return entropy;
+}
+
+export function fingerprintSecret(secret: string): string {
+	return createHash('sha256').update(secret).digest('hex').substring(0, 8);
+}
+
+/**
+ * Values that name a secret instead of containing one, such as
+ * process.env.API_KEY, ${TOKEN} or getToken()
+ */
+function _isReference(value: string): boolean {
+	return /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)+$/.test(value)
+		|| value.includes('${')
+		|| value.includes('(');
+}
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DependencyGraphManager } from '@/core/DependencyGraphManager';
+import { Validator, ValidatorOutput, createValidatorOutput } from '@/services/validation/Validator';
+
+/**
+ * DependencyCycleValidator - Warns on imports that close a dependency cycle
+ *
+ * Uses the project dependency graph, so it reflects files as last analyzed
+ * rather than unsaved edits, and is skipped until the graph is built.
+ */
+export class DependencyCycleValidator implements Validator {
+	public readonly id = 'dependencyCycles';
+	public readonly name = 'Dependency cycles';
+
+	constructor(private readonly _dependencyGraphManager: DependencyGraphManager) {}
+
+	public supports(document: vscode.TextDocument): boolean {
+		return document.uri.scheme === 'file' && vscode.workspace.getWorkspaceFolder(document.uri) !== undefined;
+	}
+
+	public async validate(document: vscode.TextDocument, signal: AbortSignal): Promise<ValidatorOutput | null> {
+		if (!this._dependencyGraphManager.isInitialized()) {
+			return null;
+		}
+
+		const relativePath = path.normalize(vscode.workspace.asRelativePath(document.uri, false));
+		const cycles = await this._dependencyGraphManager.findCyclesThrough(relativePath, signal);
+
+		return createValidatorOutput(document, cycles.map(({ lineNumber, cycle }) => {
+			const line = document.lineAt(Math.min(lineNumber, document.lineCount) - 1);
+			return {
+				file: document.uri.fsPath,
+				line: line.lineNumber + 1,
+				column: line.firstNonWhitespaceCharacterIndex + 1,
+				endLine: line.lineNumber + 1,
+				endColumn: line.text.length + 1,
+				message: `Circular dependency: ${cycle.join(' → ')}`,
+				code: 'circular-dependency',
+				severity: 'warning' as const,
+				source: 'dependencyCycles'
+			};
+		}));
+	}
+}
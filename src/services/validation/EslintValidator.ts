@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { ValidationDiagnostic } from '@/types';
+import { Validator, ValidatorOutput, createValidatorOutput } from '@/services/validation/Validator';
+import { TYPESCRIPT_LANGUAGE_IDS } from '@/services/validation/TypeScriptValidator';
+
+/**
+ * The parts of the ESLint Node.js API used here (ESLint 8 and 9)
+ */
+interface ESLintInstance {
+	lintText(code: string, options: { filePath: string }): Promise<Array<{
+		messages: Array<{
+			ruleId: string | null;
+			severity: number;
+			message: string;
+			line?: number;
+			column?: number;
+			endLine?: number;
+			endColumn?: number;
+		}>;
+	}>>;
+	isPathIgnored(filePath: string): Promise<boolean>;
+}
+
+interface ESLintModule {
+	ESLint: new (options: { cwd: string }) => ESLintInstance;
+}
+
+/**
+ * EslintValidator - Lints file contents with the workspace's own ESLint
+ *
+ * ESLint is loaded from the workspace's node_modules so the project's
+ * version, plugins and configuration apply. Workspaces without ESLint, or
+ * without a configuration for it, are reported as unavailable rather than
+ * as errors.
+ */
+export class EslintValidator implements Validator {
+	public readonly id = 'eslint';
+	public readonly name = 'ESLint';
+
+	// Null once loading ESLint failed; undefined until it is (re)loaded
+	private _eslint: ESLintInstance | null | undefined;
+	private _unavailableReason: string | undefined;
+
+	constructor(private readonly _workspaceRoot: string) {}
+
+	public supports(document: vscode.TextDocument): boolean {
+		return document.uri.scheme === 'file' && TYPESCRIPT_LANGUAGE_IDS.includes(document.languageId);
+	}
+
+	/**
+	 * Lint an open document, including unsaved changes
+	 */
+	public async validate(document: vscode.TextDocument): Promise<ValidatorOutput | null> {
+		const findings = await this.lintText(document.uri.fsPath, document.getText());
+		return findings ? createValidatorOutput(document, findings) : null;
+	}
+
+	/**
+	 * Why linting is unavailable, once a lint has been attempted
+	 */
+	public getUnavailableReason(): string | undefined {
+		return this._unavailableReason;
+	}
+
+	/**
+	 * Lint a file's contents, resolving to null when ESLint is unavailable
+	 */
+	public async lintText(fileName: string, text: string): Promise<ValidationDiagnostic[] | null> {
+		const eslint = this._load();
+		if (!eslint) return null;
+
+		try {
+			if (await eslint.isPathIgnored(fileName)) {
+				return [];
+			}
+
+			const [result] = await eslint.lintText(text, { filePath: fileName });
+			this._unavailableReason = undefined;
+			return (result?.messages ?? []).map(message => ({
+				file: fileName,
+				line: message.line ?? 1,
+				column: message.column ?? 1,
+				message: message.message,
+				code: message.ruleId ?? 'eslint',
+				severity: message.severity >= 2 ? 'error' as const : 'warning' as const,
+				source: 'eslint',
+				...(message.endLine !== undefined ? { endLine: message.endLine, endColumn: message.endColumn ?? 1 } : {})
+			}));
+		} catch (error) {
+			// Missing or half-edited configuration surfaces here. ESLint is
+			// reloaded on the next run, so fixing the configuration brings it back.
+			this._unavailableReason = error instanceof Error ? error.message.split('\n')[0] : 'ESLint failed';
+			this._eslint = undefined;
+			console.warn(`EslintValidator: Linting failed, retrying on the next run: ${this._unavailableReason}`);
+			return null;
+		}
+	}
+
+	private _load(): ESLintInstance | null {
+		if (this._eslint !== undefined) {
+			return this._eslint;
+		}
+
+		try {
+			const workspaceRequire = createRequire(path.join(this._workspaceRoot, 'package.json'));
+			const { ESLint } = workspaceRequire('eslint') as ESLintModule;
+			this._eslint = new ESLint({ cwd: this._workspaceRoot });
+		} catch {
+			this._unavailableReason = 'ESLint is not installed in this workspace';
+			this._eslint = null;
+		}
+		return this._eslint;
+	}
+}
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import { ValidationRule, ValidationRuleSchema, ValidationRulesFileSchema } from '@/types';
+import { Validator, ValidatorOutput, createEmptyValidationResult } from '@/services/validation/Validator';
+import { parseJsonWithDiagnostic, zodIssueToDiagnostic } from '@/utils/jsonDiagnostics';
+import { yieldToEventLoop } from '@/utils/async';
+
+// Location of the workspace rules relative to the workspace root
+export const VALIDATION_RULES_FILE_PATH = '.rswe/rules.json';
+
+// Matches reported per rule and document
+const MAX_MATCHES_PER_RULE = 100;
+
+// Characters of a document each rule scans, bounding slow patterns on large files
+const MAX_SCANNED_LENGTH = 200000;
+
+/**
+ * RegexRulesValidator - Project-specific regex rules from .rswe/rules.json
+ *
+ * Each rule reports every match of its pattern in the files its globs
+ * select, with an optional replacement offered as a quick fix. The file is
+ * validated against the versioned schema; invalid rules are reported as
+ * diagnostics on the file and skipped. Rules come from the repository, so
+ * they only run in trusted workspaces.
+ */
+export class RegexRulesValidator implements Validator {
+	public readonly id = 'rules';
+	public readonly name = 'Rules';
+
+	private readonly _diagnostics = vscode.languages.createDiagnosticCollection('rswe-rules');
+	private readonly _disposables: vscode.Disposable[] = [];
+	private _rules: Promise<ValidationRule[]> | null = null;
+
+	constructor(private readonly _folder: vscode.WorkspaceFolder) {
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			new vscode.RelativePattern(_folder, VALIDATION_RULES_FILE_PATH)
+		);
+		const invalidate = () => { this._rules = null; };
+		this._disposables.push(
+			watcher,
+			watcher.onDidCreate(invalidate),
+			watcher.onDidChange(invalidate),
+			watcher.onDidDelete(invalidate)
+		);
+	}
+
+	public supports(document: vscode.TextDocument): boolean {
+		return document.uri.scheme === 'file' && vscode.workspace.getWorkspaceFolder(document.uri) === this._folder;
+	}
+
+	/**
+	 * Check a document against the rules that apply to it. Resolves to null
+	 * when the workspace has no rules or is not trusted.
+	 */
+	public async validate(document: vscode.TextDocument, signal: AbortSignal): Promise<ValidatorOutput | null> {
+		if (!vscode.workspace.isTrusted) {
+			return null;
+		}
+
+		this._rules ??= this._load();
+		const rules = (await this._rules).filter(rule => this._appliesTo(rule, document));
+		if (rules.length === 0) {
+			return null;
+		}
+
+		const result = createEmptyValidationResult();
+		const diagnostics: vscode.Diagnostic[] = [];
+		const text = document.getText().slice(0, MAX_SCANNED_LENGTH);
+
+		for (const rule of rules) {
+			// Lets the time limit stop the check between rules
+			await yieldToEventLoop(signal);
+
+			let count = 0;
+			for (const match of text.matchAll(new RegExp(rule.pattern, `${rule.flags ?? ''}g`))) {
+				if (match[0].length === 0) continue;
+				if (++count > MAX_MATCHES_PER_RULE) break;
+
+				const range = new vscode.Range(
+					document.positionAt(match.index!),
+					document.positionAt(match.index! + match[0].length)
+				);
+				const entry = {
+					id: `${rule.id}-${range.start.line + 1}:${range.start.character + 1}`,
+					message: rule.message,
+					file: document.uri.fsPath,
+					line: range.start.line + 1,
+					column: range.start.character + 1
+				};
+
+				if (rule.severity === 'error') {
+					result.errors.push({ ...entry, severity: 'error' });
+				} else if (rule.severity === 'warning') {
+					result.warnings.push(entry);
+				} else if (rule.fix === undefined) {
+					result.suggestions.push(entry);
+				}
+
+				if (rule.fix !== undefined) {
+					result.suggestions.push({
+						...entry,
+						id: `${entry.id}-fix`,
+						fix: match[0].replace(new RegExp(rule.pattern, rule.flags), rule.fix),
+						endLine: range.end.line + 1,
+						endColumn: range.end.character + 1
+					});
+				}
+
+				const diagnostic = new vscode.Diagnostic(range, rule.message, _toDiagnosticSeverity(rule.severity));
+				diagnostic.source = 'RSWE';
+				diagnostic.code = rule.id;
+				diagnostics.push(diagnostic);
+			}
+		}
+
+		result.isValid = result.errors.length === 0;
+		return { result, diagnostics };
+	}
+
+	public dispose(): void {
+		this._disposables.forEach(disposable => disposable.dispose());
+		this._diagnostics.dispose();
+	}
+
+	/**
+	 * Read the rules file, reporting schema problems on it. Invalid rules are
+	 * dropped; a missing file yields no rules.
+	 */
+	private async _load(): Promise<ValidationRule[]> {
+		const uri = vscode.Uri.joinPath(this._folder.uri, ...VALIDATION_RULES_FILE_PATH.split('/'));
+
+		let text: string;
+		try {
+			text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+		} catch {
+			this._diagnostics.delete(uri);
+			return [];
+		}
+
+		const parsedJson = parseJsonWithDiagnostic(text);
+		if ('diagnostic' in parsedJson) {
+			this._diagnostics.set(uri, [parsedJson.diagnostic]);
+			return [];
+		}
+
+		const parsed = ValidationRulesFileSchema.safeParse(parsedJson.json);
+		if (parsed.success) {
+			this._diagnostics.set(uri, []);
+			return parsed.data.rules;
+		}
+
+		this._diagnostics.set(uri, parsed.error.issues.map(issue => zodIssueToDiagnostic(text, issue)));
+
+		// Problems outside individual rules (version, unknown keys) invalidate the whole file
+		if (parsed.error.issues.some(issue => issue.path[0] !== 'rules' || issue.path.length < 2)) {
+			return [];
+		}
+
+		const rawRules = (parsedJson.json as { rules: unknown[] }).rules;
+		const rules: ValidationRule[] = [];
+		for (const raw of rawRules) {
+			const rule = ValidationRuleSchema.safeParse(raw);
+			if (rule.success) {
+				rules.push(rule.data);
+			}
+		}
+		console.warn(`RegexRulesValidator: Skipped ${rawRules.length - rules.length} invalid rules in ${VALIDATION_RULES_FILE_PATH}`);
+		return rules;
+	}
+
+	private _appliesTo(rule: ValidationRule, document: vscode.TextDocument): boolean {
+		const matches = (glob: string) => vscode.languages.match(
+			{ pattern: new vscode.RelativePattern(this._folder, glob) },
+			document
+		) > 0;
+
+		if (rule.files && !rule.files.some(matches)) {
+			return false;
+		}
+		return !rule.exclude?.some(matches);
+	}
+}
+
+function _toDiagnosticSeverity(severity: ValidationRule['severity']): vscode.DiagnosticSeverity {
+	switch (severity) {
+		case 'error': return vscode.DiagnosticSeverity.Error;
+		case 'warning': return vscode.DiagnosticSeverity.Warning;
+		default: return vscode.DiagnosticSeverity.Information;
+	}
+}
@@ -0,0 +1,36 @@
+import * as vscode from 'vscode';
+import { scanForSecrets } from '@/services/security/SecretScanner';
+import { Validator, ValidatorOutput, createValidatorOutput } from '@/services/validation/Validator';
+
+/**
+ * SecretValidator - Reports credentials committed to source and config files
+ *
+ * Known token formats (AWS, GitHub, private keys...) are errors; other
+ * high-entropy values assigned to credential-like names are warnings.
+ */
+export class SecretValidator implements Validator {
+	public readonly id = 'secrets';
+	public readonly name = 'Secrets';
+
+	public supports(document: vscode.TextDocument): boolean {
+		return document.uri.scheme === 'file';
+	}
+
+	public async validate(document: vscode.TextDocument): Promise<ValidatorOutput> {
+		return createValidatorOutput(document, scanForSecrets(document.getText()).map(match => {
+			const start = document.positionAt(match.start);
+			const end = document.positionAt(match.end);
+			return {
+				file: document.uri.fsPath,
+				line: start.line + 1,
+				column: start.character + 1,
+				endLine: end.line + 1,
+				endColumn: end.character + 1,
+				message: `${match.description} in source (fingerprint ${match.fingerprint}). Move it to a secret store or environment variable.`,
+				code: match.ruleId,
+				severity: match.confidence === 'high' ? 'error' as const : 'warning' as const,
+				source: 'secrets'
+			};
+		}));
+	}
+}
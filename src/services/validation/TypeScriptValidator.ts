@@ -0,0 +1,397 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ValidationDiagnostic, ValidationError, ValidationResult, ValidationSuggestion, ValidationWarning } from '@/types';
+import { Validator, ValidatorOutput } from '@/services/validation/Validator';
+
+// Languages checked by the TypeScript compiler
+export const TYPESCRIPT_LANGUAGE_IDS = ['typescript', 'typescriptreact', 'javascript', 'javascriptreact'];
+
+// Errors per document for which compiler quick fixes are looked up
+const MAX_FIX_LOOKUPS = 10;
+
+// Options for files that are not covered by any tsconfig.json or jsconfig.json
+const INFERRED_COMPILER_OPTIONS: ts.CompilerOptions = {
+	allowJs: true,
+	target: ts.ScriptTarget.ES2020,
+	module: ts.ModuleKind.CommonJS,
+	moduleResolution: ts.ModuleResolutionKind.Node10,
+	jsx: ts.JsxEmit.Preserve,
+	esModuleInterop: true,
+	skipLibCheck: true
+};
+
+/**
+ * A language service for one tsconfig.json (or the inferred project)
+ */
+interface TypeScriptProject {
+	configPath: string | undefined;
+	configMtime: number;
+	options: ts.CompilerOptions;
+	rootFileNames: Set<string>;
+	service: ts.LanguageService;
+	// The service's latest program and the version it was given
+	program: ts.Program | undefined;
+	programVersion: number;
+}
+
+/**
+ * TypeScriptValidator - Compiler diagnostics for TS/JS documents
+ *
+ * Type-checks documents with the TypeScript language service using the
+ * nearest tsconfig.json (or jsconfig.json), reading unsaved editor contents
+ * over the files on disk. Results are cached per document version and
+ * program version, so edits to imported files are picked up.
+ */
+export class TypeScriptValidator implements Validator {
+	public readonly id = 'typescript';
+	public readonly name = 'TypeScript';
+
+	private readonly _projects = new Map<string, TypeScriptProject>();
+	private readonly _results = new Map<string, { version: number; programVersion: number; output: ValidatorOutput }>();
+	// Versions handed out to programs, unique across projects
+	private _programVersions = 0;
+	private readonly _disposables: vscode.Disposable[] = [];
+	// Unsaved file contents that take precedence over editors and disk during checkFiles
+	private _overlay: ReadonlyMap<string, string> | null = null;
+	private _overlayGeneration = 0;
+	// Date.now() time after which type-checking in validate is cancelled
+	private _deadline: number | undefined;
+
+	constructor() {
+		this._disposables.push(
+			vscode.workspace.onDidCloseTextDocument(document => {
+				this._results.delete(document.uri.toString());
+			})
+		);
+	}
+
+	/**
+	 * Whether the document can be checked by this validator
+	 */
+	public supports(document: vscode.TextDocument): boolean {
+		return document.uri.scheme === 'file' && TYPESCRIPT_LANGUAGE_IDS.includes(document.languageId);
+	}
+
+	/**
+	 * Type-check a document. Past the deadline the compiler stops between
+	 * declarations and this throws its OperationCanceledException.
+	 */
+	public async validate(document: vscode.TextDocument, _signal?: AbortSignal, deadline?: number): Promise<ValidatorOutput> {
+		const key = document.uri.toString();
+		const fileName = path.resolve(document.uri.fsPath);
+		const project = this._getProject(fileName);
+		project.rootFileNames.add(fileName);
+
+		const programVersion = this._getProgramVersion(project);
+		const cached = this._results.get(key);
+		if (cached && cached.version === document.version && cached.programVersion === programVersion) {
+			return cached.output;
+		}
+
+		let tsDiagnostics: ts.Diagnostic[];
+		this._deadline = deadline;
+		try {
+			tsDiagnostics = [
+				...project.service.getSyntacticDiagnostics(fileName),
+				...project.service.getSemanticDiagnostics(fileName)
+			];
+		} finally {
+			this._deadline = undefined;
+		}
+
+		const errors: ValidationError[] = [];
+		const warnings: ValidationWarning[] = [];
+		const suggestions: ValidationSuggestion[] = [];
+		const diagnostics: vscode.Diagnostic[] = [];
+
+		for (const tsDiagnostic of tsDiagnostics) {
+			const start = tsDiagnostic.start ?? 0;
+			const range = new vscode.Range(
+				document.positionAt(start),
+				document.positionAt(start + (tsDiagnostic.length ?? 0))
+			);
+			const message = ts.flattenDiagnosticMessageText(tsDiagnostic.messageText, '\n');
+			const entry = {
+				id: `TS${tsDiagnostic.code}-${range.start.line + 1}:${range.start.character + 1}`,
+				message,
+				file: document.uri.fsPath,
+				line: range.start.line + 1,
+				column: range.start.character + 1
+			};
+
+			const isError = tsDiagnostic.category === ts.DiagnosticCategory.Error;
+			if (isError) {
+				errors.push({ ...entry, severity: 'error' });
+				if (errors.length <= MAX_FIX_LOOKUPS) {
+					suggestions.push(...this._getCodeFixes(project, document, tsDiagnostic));
+				}
+			} else {
+				warnings.push(entry);
+			}
+
+			const diagnostic = new vscode.Diagnostic(
+				range,
+				message,
+				isError ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+			);
+			diagnostic.source = 'RSWE';
+			diagnostic.code = `TS${tsDiagnostic.code}`;
+			diagnostics.push(diagnostic);
+		}
+
+		const result: ValidationResult = {
+			isValid: errors.length === 0,
+			errors,
+			warnings,
+			suggestions
+		};
+		const output = { result, diagnostics };
+		this._results.set(key, { version: document.version, programVersion, output });
+		return output;
+	}
+
+	/**
+	 * Type-check files as they would be with the overlay contents written,
+	 * without publishing anything. Overlay keys are absolute paths; files
+	 * that do not exist yet are created virtually.
+	 */
+	public checkFiles(fileNames: string[], overlay: ReadonlyMap<string, string> = new Map()): ValidationDiagnostic[] {
+		this._overlay = new Map([...overlay].map(([fileName, text]) => [path.resolve(fileName), text]));
+		this._overlayGeneration++;
+		const added: Array<{ project: TypeScriptProject; fileName: string }> = [];
+
+		try {
+			const diagnostics: ValidationDiagnostic[] = [];
+			for (const fileName of fileNames.map(name => path.resolve(name))) {
+				const project = this._getProject(fileName);
+				if (!project.rootFileNames.has(fileName)) {
+					project.rootFileNames.add(fileName);
+					added.push({ project, fileName });
+				}
+
+				const sourceFile = project.service.getProgram()?.getSourceFile(fileName);
+				if (!sourceFile) continue;
+
+				const tsDiagnostics = [
+					...project.service.getSyntacticDiagnostics(fileName),
+					...project.service.getSemanticDiagnostics(fileName)
+				];
+				for (const tsDiagnostic of tsDiagnostics) {
+					const position = sourceFile.getLineAndCharacterOfPosition(tsDiagnostic.start ?? 0);
+					diagnostics.push({
+						file: fileName,
+						line: position.line + 1,
+						column: position.character + 1,
+						message: ts.flattenDiagnosticMessageText(tsDiagnostic.messageText, '\n'),
+						code: `TS${tsDiagnostic.code}`,
+						severity: tsDiagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+						source: 'typescript'
+					});
+				}
+			}
+			return diagnostics;
+		} finally {
+			this._overlay = null;
+			// Files that only existed in the overlay must not linger in the project
+			for (const { project, fileName } of added) {
+				if (!ts.sys.fileExists(fileName)) {
+					project.rootFileNames.delete(fileName);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Find project files that import any of the given files, so edits that
+	 * break their importers are caught. At most `limit` files are returned.
+	 */
+	public findImporters(fileNames: string[], limit: number): string[] {
+		const targets = new Set(fileNames.map(name => path.resolve(name)));
+		const importers = new Set<string>();
+
+		for (const fileName of targets) {
+			const project = this._getProject(fileName);
+			const program = project.service.getProgram();
+			if (!program) continue;
+
+			for (const sourceFile of program.getSourceFiles()) {
+				if (importers.size >= limit) return [...importers];
+
+				const candidate = path.resolve(sourceFile.fileName);
+				if (sourceFile.isDeclarationFile || candidate.includes(`${path.sep}node_modules${path.sep}`) || targets.has(candidate)) {
+					continue;
+				}
+
+				const { importedFiles } = ts.preProcessFile(sourceFile.text, true, true);
+				const importsTarget = importedFiles.some(imported => {
+					const resolved = ts.resolveModuleName(imported.fileName, candidate, project.options, ts.sys).resolvedModule;
+					return resolved !== undefined && targets.has(path.resolve(resolved.resolvedFileName));
+				});
+				if (importsTarget) {
+					importers.add(candidate);
+				}
+			}
+		}
+
+		return [...importers];
+	}
+
+	/**
+	 * Forget cached results
+	 */
+	public clear(): void {
+		this._results.clear();
+	}
+
+	public dispose(): void {
+		this._disposables.forEach(disposable => disposable.dispose());
+		this._projects.forEach(project => project.service.dispose());
+		this._projects.clear();
+		this._results.clear();
+	}
+
+	/**
+	 * Version of the project's program, which the language service rebuilds
+	 * when any file it covers changes
+	 */
+	private _getProgramVersion(project: TypeScriptProject): number {
+		const program = project.service.getProgram();
+		if (program !== project.program) {
+			project.program = program;
+			project.programVersion = ++this._programVersions;
+		}
+		return project.programVersion;
+	}
+
+	/**
+	 * Get the language service for the config that covers a file, reloading
+	 * it when the config file has changed on disk
+	 */
+	private _getProject(fileName: string): TypeScriptProject {
+		const directory = path.dirname(fileName);
+		const configPath = ts.findConfigFile(directory, ts.sys.fileExists, 'tsconfig.json')
+			?? ts.findConfigFile(directory, ts.sys.fileExists, 'jsconfig.json');
+		const key = configPath ?? '';
+		const configMtime = configPath ? ts.sys.getModifiedTime?.(configPath)?.getTime() ?? 0 : 0;
+
+		const existing = this._projects.get(key);
+		if (existing && existing.configMtime === configMtime) {
+			return existing;
+		}
+		existing?.service.dispose();
+
+		const project = this._createProject(configPath, configMtime);
+		this._projects.set(key, project);
+		return project;
+	}
+
+	private _createProject(configPath: string | undefined, configMtime: number): TypeScriptProject {
+		let options = INFERRED_COMPILER_OPTIONS;
+		let fileNames: string[] = [];
+		const currentDirectory = configPath
+			? path.dirname(configPath)
+			: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
+
+		if (configPath) {
+			const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+			if (error) {
+				console.warn(`TypeScriptValidator: Failed to read ${configPath}:`, ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+			} else {
+				const parsed = ts.parseJsonConfigFileContent(config, ts.sys, currentDirectory, undefined, configPath);
+				options = { ...parsed.options, noEmit: true };
+				fileNames = parsed.fileNames.map(fileName => path.resolve(fileName));
+			}
+		}
+
+		const rootFileNames = new Set(fileNames);
+		const host: ts.LanguageServiceHost = {
+			getCompilationSettings: () => options,
+			getScriptFileNames: () => [...rootFileNames],
+			getScriptVersion: fileName => {
+				if (this._overlay?.has(path.resolve(fileName))) return `overlay-${this._overlayGeneration}`;
+				const document = this._findOpenDocument(fileName);
+				if (document) return `editor-${document.version}`;
+				return String(ts.sys.getModifiedTime?.(fileName)?.getTime() ?? 0);
+			},
+			getScriptSnapshot: fileName => {
+				const text = this._overlay?.get(path.resolve(fileName))
+					?? this._findOpenDocument(fileName)?.getText()
+					?? ts.sys.readFile(fileName);
+				return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+			},
+			getCurrentDirectory: () => currentDirectory,
+			getDefaultLibFileName: compilerOptions => ts.getDefaultLibFilePath(compilerOptions),
+			fileExists: fileName => this._overlay?.has(path.resolve(fileName)) === true || ts.sys.fileExists(fileName),
+			readFile: fileName => this._overlay?.get(path.resolve(fileName)) ?? ts.sys.readFile(fileName),
+			readDirectory: ts.sys.readDirectory,
+			directoryExists: ts.sys.directoryExists,
+			getDirectories: ts.sys.getDirectories,
+			getCancellationToken: () => ({
+				isCancellationRequested: () => this._deadline !== undefined && Date.now() > this._deadline
+			})
+		};
+
+		console.log(`📐 TypeScriptValidator: Loaded ${configPath ?? 'inferred project'} (${rootFileNames.size} files)`);
+		return {
+			configPath,
+			configMtime,
+			options,
+			rootFileNames,
+			service: ts.createLanguageService(host, ts.createDocumentRegistry()),
+			program: undefined,
+			programVersion: 0
+		};
+	}
+
+	/**
+	 * Turn compiler quick fixes that make a single change to the document into suggestions
+	 */
+	private _getCodeFixes(project: TypeScriptProject, document: vscode.TextDocument, tsDiagnostic: ts.Diagnostic): ValidationSuggestion[] {
+		const fileName = path.resolve(document.uri.fsPath);
+		const start = tsDiagnostic.start ?? 0;
+
+		let fixes: readonly ts.CodeFixAction[];
+		try {
+			fixes = project.service.getCodeFixesAtPosition(
+				fileName,
+				start,
+				start + (tsDiagnostic.length ?? 0),
+				[tsDiagnostic.code],
+				ts.getDefaultFormatCodeSettings(),
+				{}
+			);
+		} catch (error) {
+			console.warn('TypeScriptValidator: Code fix lookup failed:', error);
+			return [];
+		}
+
+		return fixes.flatMap(fix => {
+			const [change] = fix.changes;
+			const textChange = change?.textChanges[0];
+			if (fix.changes.length !== 1 || change!.textChanges.length !== 1 || !textChange || path.resolve(change!.fileName) !== fileName) {
+				return [];
+			}
+
+			const fixStart = document.positionAt(textChange.span.start);
+			const fixEnd = document.positionAt(textChange.span.start + textChange.span.length);
+			return [{
+				id: `TS${tsDiagnostic.code}-${fix.fixName}-${fixStart.line + 1}:${fixStart.character + 1}`,
+				message: fix.description,
+				file: document.uri.fsPath,
+				line: fixStart.line + 1,
+				column: fixStart.character + 1,
+				fix: textChange.newText,
+				endLine: fixEnd.line + 1,
+				endColumn: fixEnd.character + 1
+			}];
+		});
+	}
+
+	private _findOpenDocument(fileName: string): vscode.TextDocument | undefined {
+		const resolved = path.resolve(fileName);
+		return vscode.workspace.textDocuments.find(
+			document => document.uri.scheme === 'file' && path.resolve(document.uri.fsPath) === resolved
+		);
+	}
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+import { ValidationDiagnostic, ValidationResult } from '@/types';
+
+/**
+ * What a validator found in one document
+ */
+export interface ValidatorOutput {
+	result: ValidationResult;
+	diagnostics: vscode.Diagnostic[];
+}
+
+/**
+ * A source of validation results plugged into the ValidatorRegistry
+ */
+export interface Validator {
+	// Key in rswe.validation.validators
+	readonly id: string;
+	readonly name: string;
+	supports(document: vscode.TextDocument): boolean;
+	/**
+	 * Check a document. Resolves to null when the validator cannot run, e.g.
+	 * because its tool is not installed. `signal` aborts when time is up, at
+	 * `deadline` (a Date.now() time), but only once the validator yields to
+	 * the event loop; synchronous work has to check the deadline itself.
+	 */
+	validate(document: vscode.TextDocument, signal: AbortSignal, deadline: number): Promise<ValidatorOutput | null>;
+	dispose?(): void;
+}
+
+export function createEmptyValidationResult(): ValidationResult {
+	return { isValid: true, errors: [], warnings: [], suggestions: [] };
+}
+
+/**
+ * Build validator output from findings with positions (1-based) in the document
+ */
+export function createValidatorOutput(document: vscode.TextDocument, findings: ValidationDiagnostic[]): ValidatorOutput {
+	const result = createEmptyValidationResult();
+	const diagnostics: vscode.Diagnostic[] = [];
+
+	for (const finding of findings) {
+		const entry = {
+			id: `${finding.code}-${finding.line}:${finding.column}`,
+			message: finding.message,
+			file: document.uri.fsPath,
+			line: finding.line,
+			column: finding.column
+		};
+		if (finding.severity === 'error') {
+			result.errors.push({ ...entry, severity: 'error' });
+		} else {
+			result.warnings.push(entry);
+		}
+
+		const start = document.validatePosition(new vscode.Position(finding.line - 1, finding.column - 1));
+		const end = finding.endLine !== undefined
+			? document.validatePosition(new vscode.Position(finding.endLine - 1, (finding.endColumn ?? 1) - 1))
+			: document.getWordRangeAtPosition(start)?.end ?? start.translate(0, 1);
+		const diagnostic = new vscode.Diagnostic(
+			new vscode.Range(start, end.isBefore(start) ? start : end),
+			finding.message,
+			finding.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+		);
+		diagnostic.source = 'RSWE';
+		diagnostic.code = finding.code;
+		diagnostics.push(diagnostic);
+	}
+
+	result.isValid = result.errors.length === 0;
+	return { result, diagnostics };
+}
@@ -2,6 +2,79 @@ import * as vscode from 'vscode';
 import { z } from 'zod';
 
 // Configuration schemas
+export const MCPServerConfigSchema = z.object({
+  name: z.string().optional(),
+  transport: z.enum(['stdio', 'http', 'sse']).default('stdio'),
+  command: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  cwd: z.string().optional(),
+  url: z.string().optional(),
+  headers: z.record(z.string()).optional()
+});
+
+export type MCPServerConfig = z.infer<typeof MCPServerConfigSchema>;
+
+// Current version of the .rswe/mcp.json format
+export const MCP_CONFIG_FILE_VERSION = 1;
+
+// Server entry in .rswe/mcp.json; unknown keys are rejected to catch typos
+export const MCPConfigFileServerSchema = MCPServerConfigSchema.extend({
+  disabled: z.boolean().optional()
+}).strict().superRefine((server, ctx) => {
+  if (server.transport === 'stdio' && !server.command) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['command'], message: 'stdio servers require a "command"' });
+  }
+  if (server.transport !== 'stdio' && !server.url) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: `${server.transport} servers require a "url"` });
+  }
+});
+
+export const MCPConfigFileSchema = z.object({
+  version: z.literal(MCP_CONFIG_FILE_VERSION, {
+    errorMap: () => ({ message: `Unsupported version; expected ${MCP_CONFIG_FILE_VERSION}` })
+  }),
+  servers: z.record(MCPConfigFileServerSchema).default({})
+}).strict();
+
+export type MCPConfigFile = z.infer<typeof MCPConfigFileSchema>;
+
+// Current version of the .rswe/rules.json format
+export const VALIDATION_RULES_FILE_VERSION = 1;
+
+// Regex rule in .rswe/rules.json, checked against every matching file
+export const ValidationRuleSchema = z.object({
+  id: z.string().min(1),
+  pattern: z.string().min(1),
+  flags: z.string().regex(/^[imsu]*$/, 'flags may only contain i, m, s and u').optional(),
+  message: z.string().min(1),
+  severity: z.enum(['error', 'warning', 'info']).default('warning'),
+  // Workspace-relative globs the rule applies to (default: all files)
+  files: z.array(z.string()).optional(),
+  exclude: z.array(z.string()).optional(),
+  // Replacement for the match; $1, $2... refer to capture groups
+  fix: z.string().optional()
+}).strict().superRefine((rule, ctx) => {
+  try {
+    new RegExp(rule.pattern, rule.flags);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pattern'],
+      message: error instanceof Error ? error.message : 'Invalid regular expression'
+    });
+  }
+});
+
+export const ValidationRulesFileSchema = z.object({
+  version: z.literal(VALIDATION_RULES_FILE_VERSION, {
+    errorMap: () => ({ message: `Unsupported version; expected ${VALIDATION_RULES_FILE_VERSION}` })
+  }),
+  rules: z.array(ValidationRuleSchema).default([])
+}).strict();
+
+export type ValidationRule = z.infer<typeof ValidationRuleSchema>;
+
 export const RSWEConfigSchema = z.object({
   anthropic: z.object({
     apiKey: z.string().min(1),
@@ -12,14 +85,50 @@ export const RSWEConfigSchema = z.object({
     enableSemanticSearch: z.boolean()
   }),
   validation: z.object({
-    enablePreExecution: z.boolean()
+    enablePreExecution: z.boolean(),
+    autoFix: z.boolean(),
+    maxAutoFixAttempts: z.number().int().min(0).max(10),
+    timeoutMs: z.number().int().min(100),
+    validators: z.record(z.object({
+      enabled: z.boolean().optional(),
+      timeoutMs: z.number().int().min(100).optional()
+    }))
   }),
   mcp: z.object({
-    enabledServers: z.array(z.string())
+    enabledServers: z.array(z.string()),
+    servers: z.record(MCPServerConfigSchema)
+  }),
+  mcpServer: z.object({
+    enabled: z.boolean(),
+    host: z.string().min(1),
+    port: z.number().int().min(0).max(65535),
+    allowedAddresses: z.array(z.string())
+  }),
+  search: z.object({
+    semanticWeight: z.number().min(0).max(1),
+    embeddings: z.object({
+      provider: z.enum(['local', 'remote']),
+      url: z.string(),
+      model: z.string(),
+      apiKey: z.string()
+    })
+  }),
+  security: z.object({
+    redactSecrets: z.boolean()
+  }),
+  tools: z.object({
+    maxCallsPerTurn: z.number().min(0).max(100)
+  }),
+  prompt: z.object({
+    maxBaseChars: z.number().min(0),
+    maxProjectChars: z.number().min(0),
+    maxDependencyChars: z.number().min(0),
+    maxEditorChars: z.number().min(0)
   })
 });
 
 export type RSWEConfig = z.infer<typeof RSWEConfigSchema>;
+export type PromptSectionCaps = RSWEConfig['prompt'];
 
 // Chat message types
 export interface ChatMessage {
@@ -31,9 +140,30 @@ export interface ChatMessage {
     tokens?: number;
     model?: string;
     error?: string;
+    attachments?: ChatAttachment[];
   };
 }
 
+// Content attached to a chat message as extra context, e.g. an MCP resource
+export interface ChatAttachment {
+  id: string;
+  label: string;
+  source: string;
+  content: string;
+}
+
+// Tool activity streamed to the chat while Claude calls tools
+export interface ToolActivity {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+  status: 'awaiting-approval' | 'running' | 'completed' | 'error' | 'denied';
+  result?: string;
+}
+
+// User's answer to a tool call that needs approval
+export type ToolApprovalDecision = 'allow-once' | 'allow-always' | 'deny';
+
 export interface ChatSession {
   id: string;
   title: string;
@@ -87,15 +217,39 @@ export interface MCPServer {
   status: 'connected' | 'disconnected' | 'error';
   url?: string;
   command?: string;
+  args?: string[];
   transport: 'stdio' | 'http' | 'sse';
   tools: MCPTool[];
+  resources: MCPResource[];
+  prompts: MCPPrompt[];
   lastPing?: Date;
+  error?: string;
 }
 
 export interface MCPTool {
   name: string;
   description: string;
   parameters: Record<string, any>;
+  inputSchema?: Record<string, any>;
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments: MCPPromptArgument[];
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
 }
 
 // Webview message types
@@ -105,12 +259,15 @@ export interface WebviewMessage {
 }
 
 export interface ChatWebviewMessage extends WebviewMessage {
-  type: 'chat.send' | 'chat.clear' | 'chat.export' | 'chat.import' | 'chat.new' | 'chat.settings' | 'chat.history' | 'chat.save' | 'project.analyze';
+  type: 'chat.send' | 'chat.clear' | 'chat.export' | 'chat.import' | 'chat.new' | 'chat.settings' | 'chat.history' | 'chat.save' | 'chat.toolApproval' | 'chat.removeAttachment' | 'project.analyze';
   payload: {
     message?: string;
     sessionId?: string;
     session?: ChatSession;
     data?: any;
+    toolCallId?: string;
+    decision?: ToolApprovalDecision;
+    attachmentId?: string;
   };
 }
 
@@ -133,6 +290,16 @@ export interface ValidationResult {
   errors: ValidationError[];
   warnings: ValidationWarning[];
   suggestions: ValidationSuggestion[];
+  validatorRuns?: ValidatorRun[];
+}
+
+// Outcome and runtime of one validator during validateCode
+export interface ValidatorRun {
+  id: string;
+  name: string;
+  status: 'ok' | 'skipped' | 'timeout' | 'error';
+  durationMs: number;
+  message?: string;
 }
 
 export interface ValidationError {
@@ -152,15 +319,53 @@ export interface ValidationWarning {
   column: number;
 }
 
+// A compiler or linter finding in a file that may not be open in an editor
+export interface ValidationDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  code: string;
+  severity: 'error' | 'warning';
+  source: string;
+  endLine?: number;
+  endColumn?: number;
+}
+
 export interface ValidationSuggestion {
   id: string;
   message: string;
   file: string;
   line: number;
   column: number;
+  // Replacement text for line:column up to endLine:endColumn (the whole line without an end)
   fix?: string;
+  endLine?: number;
+  endColumn?: number;
 }
 
+// AI code review output, as returned by the report_review tool
+export const CODE_REVIEW_CATEGORIES = ['bug', 'security', 'performance', 'maintainability', 'style', 'testing'] as const;
+
+export const CodeReviewIssueSchema = z.object({
+  file: z.string().min(1),
+  category: z.enum(CODE_REVIEW_CATEGORIES),
+  severity: z.enum(['error', 'warning', 'info']),
+  startLine: z.number().int().min(1),
+  endLine: z.number().int().min(1),
+  title: z.string().min(1),
+  explanation: z.string().min(1),
+  suggestedFix: z.string().optional()
+}).refine(issue => issue.endLine >= issue.startLine, { message: 'endLine must not be before startLine', path: ['endLine'] });
+
+// Issues are parsed one by one so a malformed entry does not discard the whole review
+export const CodeReviewSchema = z.object({
+  summary: z.string(),
+  issues: z.array(z.unknown())
+});
+
+export type CodeReviewIssue = z.infer<typeof CodeReviewIssueSchema>;
+
 // Event types
 export interface RSWEEvent<T = any> {
   type: string;
@@ -203,9 +408,17 @@ export class MCPError extends RSWEError {
   }
 }
 
-export class ValidationError extends RSWEError {
+// Named apart from the ValidationError entry interface so the two do not merge
+export class CodeValidationError extends RSWEError {
   constructor(message: string, context?: Record<string, any>) {
     super(message, 'VALIDATION_ERROR', context);
-    this.name = 'ValidationError';
+    this.name = 'CodeValidationError';
+  }
+}
+
+export class SearchQueryError extends RSWEError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 'SEARCH_QUERY_ERROR', context);
+    this.name = 'SearchQueryError';
   }
 }
@@ -0,0 +1,8 @@
+/**
+ * Let timers and I/O run before continuing long synchronous work, then stop
+ * with the signal's reason if it was aborted in the meantime
+ */
+export async function yieldToEventLoop(signal?: AbortSignal): Promise<void> {
+	await new Promise<void>(resolve => setImmediate(resolve));
+	signal?.throwIfAborted();
+}
@@ -0,0 +1,91 @@
+/**
+ * Split text into lowercase words, breaking identifiers at camelCase,
+ * PascalCase, snake_case, kebab-case and digit boundaries:
+ * "parseHTTPResponse_v2" -> ["parse", "http", "response", "v", "2"]
+ */
+export function splitIdentifiers(text: string): string[] {
+	return text
+		.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+		.replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+		.replace(/([a-zA-Z])([0-9])|([0-9])([a-zA-Z])/g, '$1$3 $2$4')
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(word => word.length > 0);
+}
+
+// Words too common in questions and code to distinguish one piece of code from another
+export const STOPWORDS: ReadonlySet<string> = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'is',
+	'it', 'of', 'on', 'or', 'the', 'this', 'that', 'to', 'we', 'what', 'when', 'where', 'which', 'who', 'with',
+	'const', 'let', 'var', 'return', 'function', 'new', 'self', 'def', 'public', 'private', 'protected',
+	'static', 'void', 'export', 'import'
+]);
+
+/**
+ * Search terms for text: identifier-split words without stopwords and
+ * single characters, stemmed so that word variants match
+ */
+export function tokenizeForSearch(text: string): string[] {
+	return splitIdentifiers(text)
+		.filter(word => word.length > 1 && !STOPWORDS.has(word))
+		.map(stemWord);
+}
+
+/**
+ * Reduce an English word to a stem with suffix rules after the Porter
+ * stemmer, so that variants share one term: requests -> request,
+ * retrying/retried/retries -> retri, validation/validator -> valid.
+ * Stems are for matching, not for display.
+ */
+export function stemWord(word: string): string {
+	if (word.length <= 3 || /\d/.test(word)) return word;
+
+	// Plurals
+	let stem = word;
+	if (stem.endsWith('sses')) stem = stem.slice(0, -2);
+	else if (stem.endsWith('ies')) stem = stem.slice(0, -3) + 'i';
+	else if (/[^su]s$/.test(stem) && !stem.endsWith('is')) stem = stem.slice(0, -1);
+
+	// Past tense and gerunds
+	const inflection = ['ing', 'ed'].find(suffix => stem.endsWith(suffix) && /[aeiouy]/.test(stem.slice(0, -suffix.length)));
+	if (inflection) {
+		stem = stem.slice(0, -inflection.length);
+		if (/(at|bl|iz)$/.test(stem)) stem += 'e';
+		else if (/([^aeiouylsz])\1$/.test(stem)) stem = stem.slice(0, -1);
+	}
+	if (stem.endsWith('y') && /[aeiou]/.test(stem.slice(0, -1))) {
+		stem = stem.slice(0, -1) + 'i';
+	}
+
+	// Derivational suffixes, which can stack: validation -> validate -> valid
+	for (let pass = 0; pass < 3; pass++) {
+		const rule = DERIVATIONAL_SUFFIXES.find(([suffix]) => stem.endsWith(suffix));
+		if (!rule) break;
+		const [suffix, replacement, minMeasure] = rule;
+		const base = stem.slice(0, -suffix.length);
+		if (_measure(base) < minMeasure) break;
+		stem = base + replacement;
+	}
+
+	// A trailing e is noise once other suffixes are gone: parse/parser -> pars
+	if (stem.endsWith('e') && _measure(stem.slice(0, -1)) > 0) {
+		stem = stem.slice(0, -1);
+	}
+	return stem;
+}
+
+// Suffix, replacement and the minimum measure of what remains
+const DERIVATIONAL_SUFFIXES: Array<[string, string, number]> = [
+	['ational', 'ate', 1], ['tional', 'tion', 1], ['ization', 'ize', 1], ['ation', 'ate', 1], ['tion', 't', 1],
+	['ator', 'ate', 1], ['izer', 'ize', 1],
+	['fulness', 'ful', 1], ['iveness', 'ive', 1], ['ousness', 'ous', 1], ['iti', '', 1], ['ement', '', 2],
+	['ment', '', 2], ['ness', '', 1], ['ible', '', 2], ['able', '', 2], ['ance', '', 2], ['ence', '', 2],
+	['ize', '', 2], ['ate', '', 2], ['ful', '', 1], ['ous', '', 2], ['ive', '', 2], ['er', '', 1]
+];
+
+/**
+ * Number of vowel-consonant sequences in a stem (Porter's m)
+ */
+function _measure(stem: string): number {
+	return (stem.replace(/^[^aeiou]+/, '').match(/[aeiouy]+[^aeiouy]+/g) ?? []).length;
+}
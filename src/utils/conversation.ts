@@ -0,0 +1,155 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { ChatAttachment, ChatMessage } from '@/types';
+
+/**
+ * Context window sizes (in tokens) of the supported Claude models
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+	'claude-3-5-sonnet-latest': 200000,
+	'claude-3-5-haiku-latest': 200000,
+	'claude-3-opus-latest': 200000,
+	'claude-sonnet-4-20250514': 200000
+};
+
+const DEFAULT_CONTEXT_WINDOW = 200000;
+
+// Characters kept from each dropped turn when summarizing older history
+const SUMMARY_EXCERPT_LENGTH = 160;
+
+// Upper bound for the summary of dropped turns
+const MAX_SUMMARY_TOKENS = 1024;
+
+/**
+ * Rough token estimate (~4 characters per token for English text and code)
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Rough token estimate of messages, counting structured content (tool calls
+ * and results) by its JSON
+ */
+export function estimateMessageTokens(messages: Anthropic.MessageParam[]): number {
+	return messages.reduce((total, message) => total + estimateTokens(
+		typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+	), 0);
+}
+
+/**
+ * Prepend attached context (e.g. MCP resources) to a user message
+ */
+export function formatMessageWithAttachments(content: string, attachments: ChatAttachment[] = []): string {
+	if (attachments.length === 0) {
+		return content;
+	}
+
+	const blocks = attachments.map(attachment =>
+		`<attachment name="${attachment.label}" source="${attachment.source}">\n${attachment.content}\n</attachment>`
+	);
+	return `${blocks.join('\n\n')}\n\n${content}`;
+}
+
+/**
+ * Get the context window size for a model
+ */
+export function getContextWindow(model: string): number {
+	return MODEL_CONTEXT_WINDOWS[model] || DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Build the Claude message list for a new user message from the session history.
+ *
+ * Error placeholders and system messages are left out, consecutive turns of the
+ * same role are merged so roles strictly alternate, and the oldest turns are
+ * dropped once the conversation exceeds `tokenBudget`. Dropped turns are replaced
+ * by a short summary prepended to the first remaining user turn.
+ */
+export function buildConversationMessages(
+	history: ChatMessage[],
+	message: string,
+	tokenBudget: number
+): Anthropic.MessageParam[] {
+	const turns = _mergeConsecutiveTurns([
+		...history
+			.filter(m => (m.role === 'user' || m.role === 'assistant') && !m.metadata?.error && m.content.trim())
+			.map(m => ({ role: m.role as 'user' | 'assistant', content: formatMessageWithAttachments(m.content, m.metadata?.attachments) })),
+		{ role: 'user', content: message }
+	]);
+
+	// Claude requires the conversation to start with a user turn
+	while (turns.length > 0 && turns[0].role !== 'user') {
+		turns.shift();
+	}
+
+	// Keep the newest turns that fit, leaving room for a summary of the rest
+	const available = Math.max(0, tokenBudget - MAX_SUMMARY_TOKENS);
+	let used = 0;
+	let firstKept = turns.length - 1;
+	for (let i = turns.length - 1; i >= 0; i--) {
+		const tokens = estimateTokens(turns[i].content);
+		if (i < turns.length - 1 && used + tokens > available) {
+			break;
+		}
+		used += tokens;
+		firstKept = i;
+	}
+
+	// The kept window must also start with a user turn
+	while (firstKept < turns.length - 1 && turns[firstKept].role !== 'user') {
+		firstKept++;
+	}
+
+	const dropped = turns.slice(0, firstKept);
+	const kept = turns.slice(firstKept);
+
+	if (dropped.length > 0) {
+		kept[0] = {
+			role: 'user',
+			content: `${_summarizeTurns(dropped)}\n\n${kept[0].content}`
+		};
+	}
+
+	return kept;
+}
+
+/**
+ * Merge consecutive turns with the same role into a single turn
+ */
+function _mergeConsecutiveTurns(
+	turns: { role: 'user' | 'assistant'; content: string }[]
+): { role: 'user' | 'assistant'; content: string }[] {
+	const merged: { role: 'user' | 'assistant'; content: string }[] = [];
+
+	for (const turn of turns) {
+		const last = merged[merged.length - 1];
+		if (last && last.role === turn.role) {
+			last.content = `${last.content}\n\n${turn.content}`;
+		} else {
+			merged.push({ ...turn });
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Summarize dropped turns as short excerpts, keeping the most recent ones
+ */
+function _summarizeTurns(turns: { role: 'user' | 'assistant'; content: string }[]): string {
+	const header = `[Summary of ${turns.length} earlier messages omitted to fit the context window]`;
+	const lines: string[] = [];
+	let tokens = estimateTokens(header);
+
+	for (let i = turns.length - 1; i >= 0; i--) {
+		const text = turns[i].content.replace(/\s+/g, ' ').trim();
+		const excerpt = text.length > SUMMARY_EXCERPT_LENGTH ? `${text.substring(0, SUMMARY_EXCERPT_LENGTH)}...` : text;
+		const line = `- ${turns[i].role === 'user' ? 'User' : 'Assistant'}: ${excerpt}`;
+
+		tokens += estimateTokens(line);
+		if (tokens > MAX_SUMMARY_TOKENS) break;
+		lines.unshift(line);
+	}
+
+	return [header, ...lines].join('\n');
+}
@@ -0,0 +1,68 @@
+// Points for each matched query character, plus one of the bonuses
+const MATCH_POINTS = 1;
+const WORD_START_BONUS = 2;
+const CONSECUTIVE_BONUS = 1;
+const MAX_POINTS_PER_CHARACTER = MATCH_POINTS + WORD_START_BONUS;
+
+/**
+ * Score how well a query matches a name as a case-insensitive subsequence,
+ * from 0 to 1, or null when it does not match. Characters starting a word (as
+ * in `sFS` for `scanForSecrets`) and runs of consecutive characters score
+ * higher, as do names not much longer than the query.
+ */
+export function fuzzyMatchScore(name: string, query: string): number | null {
+	if (query.length === 0 || query.length > name.length) return null;
+
+	const lowerName = name.toLowerCase();
+	const lowerQuery = query.toLowerCase();
+	// Most names don't match at all; rule them out before scoring
+	if (!_isSubsequence(lowerName, lowerQuery)) return null;
+
+	const wordStarts = Array.from(name, (_char, index) => _isWordStart(name, index));
+
+	// best[j]: highest points for the query so far with its last character at name index j
+	let best = new Array<number>(name.length).fill(-Infinity);
+	for (let i = 0; i < lowerQuery.length; i++) {
+		const next = new Array<number>(name.length).fill(-Infinity);
+		let bestBefore = i === 0 ? 0 : -Infinity;
+		for (let j = 0; j < name.length; j++) {
+			if (lowerName[j] === lowerQuery[i]) {
+				const points = MATCH_POINTS + (wordStarts[j] ? WORD_START_BONUS : 0);
+				const afterGap = bestBefore + points;
+				const continuingRun = i > 0 && j > 0 ? best[j - 1]! + points + (wordStarts[j] ? 0 : CONSECUTIVE_BONUS) : -Infinity;
+				next[j] = Math.max(afterGap, continuingRun);
+			}
+			// Matches at j - 1 or earlier leave a gap before j + 1
+			if (i > 0 && j > 0) {
+				bestBefore = Math.max(bestBefore, best[j - 1]!);
+			}
+		}
+		best = next;
+	}
+
+	const points = Math.max(...best);
+	if (points === -Infinity) return null;
+
+	const matchQuality = points / (MAX_POINTS_PER_CHARACTER * query.length);
+	const coverage = query.length / name.length;
+	return 0.8 * matchQuality + 0.2 * coverage;
+}
+
+function _isSubsequence(text: string, query: string): boolean {
+	let position = 0;
+	for (const char of query) {
+		position = text.indexOf(char, position) + 1;
+		if (position === 0) return false;
+	}
+	return true;
+}
+
+function _isWordStart(name: string, index: number): boolean {
+	if (index === 0) return true;
+
+	const char = name[index]!;
+	const previous = name[index - 1]!;
+	return /[_\-.$\s]/.test(previous)
+		|| (char !== char.toLowerCase() && previous === previous.toLowerCase() && /[a-z0-9]/i.test(previous))
+		|| (/\d/.test(char) && !/\d/.test(previous));
+}
@@ -0,0 +1,43 @@
+/**
+ * Convert a glob such as `src/**` or `*.{test,spec}.ts` to a regular
+ * expression over forward-slash relative paths. Globs without a slash match
+ * the file name in any folder.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const pattern = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+	let source = '';
+	let braceDepth = 0;
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i]!;
+		if (char === '*' && pattern[i + 1] === '*') {
+			// `**/` also matches no folder at all
+			if (pattern[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i += 1;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{') {
+			braceDepth++;
+			source += '(?:';
+		} else if (char === '}' && braceDepth > 0) {
+			braceDepth--;
+			source += ')';
+		} else if (char === ',' && braceDepth > 0) {
+			source += '|';
+		} else {
+			source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+		}
+	}
+
+	if (braceDepth > 0) {
+		throw new Error(`Unclosed "{" in glob "${glob}"`);
+	}
+	return new RegExp(pattern.includes('/') ? `^${source}$` : `(?:^|/)${source}$`, 'i');
+}
@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { z } from 'zod';
+import { findJsonLocation, offsetToPosition } from '@/utils/jsonLocation';
+
+/**
+ * Parse a JSON configuration file, returning a diagnostic at the syntax
+ * error instead of throwing
+ */
+export function parseJsonWithDiagnostic(text: string): { json: unknown } | { diagnostic: vscode.Diagnostic } {
+	try {
+		return { json: JSON.parse(text) };
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Invalid JSON';
+		const offset = Number(/position (\d+)/.exec(message)?.[1] ?? 0);
+		return { diagnostic: createJsonDiagnostic(text, offset, offset + 1, message) };
+	}
+}
+
+/**
+ * Turn a schema issue into a diagnostic on the offending part of the JSON text
+ */
+export function zodIssueToDiagnostic(text: string, issue: z.ZodIssue): vscode.Diagnostic {
+	// Unknown keys are reported on the object; point at the offending key instead
+	const keyPath = issue.code === z.ZodIssueCode.unrecognized_keys && issue.keys.length > 0
+		? [...issue.path, issue.keys[0]!]
+		: issue.path;
+	const location = findJsonLocation(text, keyPath);
+
+	const start = location?.keyStart ?? location?.start ?? 0;
+	const end = location?.keyEnd ?? (location ? Math.min(location.end, start + 200) : 1);
+	const where = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+	return createJsonDiagnostic(text, start, end, `${where}${issue.message}`);
+}
+
+function createJsonDiagnostic(text: string, startOffset: number, endOffset: number, message: string): vscode.Diagnostic {
+	const start = offsetToPosition(text, startOffset);
+	const end = offsetToPosition(text, endOffset);
+	const diagnostic = new vscode.Diagnostic(
+		new vscode.Range(start.line, start.character, end.line, end.character),
+		message,
+		vscode.DiagnosticSeverity.Error
+	);
+	diagnostic.source = 'RSWE';
+	return diagnostic;
+}
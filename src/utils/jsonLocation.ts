@@ -0,0 +1,144 @@
+/**
+ * Character offsets of a JSON value, plus its property key when it has one
+ */
+export interface JsonNodeLocation {
+	start: number;
+	end: number;
+	keyStart?: number;
+	keyEnd?: number;
+}
+
+/**
+ * Find where the value at `path` is written in a JSON document.
+ *
+ * Returns the location of the deepest existing node along the path, so a
+ * missing property resolves to the object that should contain it. Returns
+ * undefined if the text is not valid JSON.
+ */
+export function findJsonLocation(text: string, path: Array<string | number>): JsonNodeLocation | undefined {
+	const locations = new Map<string, JsonNodeLocation>();
+	try {
+		const end = _parseValue(text, _skipWhitespace(text, 0), [], locations);
+		if (_skipWhitespace(text, end) !== text.length) {
+			return undefined;
+		}
+	} catch {
+		return undefined;
+	}
+
+	for (let length = path.length; length >= 0; length--) {
+		const location = locations.get(_pathKey(path.slice(0, length)));
+		if (location) {
+			return location;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Convert a character offset into a zero-based line and character
+ */
+export function offsetToPosition(text: string, offset: number): { line: number; character: number } {
+	const before = text.substring(0, Math.max(0, Math.min(offset, text.length)));
+	const lines = before.split('\n');
+	return { line: lines.length - 1, character: lines[lines.length - 1]!.length };
+}
+
+function _parseValue(
+	text: string,
+	offset: number,
+	path: Array<string | number>,
+	locations: Map<string, JsonNodeLocation>,
+	key?: { start: number; end: number }
+): number {
+	const start = offset;
+	let end: number;
+
+	switch (text[offset]) {
+		case '{': {
+			offset = _skipWhitespace(text, offset + 1);
+			if (text[offset] !== '}') {
+				while (true) {
+					const keyStart = offset;
+					const keyEnd = _parseString(text, offset);
+					const name = JSON.parse(text.substring(keyStart, keyEnd));
+					offset = _expect(text, _skipWhitespace(text, keyEnd), ':');
+					offset = _parseValue(text, _skipWhitespace(text, offset), [...path, name], locations, { start: keyStart, end: keyEnd });
+					offset = _skipWhitespace(text, offset);
+					if (text[offset] === ',') {
+						offset = _skipWhitespace(text, offset + 1);
+						continue;
+					}
+					break;
+				}
+			}
+			end = _expect(text, offset, '}');
+			break;
+		}
+		case '[': {
+			offset = _skipWhitespace(text, offset + 1);
+			let index = 0;
+			if (text[offset] !== ']') {
+				while (true) {
+					offset = _skipWhitespace(text, _parseValue(text, offset, [...path, index++], locations));
+					if (text[offset] === ',') {
+						offset = _skipWhitespace(text, offset + 1);
+						continue;
+					}
+					break;
+				}
+			}
+			end = _expect(text, offset, ']');
+			break;
+		}
+		case '"':
+			end = _parseString(text, offset);
+			break;
+		default: {
+			const match = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(text.substring(offset, offset + 64));
+			if (!match) {
+				throw new SyntaxError(`Unexpected character at ${offset}`);
+			}
+			end = offset + match[0].length;
+		}
+	}
+
+	locations.set(_pathKey(path), {
+		start,
+		end,
+		...(key ? { keyStart: key.start, keyEnd: key.end } : {})
+	});
+	return end;
+}
+
+function _parseString(text: string, offset: number): number {
+	if (text[offset] !== '"') {
+		throw new SyntaxError(`Expected string at ${offset}`);
+	}
+	for (let i = offset + 1; i < text.length; i++) {
+		if (text[i] === '\\') {
+			i++;
+		} else if (text[i] === '"') {
+			return i + 1;
+		}
+	}
+	throw new SyntaxError('Unterminated string');
+}
+
+function _expect(text: string, offset: number, char: string): number {
+	if (text[offset] !== char) {
+		throw new SyntaxError(`Expected "${char}" at ${offset}`);
+	}
+	return offset + 1;
+}
+
+function _skipWhitespace(text: string, offset: number): number {
+	while (offset < text.length && /\s/.test(text[offset]!)) {
+		offset++;
+	}
+	return offset;
+}
+
+function _pathKey(path: Array<string | number>): string {
+	return JSON.stringify(path);
+}
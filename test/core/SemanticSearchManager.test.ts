@@ -0,0 +1,138 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+import type * as vscode from 'vscode';
+import { ProjectAnalysis, ProjectFile } from '@/types';
+import { SemanticSearchManager } from '@/core/SemanticSearchManager';
+import { generateCodeCorpus, summarizeLatencies } from '../fixtures/search/codeCorpus';
+
+// Generous budgets: they catch a regression to linear scans, not machine noise
+const COLD_INDEXING_BUDGET_MS = 90000;
+const QUERY_P95_BUDGET_MS = 500;
+
+const FILE_COUNT = 400;
+const FUNCTIONS_PER_FILE = 25;
+
+describe('SemanticSearchManager on a large generated corpus', () => {
+	let root: string;
+	let analysis: ProjectAnalysis;
+	let manager: SemanticSearchManager;
+	let coldIndexingMs = 0;
+
+	function createManager(): SemanticSearchManager {
+		return new SemanticSearchManager({ storageUri: { fsPath: path.join(root, '.storage') } } as unknown as vscode.ExtensionContext);
+	}
+
+	beforeAll(async () => {
+		jest.spyOn(console, 'log').mockImplementation(() => {});
+
+		root = await fs.mkdtemp(path.join(os.tmpdir(), 'rswe-search-'));
+		const files: ProjectFile[] = [];
+		for (const file of generateCodeCorpus({ files: FILE_COUNT, functionsPerFile: FUNCTIONS_PER_FILE })) {
+			const filePath = path.join(root, file.relativePath);
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			await fs.writeFile(filePath, file.content);
+			const stats = await fs.stat(filePath);
+			files.push({
+				path: filePath,
+				relativePath: file.relativePath,
+				name: path.basename(filePath),
+				extension: '.ts',
+				type: 'file',
+				size: stats.size,
+				lines: file.content.split('\n').length,
+				language: 'TypeScript',
+				lastModified: stats.mtime
+			});
+		}
+		analysis = {
+			files,
+			dependencies: new Map(),
+			structure: { root, src: ['src'], tests: [], configs: [], docs: [] },
+			metrics: { totalFiles: files.length, totalLines: 0, languages: { TypeScript: files.length }, complexity: 0 }
+		} as ProjectAnalysis;
+
+		manager = createManager();
+		const started = performance.now();
+		await manager.initialize(analysis);
+		coldIndexingMs = performance.now() - started;
+	}, COLD_INDEXING_BUDGET_MS * 2);
+
+	afterAll(async () => {
+		manager?.dispose();
+		await fs.rm(root, { recursive: true, force: true });
+		jest.restoreAllMocks();
+	});
+
+	function report(message: string): void {
+		process.stdout.write(`SemanticSearchManager: ${message}\n`);
+	}
+
+	it('indexes every generated function within budget', () => {
+		expect(manager.getIndexStatus()).toMatchObject({
+			isIndexed: true,
+			indexedFiles: FILE_COUNT,
+			searchableItems: FILE_COUNT * FUNCTIONS_PER_FILE + 2
+		});
+		report(`cold start indexed ${FILE_COUNT * FUNCTIONS_PER_FILE + 2} functions in ${coldIndexingMs.toFixed(0)}ms`);
+		expect(coldIndexingMs).toBeLessThan(COLD_INDEXING_BUDGET_MS);
+	});
+
+	it('restarts from the stored index faster than a cold start', async () => {
+		const warmManager = createManager();
+		const started = performance.now();
+		await warmManager.initialize(analysis);
+		const warmIndexingMs = performance.now() - started;
+		warmManager.dispose();
+
+		report(`warm start indexed in ${warmIndexingMs.toFixed(0)}ms`);
+		expect(warmIndexingMs).toBeLessThan(coldIndexingMs);
+	}, COLD_INDEXING_BUDGET_MS);
+
+	it('answers code searches within budget and ranks the needles first', async () => {
+		const queries = [
+			'reconcile ledger balance',
+			'throttle webhook delivery',
+			'load user',
+			'validate cached invoice',
+			'missing order for session',
+			'kind:function path:src/module3/** remote shipment',
+			'decode token payload',
+			'sync pending account profile'
+		];
+		const durations: number[] = [];
+		for (let round = 0; round < 3; round++) {
+			for (const query of queries) {
+				const started = performance.now();
+				await manager.searchCode(query, 10);
+				durations.push(performance.now() - started);
+			}
+		}
+
+		const { median, p95 } = summarizeLatencies(durations);
+		report(`searchCode latency median ${median.toFixed(1)}ms, p95 ${p95.toFixed(1)}ms over ${durations.length} queries`);
+		expect(p95).toBeLessThan(QUERY_P95_BUDGET_MS);
+
+		const [best] = await manager.searchCode('reconcile ledger balance', 5);
+		expect(best).toMatchObject({ file: 'src/module0/file7.ts', item: { name: 'reconcileLedgerBalance' } });
+		const [throttle] = await manager.searchCode('webhook throttling', 5);
+		expect(throttle).toMatchObject({ file: 'src/module6/file311.ts', item: { name: 'throttleWebhookDelivery' } });
+	});
+
+	it('answers symbol and similarity searches within budget', async () => {
+		let started = performance.now();
+		const symbols = await manager.searchSymbols('throttleWebhookDelivery');
+		const symbolMs = performance.now() - started;
+
+		started = performance.now();
+		const similar = await manager.findSimilarCode('await limiter.acquire(webhook.endpoint);\nreturn webhook.deliver();', 3);
+		const similarMs = performance.now() - started;
+
+		report(`searchSymbols ${symbolMs.toFixed(1)}ms, findSimilarCode ${similarMs.toFixed(1)}ms`);
+		expect(symbols[0]!.item.name).toBe('throttleWebhookDelivery');
+		expect(similar[0]!.item.name).toBe('throttleWebhookDelivery');
+		expect(symbolMs).toBeLessThan(QUERY_P95_BUDGET_MS);
+		expect(similarMs).toBeLessThan(QUERY_P95_BUDGET_MS);
+	});
+});
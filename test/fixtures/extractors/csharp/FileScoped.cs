@@ -0,0 +1,6 @@
+namespace Acme.Scoped;
+
+public class Scoped
+{
+    internal void Run() { }
+}
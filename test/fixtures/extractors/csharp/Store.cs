@@ -0,0 +1,43 @@
+using System;
+
+namespace Acme.Storage
+{
+    /// <summary>Stores <see cref="Record"/> values.</summary>
+    /// <param name="id">The key</param>
+    public interface IStore
+    {
+        Record Get(string id);
+    }
+
+    public enum Kind { A, B }
+
+    [Serializable]
+    public sealed class Store : IStore
+    {
+        public const int MaxRetries = 3;
+        private static readonly TimeSpan Timeout = TimeSpan.FromSeconds(3);
+        private readonly Dictionary<string, Record> _items = new();
+
+        /// <summary>Creates a store.</summary>
+        public Store()
+        {
+        }
+
+        /// <summary>Gets a record.</summary>
+        public Record Get(string id)
+        {
+            if (id == null) throw new ArgumentNullException(nameof(id));
+            return _items[id];
+        }
+
+        async Task<List<Record>> LoadAllAsync<T>(CancellationToken token) where T : class
+        {
+            return new List<Record>();
+        }
+
+        public int Count => _items.Count;
+    }
+
+    public record Record(string Id);
+    public delegate void Changed(object sender);
+}
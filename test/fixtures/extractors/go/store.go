@@ -0,0 +1,46 @@
+package store
+
+import "fmt"
+
+// MaxRetries is how often a write is retried.
+const MaxRetries = 3
+
+const (
+	// Default port
+	DefaultPort = 8080
+	timeout     = 30
+)
+
+var registry = map[string]int{
+	"a": 1,
+}
+
+// Store keeps records in memory.
+type Store struct {
+	items map[string]string // keyed by id
+}
+
+// Reader reads records.
+type Reader interface {
+	Get(id string) (string, error)
+}
+
+type ID string
+
+// NewStore creates an empty store.
+func NewStore() *Store {
+	s := &Store{items: map[string]string{}}
+	fmt.Println("{")
+	return s
+}
+
+// Get returns a record.
+func (s *Store) Get(id string) (string, error) {
+	return s.items[id], nil
+}
+
+func (s Store) count() int { return len(s.items) }
+
+func Map[T any, U any](xs []T, f func(T) U) []U {
+	return nil
+}
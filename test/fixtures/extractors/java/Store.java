@@ -0,0 +1,39 @@
+package acme;
+
+import java.util.*;
+
+/**
+ * Stores records.
+ */
+@Service
+public class Store<T> implements Reader {
+    public static final int MAX_RETRIES = 3;
+    private final Map<String, T> items = new HashMap<>();
+
+    /** Creates a store. */
+    public Store() {
+    }
+
+    /**
+     * Gets a record.
+     * @param id the id
+     */
+    @Override
+    public T get(String id) throws IOException {
+        if (id == null) { return null; }
+        return items.get(id);
+    }
+
+    private static <K> List<K> keys(
+            Map<K, ?> map) {
+        return new ArrayList<>(map.keySet());
+    }
+
+    enum Kind { A, B; void f() {} }
+
+    interface Listener {
+        void changed(String id);
+    }
+}
+
+record Point(int x, int y) {}
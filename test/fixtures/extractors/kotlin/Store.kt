@@ -0,0 +1,49 @@
+package acme
+
+/** Maximum retries. */
+const val MAX_RETRIES = 3
+val lower = 1
+
+/**
+ * Stores records.
+ */
+@Serializable
+data class Record(val id: String)
+
+interface Reader {
+    fun get(id: String): Record?
+}
+
+class Store : Reader {
+    private val items = mutableMapOf<String, Record>()
+
+    /** Gets a record. */
+    override fun get(id: String): Record? {
+        val x = "}"
+        return items[id]
+    }
+
+    internal fun size() = items.size
+
+    companion object {
+        /** Creates a store. */
+        fun create(): Store = Store()
+        const val NAME = "store"
+    }
+}
+
+object Registry {
+    fun register(store: Store) {}
+}
+
+enum class Kind { A, B; fun label() = name }
+
+fun String.shout(): String = uppercase()
+
+fun `weird name`() {}
+
+typealias Records = List<Record>
+
+suspend fun <T> retry(block: suspend () -> T): T {
+    return block()
+}
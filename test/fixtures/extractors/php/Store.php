@@ -0,0 +1,57 @@
+<?php
+
+namespace App\Models;
+
+use Foo\Bar;
+
+const VERSION = '1.0';
+
+/**
+ * Stores records.
+ */
+#[Entity]
+final class Store implements Reader
+{
+    public const MAX_RETRIES = 3;
+    private const string SECRET = "}";
+
+    # not a doc
+    private array $items = [];
+
+    /**
+     * Gets a record.
+     */
+    public function get(string $id): ?Record
+    {
+        $s = "}";
+        return $this->items[$id] ?? null;
+    }
+
+    protected static function &ref(): array { return []; }
+
+    function count(): int
+    {
+        return count($this->items);
+    }
+}
+
+interface Reader
+{
+    public function get(string $id): ?Record;
+}
+
+trait Loggable
+{
+    public function log(string $m): void {}
+}
+
+enum Suit: string
+{
+    case Hearts = 'H';
+    public function color(): string { return 'Red'; }
+}
+
+// Helper
+function helper($x) {
+    return $x;
+}
@@ -0,0 +1,43 @@
+"""Module docstring."""
+import os
+
+MAX_RETRIES = 3
+TIMEOUT: int = 30
+
+
+class Store(Base):
+    """Stores records.
+
+    In memory.
+    """
+
+    DEFAULT = {"a": 1}
+
+    def __init__(self):
+        self._items = {}
+
+    @property
+    def items(self):
+        '''The items.'''
+        return self._items
+
+    async def get(self, id: str,
+                  default=None) -> "Record":
+        """Gets a record."""
+        def inner():
+            return 1
+        return self._items.get(id, default)
+
+    def _helper(self): return 1
+
+    def __secret(self):
+        pass
+
+
+def load(path):
+    # not a docstring
+    s = "def fake():"
+    return path
+
+
+class Empty: pass
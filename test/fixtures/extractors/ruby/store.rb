@@ -0,0 +1,56 @@
+require 'json'
+
+# Top-level constant.
+MAX_RETRIES = 3
+
+module Acme
+  module Storage
+    # Stores records.
+    class Store < Base
+      DEFAULT = { a: 1 }
+
+      attr_reader :items
+
+      # Creates a store.
+      def initialize
+        @items = {}
+        if true
+          puts "end"
+        end
+      end
+
+      # Gets a record.
+      def get(id)
+        @items.each do |k, v|
+          puts k
+        end
+        @items[id]
+      end
+
+      def self.build = new
+
+      def valid?
+        x = if @items then 1 else 2 end
+        true
+      end
+
+      private
+
+      def secret; end
+
+      class << self
+        def create
+          new
+        end
+      end
+    end
+
+    def self.helper(x)
+      x
+    end
+  end
+end
+
+def top_level
+  1
+end
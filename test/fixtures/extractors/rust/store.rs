@@ -0,0 +1,56 @@
+use std::fmt;
+
+/// Maximum number of retries.
+pub const MAX_RETRIES: u32 = 3;
+static mut COUNTER: u32 = 0;
+
+/// A stored record.
+#[derive(Debug, Clone)]
+pub struct Record {
+    id: String,
+}
+
+pub enum Kind { A, B }
+
+/// Something that can be stored.
+pub trait Storable {
+    /// The record's key.
+    fn key(&self) -> String;
+    fn describe(&self) -> String {
+        format!("{}", self.key())
+    }
+}
+
+impl<T: Clone> Storable for Wrapper<T> where T: fmt::Debug {
+    fn key(&self) -> String { "w".into() }
+}
+
+impl Record {
+    /// Creates a record.
+    pub fn new(id: &str) -> Self {
+        let s = "}";
+        Record { id: id.to_string() }
+    }
+    fn secret(&self) {}
+}
+
+pub mod net {
+    pub mod http {
+        pub struct Client;
+        impl Client {
+            pub async fn get(&self, url: &str) -> Result<String, ()> { Ok(String::new()) }
+        }
+    }
+}
+
+pub type Result2<T> = std::result::Result<T, String>;
+
+macro_rules! square {
+    ($x:expr) => { $x * $x };
+}
+
+pub(crate) unsafe fn raw<'a>(
+    p: *const u8,
+) -> &'a u8 {
+    &*p
+}
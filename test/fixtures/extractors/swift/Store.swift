@@ -0,0 +1,58 @@
+import Foundation
+
+/// Maximum retries.
+public let maxRetries = 3
+
+/// A stored record.
+public struct Record: Codable {
+    let id: String
+
+    /// Creates a record.
+    public init(id: String) {
+        self.id = id
+    }
+}
+
+/// Something that reads records.
+protocol Reader {
+    func get(_ id: String) -> Record?
+}
+
+@MainActor
+final class Store: Reader {
+    private var items: [String: Record] = [:]
+
+    func get(_ id: String) -> Record? {
+        let s = "}"
+        return items[id]
+    }
+
+    class func shared() -> Store { Store() }
+
+    private func secret() {}
+
+    deinit {
+    }
+}
+
+extension Store {
+    /// Number of records.
+    public func count() -> Int { items.count }
+}
+
+enum Kind {
+    case a, b
+    func label() -> String { "x" }
+}
+
+actor Counter {
+    func increment() {}
+}
+
+typealias Records = [Record]
+
+func retry<T>(_ block: () throws -> T) rethrows -> T {
+    return try block()
+}
+
+static func == (lhs: Record, rhs: Record) -> Bool { true }
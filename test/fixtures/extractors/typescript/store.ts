@@ -0,0 +1,75 @@
+import { EventEmitter } from 'events';
+
+/** Maximum retries. */
+export const MAX_RETRIES = 3;
+const lower = 1;
+
+// function commented(): void {}
+const template = `class Quoted { method() {} }`;
+
+/**
+ * A stored record.
+ */
+export interface Record {
+	id: string;
+	tags?: string[];
+}
+
+export type Records = Record[];
+
+enum Kind {
+	A,
+	B = 'b'
+}
+
+/**
+ * Reads records by id.
+ */
+export function read(id: string): Record;
+export function read(ids: string[]): Record[];
+export function read(input: string | string[]): Record | Record[] {
+	const inner = () => "function hidden() {}";
+	return Array.isArray(input) ? input.map(id => ({ id })) : { id: input };
+}
+
+export class Store extends EventEmitter {
+	private readonly _items = new Map<string, Record>();
+	protected limit = MAX_RETRIES;
+
+	constructor(private readonly _name: string) {
+		super();
+	}
+
+	/** Gets a record. */
+	public get(id: string): Record | undefined {
+		return this._items.get(id);
+	}
+
+	protected size(): number {
+		return this._items.size;
+	}
+
+	private _evict = (id: string): void => {
+		this._items.delete(id);
+	};
+
+	static create(name: string): Store {
+		return new Store(name);
+	}
+}
+
+export const handlers = {
+	/** Handles a save. */
+	save: async (record: Record): Promise<void> => {
+		await Promise.resolve(record);
+	},
+	load(id: string): Record {
+		return { id };
+	}
+};
+
+export default function defaultStore(): Store {
+	return new Store('default');
+}
+
+export { Kind, lower };
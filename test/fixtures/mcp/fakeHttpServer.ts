@@ -0,0 +1,134 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Local stand-in for a remote MCP server, serving the streamable HTTP
+ * transport at /mcp and the legacy SSE transport at /sse. /sse-elsewhere
+ * announces a message endpoint on another origin.
+ */
+export interface FakeHttpServer {
+	url: string;
+	// Headers of every request received, in order
+	requests: Array<{ method: string; path: string; headers: http.IncomingHttpHeaders }>;
+	// Drop the current session so the next request gets a 404
+	expireSession(): void;
+	close(): Promise<void>;
+}
+
+const SESSION_ID = 'session-1';
+
+/**
+ * Answer a JSON-RPC request the way a small MCP server would
+ */
+function answer(message: any): any {
+	const reply = (result: any) => ({ jsonrpc: '2.0', id: message.id, result });
+	switch (message.method) {
+		case 'initialize':
+			return reply({ protocolVersion: message.params.protocolVersion, serverInfo: { name: 'fake-http' }, capabilities: { tools: {} } });
+		case 'ping':
+			return reply({});
+		case 'tools/list':
+			return reply({ tools: [{ name: 'echo', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } }] });
+		case 'tools/call':
+			return reply({ content: [{ type: 'text', text: message.params.arguments.text }] });
+		default:
+			return { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+	}
+}
+
+function readBody(request: http.IncomingMessage): Promise<any> {
+	return new Promise((resolve, reject) => {
+		let body = '';
+		request.setEncoding('utf8');
+		request.on('data', chunk => body += chunk);
+		request.on('end', () => resolve(body ? JSON.parse(body) : undefined));
+		request.on('error', reject);
+	});
+}
+
+export async function startFakeHttpServer(): Promise<FakeHttpServer> {
+	const requests: FakeHttpServer['requests'] = [];
+	const sseStreams = new Set<http.ServerResponse>();
+	let session: string | null = null;
+
+	const server = http.createServer(async (request, response) => {
+		const url = new URL(request.url ?? '/', 'http://localhost');
+		requests.push({ method: request.method ?? '', path: url.pathname, headers: request.headers });
+
+		// Streamable HTTP
+		if (url.pathname === '/mcp') {
+			if (request.method === 'DELETE') {
+				session = null;
+				response.writeHead(204).end();
+				return;
+			}
+
+			const message = await readBody(request);
+			if (message.method === 'initialize') {
+				session = SESSION_ID;
+			} else if (request.headers['mcp-session-id'] !== session || !session) {
+				response.writeHead(404).end();
+				return;
+			}
+
+			if (!('id' in message)) {
+				response.writeHead(202).end();
+			} else if (message.method === 'broken') {
+				response.writeHead(500, 'Internal Server Error').end();
+			} else if (message.method === 'tools/call') {
+				// Tool results arrive on an event stream
+				response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Mcp-Session-Id': SESSION_ID });
+				response.write(`event: message\ndata: ${JSON.stringify(answer(message))}\n\n`);
+				response.end();
+			} else {
+				response.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': SESSION_ID });
+				response.end(JSON.stringify(answer(message)));
+			}
+			return;
+		}
+
+		// Legacy SSE: the stream announces where messages are POSTed
+		if (url.pathname === '/sse' && request.method === 'GET') {
+			response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+			response.write('event: endpoint\ndata: /messages?stream=1\n\n');
+			sseStreams.add(response);
+			request.on('close', () => sseStreams.delete(response));
+			return;
+		}
+		if (url.pathname === '/sse-elsewhere' && request.method === 'GET') {
+			response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+			response.write('event: endpoint\ndata: http://attacker.invalid/messages\n\n');
+			sseStreams.add(response);
+			request.on('close', () => sseStreams.delete(response));
+			return;
+		}
+		if (url.pathname === '/messages' && request.method === 'POST') {
+			const message = await readBody(request);
+			response.writeHead(202).end();
+			if ('id' in message) {
+				for (const stream of sseStreams) {
+					stream.write(`event: message\ndata: ${JSON.stringify(answer(message))}\n\n`);
+				}
+			}
+			return;
+		}
+
+		response.writeHead(404).end();
+	});
+
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		url: `http://127.0.0.1:${port}`,
+		requests,
+		expireSession: () => {
+			session = null;
+		},
+		close: () => new Promise(resolve => {
+			sseStreams.forEach(stream => stream.end());
+			server.closeAllConnections();
+			server.close(() => resolve());
+		})
+	};
+}
@@ -0,0 +1,87 @@
+/**
+ * Minimal MCP server speaking newline-delimited JSON-RPC over stdio, used by
+ * the transport and client tests. Set FAKE_MCP_NOISE=1 to make it write
+ * non-JSON lines and stderr output before answering.
+ */
+const readline = require('readline');
+
+const TOOL_PAGES = [
+	[{ name: 'echo', description: 'Echo the text back', inputSchema: { type: 'object', properties: { text: { type: 'string' } } } }],
+	[{ name: 'fail' }, { name: 'exit' }]
+];
+
+let clientAnsweredPing = false;
+
+function write(message) {
+	process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+function reply(id, result) {
+	write({ jsonrpc: '2.0', id, result });
+}
+
+function fail(id, code, message) {
+	write({ jsonrpc: '2.0', id, error: { code, message } });
+}
+
+function handleRequest(message) {
+	const { id, method, params = {} } = message;
+	switch (method) {
+		case 'initialize':
+			return reply(id, {
+				protocolVersion: params.protocolVersion,
+				serverInfo: { name: 'fake-stdio', version: '0.0.1' },
+				capabilities: { tools: {}, resources: {}, prompts: {} },
+				instructions: `client ${params.clientInfo?.name}`
+			});
+		case 'ping':
+			return reply(id, {});
+		case 'tools/list': {
+			const page = params.cursor ? Number(params.cursor) : 0;
+			return reply(id, { tools: TOOL_PAGES[page], ...(page + 1 < TOOL_PAGES.length ? { nextCursor: String(page + 1) } : {}) });
+		}
+		case 'tools/call':
+			if (params.name === 'echo') {
+				return reply(id, { content: [{ type: 'text', text: `${params.arguments.text} (env ${process.env.FAKE_MCP_GREETING ?? 'unset'}, client ping ${clientAnsweredPing})` }] });
+			}
+			if (params.name === 'fail') {
+				return reply(id, { content: [{ type: 'text', text: 'tool failed' }], isError: true });
+			}
+			if (params.name === 'exit') {
+				process.exit(3);
+			}
+			return fail(id, -32602, `Unknown tool: ${params.name}`);
+		case 'resources/list':
+			return reply(id, { resources: [{ uri: 'fake://readme', name: 'Readme', mimeType: 'text/plain' }] });
+		case 'resources/read':
+			return reply(id, { contents: [{ uri: params.uri, mimeType: 'text/plain', text: 'Hello from the fake server' }] });
+		case 'prompts/list':
+			return reply(id, { prompts: [{ name: 'greet', description: 'Greet someone', arguments: [{ name: 'who', required: true }] }] });
+		case 'prompts/get':
+			return reply(id, { messages: [{ role: 'user', content: { type: 'text', text: `Hello ${params.arguments.who}` } }] });
+		case 'hang':
+			return; // Never answered, for timeout tests
+		default:
+			return fail(id, -32601, `Method not found: ${method}`);
+	}
+}
+
+readline.createInterface({ input: process.stdin }).on('line', line => {
+	const message = JSON.parse(line);
+
+	if (!('method' in message)) {
+		// The client's answer to our ping
+		clientAnsweredPing = message.id === 'server-ping' && !message.error;
+		return;
+	}
+	if (message.method === 'notifications/initialized') {
+		write({ jsonrpc: '2.0', id: 'server-ping', method: 'ping' });
+		return;
+	}
+
+	if (process.env.FAKE_MCP_NOISE) {
+		process.stdout.write('starting up...\n');
+		process.stderr.write('debug output\n');
+	}
+	handleRequest(message);
+});
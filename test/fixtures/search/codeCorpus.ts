@@ -0,0 +1,134 @@
+/**
+ * Deterministic generator of a large TypeScript code base for search
+ * benchmarks. Functions are named from a small vocabulary so that terms
+ * repeat across thousands of documents, as they do in real projects; the
+ * needles have names and bodies found nowhere else.
+ */
+
+export interface GeneratedFunction {
+	name: string;
+	signature: string;
+	body: string;
+}
+
+export interface GeneratedFile {
+	relativePath: string;
+	content: string;
+	functions: GeneratedFunction[];
+}
+
+export interface CorpusOptions {
+	files: number;
+	functionsPerFile: number;
+	seed?: number;
+}
+
+const VERBS = ['load', 'save', 'parse', 'render', 'validate', 'fetch', 'update', 'resolve', 'format', 'compute', 'merge', 'build', 'encode', 'decode', 'sync', 'schedule'];
+const QUALIFIERS = ['', 'Async', 'Batch', 'Local', 'Remote', 'Draft', 'Pending', 'Cached'];
+const NOUNS = ['User', 'Order', 'Invoice', 'Session', 'Token', 'Config', 'Cache', 'Report', 'Payload', 'Request', 'Response', 'Message', 'Account', 'Product', 'Inventory', 'Shipment', 'Queue', 'Record', 'Profile', 'Event'];
+// Syllables of made-up domain words, giving a vocabulary of thousands of terms
+const SYLLABLES = ['ka', 'lo', 'mi', 'ne', 'ru', 'sa', 'to', 'vi', 'zu', 'pe', 'do', 'fa', 'gu', 'hi', 'jo', 'xe', 'bri', 'clo', 'dra', 'sku'];
+
+/**
+ * Functions placed once in the corpus, with the file index they go into
+ */
+export const NEEDLES: Array<GeneratedFunction & { fileIndex: number }> = [
+	{
+		fileIndex: 7,
+		name: 'reconcileLedgerBalance',
+		signature: 'reconcileLedgerBalance(ledger: Ledger, statement: BankStatement): Discrepancy[]',
+		body: 'const discrepancies = statement.entries.filter(entry => !ledger.has(entry.reference));\n\treturn discrepancies.map(entry => ({ reference: entry.reference, amount: entry.amount }));'
+	},
+	{
+		fileIndex: 311,
+		name: 'throttleWebhookDelivery',
+		signature: 'throttleWebhookDelivery(webhook: Webhook, limiter: RateLimiter): Promise<void>',
+		body: 'await limiter.acquire(webhook.endpoint);\n\treturn webhook.deliver();'
+	}
+];
+
+/**
+ * Small linear congruential generator so every run builds the same corpus
+ */
+function createRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state * 1664525 + 1013904223) >>> 0;
+		return state / 0x100000000;
+	};
+}
+
+function pick<T>(random: () => number, values: T[]): T {
+	return values[Math.floor(random() * values.length)]!;
+}
+
+function domainWord(random: () => number): string {
+	const word = Array.from({ length: 3 }, () => pick(random, SYLLABLES)).join('');
+	return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+function generateFunction(random: () => number, index: number): GeneratedFunction {
+	const noun = pick(random, NOUNS);
+	const other = pick(random, NOUNS);
+	const domain = domainWord(random);
+	const name = `${pick(random, VERBS)}${pick(random, QUALIFIERS)}${domain}${noun}${index}`;
+	const parameter = noun.charAt(0).toLowerCase() + noun.slice(1);
+	const helper = `${pick(random, VERBS)}${domainWord(random)}${other}`;
+
+	const bodies = [
+		[
+			`const ${parameter}Key = ${parameter}.key ?? settings.fallbackKey;`,
+			`const related = ${helper}(${parameter}Key);`,
+			`if (!related) {`,
+			`\tthrow new Error('Missing ${other.toLowerCase()} for ${noun.toLowerCase()}');`,
+			`}`,
+			`return { ...related, ${parameter}Key };`
+		],
+		[
+			`const entries = ${parameter}.items.filter(item => item.${domain.toLowerCase()}Enabled);`,
+			`for (const entry of entries) {`,
+			`\tawait ${helper}(entry);`,
+			`}`,
+			`return entries.length;`
+		],
+		[
+			`const cached = store.get(${parameter}.${domain.toLowerCase()}Id);`,
+			`return cached ?? ${helper}(${parameter}, settings.retries);`
+		]
+	];
+
+	return {
+		name,
+		signature: `${name}(${parameter}: ${noun}, settings: ${other}Settings): ${other}`,
+		body: pick(random, bodies).join('\n\t')
+	};
+}
+
+export function generateCodeCorpus({ files, functionsPerFile, seed = 42 }: CorpusOptions): GeneratedFile[] {
+	const random = createRandom(seed);
+	const corpus: GeneratedFile[] = [];
+
+	for (let fileIndex = 0; fileIndex < files; fileIndex++) {
+		const functions = Array.from({ length: functionsPerFile }, (_, index) => generateFunction(random, index));
+		functions.push(...NEEDLES.filter(needle => needle.fileIndex === fileIndex));
+
+		corpus.push({
+			relativePath: `src/module${Math.floor(fileIndex / 50)}/file${fileIndex}.ts`,
+			content: functions.map(fn => `export function ${fn.signature} {\n\t${fn.body}\n}\n`).join('\n'),
+			functions
+		});
+	}
+
+	return corpus;
+}
+
+/**
+ * Median and 95th percentile of a list of durations
+ */
+export function summarizeLatencies(durations: number[]): { median: number; p95: number } {
+	const sorted = [...durations].sort((a, b) => a - b);
+	return {
+		median: sorted[Math.floor(sorted.length / 2)]!,
+		p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))]!
+	};
+}
@@ -0,0 +1,52 @@
+/**
+ * The parts of the vscode API that modules under test touch at load time or
+ * use as plain values
+ */
+export class Position {
+	constructor(public readonly line: number, public readonly character: number) {}
+}
+
+export class Range {
+	public readonly start: Position;
+	public readonly end: Position;
+
+	constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+		this.start = new Position(startLine, startCharacter);
+		this.end = new Position(endLine, endCharacter);
+	}
+}
+
+export enum DiagnosticSeverity {
+	Error = 0,
+	Warning = 1,
+	Information = 2,
+	Hint = 3
+}
+
+export class EventEmitter<T> {
+	private readonly _listeners: Array<(value: T) => void> = [];
+
+	public readonly event = (listener: (value: T) => void) => {
+		this._listeners.push(listener);
+		return { dispose: () => this._listeners.splice(this._listeners.indexOf(listener), 1) };
+	};
+
+	public fire(value: T): void {
+		this._listeners.forEach(listener => listener(value));
+	}
+
+	public dispose(): void {
+		this._listeners.length = 0;
+	}
+}
+
+export const workspace = {
+	workspaceFolders: undefined,
+	getConfiguration: () => ({ get: <T>(_key: string, defaultValue?: T) => defaultValue })
+};
+
+export const window = {
+	showWarningMessage: async () => undefined,
+	showErrorMessage: async () => undefined,
+	showInformationMessage: async () => undefined
+};
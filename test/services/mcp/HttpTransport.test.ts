@@ -0,0 +1,122 @@
+import { MCPClient } from '@/services/mcp/MCPClient';
+import { HttpTransport } from '@/services/mcp/HttpTransport';
+import { SseTransport } from '@/services/mcp/SseTransport';
+import { FakeHttpServer, startFakeHttpServer } from '../../fixtures/mcp/fakeHttpServer';
+
+describe('remote MCP transports', () => {
+	let server: FakeHttpServer;
+	let client: MCPClient | null = null;
+
+	beforeEach(async () => {
+		server = await startFakeHttpServer();
+	});
+
+	afterEach(async () => {
+		await client?.close();
+		client = null;
+		await server.close();
+	});
+
+	describe('HttpTransport', () => {
+		it('connects, lists tools and reads results from event streams', async () => {
+			client = new MCPClient(new HttpTransport({ url: `${server.url}/mcp` }));
+
+			expect((await client.connect()).serverInfo).toEqual({ name: 'fake-http' });
+			expect((await client.listTools()).map(tool => tool.name)).toEqual(['echo']);
+			expect(await client.callTool('echo', { text: 'streamed' })).toEqual({ content: [{ type: 'text', text: 'streamed' }] });
+		});
+
+		it('sends configured headers and the session id', async () => {
+			client = new MCPClient(new HttpTransport({ url: `${server.url}/mcp`, headers: { Authorization: 'Bearer token' } }));
+			await client.connect();
+			await client.ping();
+
+			const [initialize, ...rest] = server.requests;
+			expect(initialize!.headers['authorization']).toBe('Bearer token');
+			expect(initialize!.headers['mcp-session-id']).toBeUndefined();
+			for (const request of rest) {
+				expect(request.headers['authorization']).toBe('Bearer token');
+				expect(request.headers['mcp-session-id']).toBe('session-1');
+			}
+		});
+
+		it('ends the session on close', async () => {
+			client = new MCPClient(new HttpTransport({ url: `${server.url}/mcp` }));
+			await client.connect();
+
+			await client.close();
+
+			expect(server.requests.at(-1)).toMatchObject({ method: 'DELETE', path: '/mcp', headers: { 'mcp-session-id': 'session-1' } });
+		});
+
+		it('rejects requests the server fails with an HTTP error', async () => {
+			client = new MCPClient(new HttpTransport({ url: `${server.url}/mcp` }));
+			await client.connect();
+
+			await expect(client.request('broken')).rejects.toThrow('Failed to send broken: MCP server responded with HTTP 500 Internal Server Error');
+			expect(client.isConnected()).toBe(true);
+		});
+
+		it('closes the connection when the session expires', async () => {
+			client = new MCPClient(new HttpTransport({ url: `${server.url}/mcp` }));
+			await client.connect();
+			const closed = new Promise<Error | undefined>(resolve => {
+				client!.onClose = resolve;
+			});
+
+			server.expireSession();
+			await expect(client.ping()).rejects.toThrow('MCP session expired');
+
+			expect((await closed)?.message).toBe('MCP session expired');
+			expect(client.isConnected()).toBe(false);
+		});
+
+		it('rejects invalid URLs before connecting', async () => {
+			client = new MCPClient(new HttpTransport({ url: 'not a url' }));
+
+			await expect(client.connect()).rejects.toThrow('Invalid MCP server URL: not a url');
+		});
+	});
+
+	describe('SseTransport', () => {
+		it('posts messages to the announced endpoint and reads responses from the stream', async () => {
+			client = new MCPClient(new SseTransport({ url: `${server.url}/sse`, headers: { Authorization: 'Bearer token' } }));
+
+			expect((await client.connect()).serverInfo).toEqual({ name: 'fake-http' });
+			expect(await client.callTool('echo', { text: 'over sse' })).toEqual({ content: [{ type: 'text', text: 'over sse' }] });
+
+			const posts = server.requests.filter(request => request.method === 'POST');
+			expect(posts.length).toBeGreaterThan(0);
+			for (const request of posts) {
+				expect(request.path).toBe('/messages');
+				expect(request.headers['authorization']).toBe('Bearer token');
+			}
+		});
+
+		it('closes the connection when the event stream ends', async () => {
+			client = new MCPClient(new SseTransport({ url: `${server.url}/sse` }));
+			await client.connect();
+			const closed = new Promise<Error | undefined>(resolve => {
+				client!.onClose = resolve;
+			});
+
+			await server.close();
+
+			expect(await closed).toBeInstanceOf(Error);
+			expect(client.isConnected()).toBe(false);
+		});
+
+		it('refuses a message endpoint on another origin', async () => {
+			client = new MCPClient(new SseTransport({ url: `${server.url}/sse-elsewhere`, headers: { Authorization: 'Bearer token' } }));
+
+			await expect(client.connect()).rejects.toThrow('MCP server announced a message endpoint on another origin: http://attacker.invalid');
+			expect(server.requests.filter(request => request.method === 'POST')).toHaveLength(0);
+		});
+
+		it('fails to connect when the stream is unavailable', async () => {
+			client = new MCPClient(new SseTransport({ url: `${server.url}/missing` }));
+
+			await expect(client.connect()).rejects.toThrow('MCP server responded with HTTP 404');
+		});
+	});
+});
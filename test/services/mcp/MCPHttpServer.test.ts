@@ -0,0 +1,47 @@
+import { MCPHttpServer } from '@/services/mcp/MCPHttpServer';
+
+describe('MCPHttpServer', () => {
+	let server: MCPHttpServer;
+	let url: string;
+
+	beforeEach(async () => {
+		server = new MCPHttpServer(
+			{ host: '127.0.0.1', port: 0, allowedAddresses: ['127.0.0.1', '::1'] },
+			async message => 'id' in message ? { jsonrpc: '2.0', id: message.id, result: { ok: true } } : null
+		);
+		url = await server.start();
+	});
+
+	afterEach(async () => {
+		await server.stop();
+	});
+
+	function post(headers: Record<string, string>, body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' })): Promise<Response> {
+		return fetch(url, { method: 'POST', headers, body });
+	}
+
+	it('answers JSON-RPC requests', async () => {
+		const response = await post({ 'Content-Type': 'application/json' });
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ jsonrpc: '2.0', id: 1, result: { ok: true } });
+	});
+
+	it('accepts pages served from this machine', async () => {
+		for (const origin of ['http://localhost:3000', 'http://127.0.0.1:8080', 'http://[::1]:5173']) {
+			expect((await post({ 'Content-Type': 'application/json', Origin: origin })).status).toBe(200);
+		}
+	});
+
+	it('rejects requests from other origins', async () => {
+		for (const origin of ['https://attacker.example', 'null']) {
+			expect((await post({ 'Content-Type': 'application/json', Origin: origin })).status).toBe(403);
+		}
+	});
+
+	it('rejects bodies that are not JSON, such as cross-site form posts', async () => {
+		expect((await post({ 'Content-Type': 'text/plain' })).status).toBe(415);
+		expect((await post({ 'Content-Type': 'application/x-www-form-urlencoded' }, 'a=1')).status).toBe(415);
+		expect((await post({ 'Content-Type': 'application/json; charset=utf-8' })).status).toBe(200);
+	});
+});
@@ -0,0 +1,144 @@
+import * as path from 'path';
+import { MCPError } from '@/types';
+import { MCPClient, MCP_PROTOCOL_VERSION } from '@/services/mcp/MCPClient';
+import { StdioTransport, StdioTransportOptions } from '@/services/mcp/StdioTransport';
+
+const FAKE_SERVER = path.join(__dirname, '..', '..', 'fixtures', 'mcp', 'fakeStdioServer.js');
+
+function createClient(options: Partial<StdioTransportOptions> = {}, requestTimeoutMs?: number): MCPClient {
+	return new MCPClient(new StdioTransport({ command: process.execPath, args: [FAKE_SERVER], ...options }), requestTimeoutMs);
+}
+
+describe('MCPClient over StdioTransport', () => {
+	let client: MCPClient | null = null;
+
+	beforeEach(() => {
+		jest.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		await client?.close();
+		client = null;
+		jest.restoreAllMocks();
+	});
+
+	it('performs the initialize handshake', async () => {
+		client = createClient();
+		const info = await client.connect();
+
+		expect(info).toEqual({
+			protocolVersion: MCP_PROTOCOL_VERSION,
+			serverInfo: { name: 'fake-stdio', version: '0.0.1' },
+			capabilities: { tools: {}, resources: {}, prompts: {} },
+			instructions: 'client rswe-v1'
+		});
+		expect(client.isConnected()).toBe(true);
+	});
+
+	it('lists tools across pages', async () => {
+		client = createClient();
+		await client.connect();
+
+		const tools = await client.listTools();
+
+		expect(tools.map(tool => tool.name)).toEqual(['echo', 'fail', 'exit']);
+		expect(tools[0]).toEqual({
+			name: 'echo',
+			description: 'Echo the text back',
+			parameters: { text: { type: 'string' } },
+			inputSchema: { type: 'object', properties: { text: { type: 'string' } } }
+		});
+		expect(tools[1]!.inputSchema).toEqual({ type: 'object', properties: {} });
+	});
+
+	it('calls tools with the configured environment and answers server pings', async () => {
+		client = createClient({ env: { FAKE_MCP_GREETING: 'hi' } });
+		await client.connect();
+		// The server pings right after initialization; its own ping reply follows
+		await client.ping();
+
+		const result = await client.callTool('echo', { text: 'hello' });
+
+		expect(result).toEqual({ content: [{ type: 'text', text: 'hello (env hi, client ping true)' }] });
+	});
+
+	it('reports tool failures as error results', async () => {
+		client = createClient();
+		await client.connect();
+
+		expect(await client.callTool('fail', {})).toEqual({ content: [{ type: 'text', text: 'tool failed' }], isError: true });
+	});
+
+	it('reads resources and renders prompts', async () => {
+		client = createClient();
+		await client.connect();
+
+		expect(await client.listResources()).toEqual([{ uri: 'fake://readme', name: 'Readme', mimeType: 'text/plain' }]);
+		expect(await client.readResource('fake://readme')).toEqual([
+			{ uri: 'fake://readme', mimeType: 'text/plain', text: 'Hello from the fake server' }
+		]);
+		expect(await client.listPrompts()).toEqual([
+			{ name: 'greet', description: 'Greet someone', arguments: [{ name: 'who', required: true }] }
+		]);
+		expect(await client.getPrompt('greet', { who: 'Ada' })).toEqual({
+			messages: [{ role: 'user', content: { type: 'text', text: 'Hello Ada' } }]
+		});
+	});
+
+	it('rejects JSON-RPC errors with their code', async () => {
+		client = createClient();
+		await client.connect();
+
+		const error = await client.request('unknown/method').catch(caught => caught);
+
+		expect(error).toBeInstanceOf(MCPError);
+		expect(error.message).toBe('Method not found: unknown/method');
+		expect(error.context).toMatchObject({ code: -32601 });
+	});
+
+	it('skips non-JSON output and forwards stderr', async () => {
+		client = createClient({ env: { FAKE_MCP_NOISE: '1' } });
+		await client.connect();
+
+		expect(await client.ping()).toBeGreaterThanOrEqual(0);
+		expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring non-JSON output: starting up...'));
+		expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('debug output'));
+	});
+
+	it('times out requests the server never answers', async () => {
+		client = createClient({}, 200);
+		await client.connect();
+
+		await expect(client.request('hang')).rejects.toThrow('Request hang timed out after 200ms');
+		expect(client.isConnected()).toBe(true);
+	});
+
+	it('fails outstanding requests when the server exits', async () => {
+		client = createClient();
+		await client.connect();
+		const closed = new Promise<Error | undefined>(resolve => {
+			client!.onClose = resolve;
+		});
+
+		await expect(client.callTool('exit', {})).rejects.toThrow('Server process exited with code 3');
+		expect((await closed)?.message).toBe('Server process exited with code 3');
+		expect(client.isConnected()).toBe(false);
+		await expect(client.ping()).rejects.toThrow('Cannot call ping: connection is closed');
+	});
+
+	it('rejects commands that cannot be started', async () => {
+		client = new MCPClient(new StdioTransport({ command: path.join(__dirname, 'missing-server') }));
+
+		await expect(client.connect()).rejects.toThrow(/Failed to start .*missing-server/);
+	});
+
+	it('stops the server process on close', async () => {
+		client = createClient();
+		await client.connect();
+
+		await client.close();
+
+		expect(client.isConnected()).toBe(false);
+		await expect(client.ping()).rejects.toThrow('connection is closed');
+	});
+});
@@ -0,0 +1,124 @@
+import { performance } from 'perf_hooks';
+import { BM25Index } from '@/services/search/BM25Index';
+import { tokenizeForSearch } from '@/utils/codeTokens';
+import { GeneratedFunction, generateCodeCorpus, summarizeLatencies } from '../../fixtures/search/codeCorpus';
+
+type Field = 'name' | 'signature' | 'body';
+
+const BOOSTS: Record<Field, number> = { name: 3, signature: 2, body: 1 };
+
+// Generous budgets: they catch a regression to linear scans, not machine noise
+const INDEXING_BUDGET_MS = 30000;
+const QUERY_P95_BUDGET_MS = 500;
+
+function report(message: string): void {
+	process.stdout.write(`BM25Index: ${message}\n`);
+}
+
+function addFunction(index: BM25Index<GeneratedFunction, Field>, id: string, fn: GeneratedFunction): void {
+	index.add(id, fn, { name: fn.name, signature: fn.signature, body: fn.body });
+}
+
+describe('BM25Index', () => {
+	it('matches identifier parts and stemmed words', () => {
+		const index = new BM25Index<string, Field>(BOOSTS);
+		index.add('a', 'a', { name: 'retryFailedRequests', signature: '', body: '' });
+		index.add('b', 'b', { name: 'parse_config_file', signature: '', body: '' });
+
+		expect(index.search('retrying failed request', 10).map(match => match.id)).toEqual(['a']);
+		expect(index.search('configs', 10).map(match => match.id)).toEqual(['b']);
+	});
+
+	it('ranks a term in a boosted field above the same term in the body', () => {
+		const index = new BM25Index<string, Field>(BOOSTS);
+		index.add('body', 'body', { name: 'handleClick', signature: '', body: 'const token = readToken();' });
+		index.add('name', 'name', { name: 'refreshToken', signature: '', body: 'return fetchAgain();' });
+
+		const matches = index.search('token', 10);
+
+		expect(matches.map(match => match.id)).toEqual(['name', 'body']);
+		expect(matches[0]!.matchedTerms).toEqual({ name: ['token'] });
+	});
+
+	it('ranks rare terms above common ones', () => {
+		const index = new BM25Index<string, Field>(BOOSTS);
+		for (let i = 0; i < 20; i++) {
+			index.add(`common${i}`, 'common', { name: `loadUser${i}`, signature: '', body: '' });
+		}
+		index.add('rare', 'rare', { name: 'archiveUser', signature: '', body: '' });
+
+		expect(index.search('load archive', 1)[0]!.id).toBe('rare');
+	});
+
+	it('replaces and removes documents', () => {
+		const index = new BM25Index<string, Field>(BOOSTS);
+		index.add('a', 'first', { name: 'oldName', signature: '', body: '' });
+		index.add('a', 'second', { name: 'freshName', signature: '', body: '' });
+
+		expect(index.size).toBe(1);
+		expect(index.search('old', 10)).toEqual([]);
+		expect(index.search('fresh', 10)[0]!.document).toBe('second');
+
+		index.remove('a');
+		expect(index.size).toBe(0);
+		expect(index.termCount).toBe(0);
+	});
+
+	it('applies filters and finds documents containing every term', () => {
+		const index = new BM25Index<string, Field>(BOOSTS);
+		index.add('a', 'src', { name: 'saveUserProfile', signature: '', body: '' });
+		index.add('b', 'test', { name: 'saveUser', signature: '', body: '' });
+
+		expect(index.search('save user', 10, document => document === 'src').map(match => match.id)).toEqual(['a']);
+		expect(index.findContainingAll(tokenizeForSearch('saved profiles'))).toEqual(['a']);
+		expect(index.findContainingAll(tokenizeForSearch('save missing'))).toEqual([]);
+	});
+
+	describe('on a large generated corpus', () => {
+		const corpus = generateCodeCorpus({ files: 2000, functionsPerFile: 25 });
+		const index = new BM25Index<GeneratedFunction, Field>(BOOSTS);
+		let indexingMs = 0;
+
+		beforeAll(() => {
+			const started = performance.now();
+			for (const file of corpus) {
+				file.functions.forEach((fn, position) => addFunction(index, `${file.relativePath}#${position}`, fn));
+			}
+			indexingMs = performance.now() - started;
+		});
+
+		it('indexes 50,000 functions within budget', () => {
+			expect(index.size).toBe(50002);
+			report(`indexed ${index.size} documents and ${index.termCount} terms in ${indexingMs.toFixed(0)}ms`);
+			expect(indexingMs).toBeLessThan(INDEXING_BUDGET_MS);
+		});
+
+		it('answers queries within budget and ranks the needles first', () => {
+			const queries = [
+				'reconcile ledger balance',
+				'throttle webhook delivery',
+				'load user',
+				'validate cached invoice',
+				'missing order for session',
+				'remote shipment queue',
+				'decode token payload',
+				'sync pending account profile'
+			];
+			const durations: number[] = [];
+			for (let round = 0; round < 5; round++) {
+				for (const query of queries) {
+					const started = performance.now();
+					index.search(query, 10);
+					durations.push(performance.now() - started);
+				}
+			}
+
+			const { median, p95 } = summarizeLatencies(durations);
+			report(`query latency median ${median.toFixed(1)}ms, p95 ${p95.toFixed(1)}ms over ${durations.length} queries`);
+			expect(p95).toBeLessThan(QUERY_P95_BUDGET_MS);
+
+			expect(index.search('reconcile ledger balance', 1)[0]!.document.name).toBe('reconcileLedgerBalance');
+			expect(index.search('webhook throttling', 1)[0]!.document.name).toBe('throttleWebhookDelivery');
+		});
+	});
+});
@@ -0,0 +1,131 @@
+import { SearchQueryError } from '@/types';
+import { parseSearchQuery } from '@/services/search/SearchQuery';
+
+const INDEXED_LANGUAGES = ['TypeScript', 'Go', 'Java'];
+
+function getError(query: string): SearchQueryError {
+	try {
+		parseSearchQuery(query, INDEXED_LANGUAGES);
+	} catch (error) {
+		if (error instanceof SearchQueryError) return error;
+		throw error;
+	}
+	throw new Error(`Expected "${query}" to be rejected`);
+}
+
+describe('parseSearchQuery', () => {
+	describe('filters', () => {
+		it('parses kind, lang, path and in filters', () => {
+			const query = parseSearchQuery('kind:function lang:py path:src/core/** in:tests retry');
+
+			expect(query.filters).toEqual({
+				kinds: ['function'],
+				languages: ['Python'],
+				pathGlob: 'src/core/**',
+				scope: 'tests'
+			});
+			expect(query.text).toBe('retry');
+		});
+
+		it('merges repeated and comma-separated alternatives', () => {
+			const query = parseSearchQuery('kind:function,method kind:class lang:ts');
+
+			expect(query.filters.kinds).toEqual(['function', 'method', 'class']);
+			expect(query.filters.languages).toEqual(['TypeScript', 'React TypeScript']);
+		});
+
+		it('accepts indexed language names in any case', () => {
+			const query = parseSearchQuery('lang:java,GO lang:js', INDEXED_LANGUAGES);
+
+			expect(query.filters.languages).toEqual(['java', 'GO', 'JavaScript', 'React']);
+		});
+
+		it('accepts quoted filter values', () => {
+			expect(parseSearchQuery('path:"src/my dir/**"').filters.pathGlob).toBe('src/my dir/**');
+		});
+
+		it('excludes negated filters', () => {
+			const query = parseSearchQuery('-kind:class -in:tests parse');
+
+			expect(query.filters).toEqual({});
+			expect(query.excludedFilters).toEqual([{ kinds: ['class'] }, { scope: 'tests' }]);
+		});
+	});
+
+	describe('phrases and negation', () => {
+		it('requires quoted phrases', () => {
+			const query = parseSearchQuery('"retry policy" backoff');
+
+			expect(query.required).toEqual([[{ text: 'retry policy', isPhrase: true }]]);
+			expect(query.text).toBe('retry policy backoff');
+		});
+
+		it('excludes negated words and phrases', () => {
+			const query = parseSearchQuery('cache -test -"mock data"');
+
+			expect(query.excluded).toEqual([
+				{ text: 'test', isPhrase: false },
+				{ text: 'mock data', isPhrase: true }
+			]);
+			expect(query.text).toBe('cache');
+		});
+	});
+
+	describe('OR groups', () => {
+		it('requires one term of each group', () => {
+			const query = parseSearchQuery('bm25 OR "inverted index" OR minhash ranking');
+
+			expect(query.required).toEqual([[
+				{ text: 'bm25', isPhrase: false },
+				{ text: 'inverted index', isPhrase: true },
+				{ text: 'minhash', isPhrase: false }
+			]]);
+			expect(query.text).toBe('bm25 inverted index minhash ranking');
+		});
+
+		it('treats lowercase or as a word', () => {
+			const query = parseSearchQuery('read or write');
+
+			expect(query.required).toEqual([]);
+			expect(query.text).toBe('read or write');
+		});
+	});
+
+	describe('errors', () => {
+		it.each([
+			['a OR', 3, 'OR at column 3'],
+			['OR b', 1, 'OR at column 1'],
+			['a OR -b', 3, 'OR at column 3'],
+			['-a OR b', 1, 'column 1'],
+			['x kind:fn', 3, 'Unknown kind "fn" at column 3'],
+			['in:prod', 1, 'Unknown scope "in:prod" at column 1'],
+			['path:a path:b', 8, 'Only one path: filter is allowed (column 8)'],
+			['path:{a,b', 1, 'Invalid path glob "{a,b" at column 1'],
+			['find ""', 6, 'Empty quoted phrase at column 6'],
+			['kind:""', 1, 'Missing value for "kind:" at column 1'],
+			['retry lang:ts,cobol', 7, 'Unknown language "cobol" at column 7']
+		])('rejects %j at column %i', (query, column, message) => {
+			const error = getError(query);
+
+			expect(error.code).toBe('SEARCH_QUERY_ERROR');
+			expect(error.message).toContain(message);
+			expect(error.context).toMatchObject({ query, column });
+		});
+	});
+
+	describe('plain language', () => {
+		it.each([
+			'where are secrets redacted before sending requests',
+			'Note: retry logic',
+			'retry - backoff',
+			'say "hi',
+			'std::vector http://example.com',
+			'used in: the parser'
+		])('parses %j to its words', query => {
+			const parsed = parseSearchQuery(query);
+
+			expect(parsed).toMatchObject({ filters: {}, excludedFilters: [], required: [], excluded: [] });
+			expect(parsed.text).toBe(query.split(/\s+/).join(' '));
+		});
+	});
+});
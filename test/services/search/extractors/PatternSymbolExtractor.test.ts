@@ -0,0 +1,260 @@
+import { SearchableCodeItem } from '@/services/search/SearchableCodeItem';
+import { DeclarationRule, LanguageDefinition, PatternSymbolExtractor } from '@/services/search/extractors/PatternSymbolExtractor';
+
+const MODIFIERS = String.raw`(?<modifiers>(?:(?:public|private|protected)\s+)*)`;
+
+// A small brace language exercising every kind of rule
+const TOY_RULES: DeclarationRule[] = [
+	{ pattern: /^\s*namespace\s+(?<name>[\w.]+)/, type: null, isContainer: true, isNamespace: true, scopesFile: true },
+	{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}interface\s+(?<name>\w+)`), type: 'interface', isContainer: true },
+	{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}class\s+(?<name>\w+)`), type: 'class', isContainer: true },
+	{ pattern: /^\s*consts\s*\(/, type: 'variable', entryPattern: /^\s*(?<name>\w+)\s*=/ },
+	{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}const\s+(?<name>\w+)`), type: 'variable', hasBody: false, keywords: ['const'] },
+	{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}fn\s+(?<name>\w+)`), type: 'function', memberType: 'method' },
+	{ pattern: new RegExp(String.raw`^\s*${MODIFIERS}(?<name>\w+)\s*\(`), type: 'method', membersOnly: true }
+];
+
+function createExtractor(language: Partial<LanguageDefinition> = {}): PatternSymbolExtractor {
+	return new PatternSymbolExtractor({
+		id: 'toy',
+		extensions: ['.toy'],
+		blocks: 'braces',
+		lineComments: ['//'],
+		blockComments: true,
+		stringQuotes: ['"', '`'],
+		charLiterals: true,
+		attributePattern: /^\s*@/,
+		rules: TOY_RULES,
+		...language
+	});
+}
+
+function extract(source: string, language?: Partial<LanguageDefinition>): SearchableCodeItem[] {
+	return createExtractor(language).extract('sample.toy', source);
+}
+
+/**
+ * Item names qualified by their container, with their line ranges
+ */
+function outline(items: SearchableCodeItem[]): string[] {
+	return items.map(item => `${item.type} ${item.container ? `${item.container}.` : ''}${item.name} ${item.range!.startLine}-${item.range!.endLine}`);
+}
+
+describe('PatternSymbolExtractor', () => {
+	describe('brace blocks', () => {
+		it('ends bodies at their closing brace and skips their locals', () => {
+			const items = extract([
+				'fn first(a, b) {',
+				'    fn local() {}',
+				'    return a;',
+				'}',
+				'fn second() { return 1; }'
+			].join('\n'));
+
+			expect(outline(items)).toEqual(['function first 1-4', 'function second 5-5']);
+			expect(items[0]!.range).toEqual({ startLine: 1, startColumn: 1, endLine: 4, endColumn: 2 });
+			expect(items[0]!.signature).toBe('fn first(a, b)');
+			expect(items[0]!.content).toBe('fn first(a, b) {\n    fn local() {}\n    return a;\n}');
+		});
+
+		it('ignores braces in strings, raw strings, character literals and comments', () => {
+			const items = extract([
+				'fn tricky() {',
+				'    let s = "}";',
+				'    let raw = `',
+				'    }`;',
+				'    let c = \'}\';',
+				'    // }',
+				'    /* } */',
+				'}',
+				'fn after() {}'
+			].join('\n'));
+
+			expect(outline(items)).toEqual(['function tricky 1-8', 'function after 9-9']);
+		});
+
+		it('reads signatures spanning several lines', () => {
+			const [item] = extract('fn spread(\n    a,\n    b\n) {\n}');
+
+			expect(item!.signature).toBe('fn spread( a, b )');
+			expect(item!.range).toEqual({ startLine: 1, startColumn: 1, endLine: 5, endColumn: 2 });
+		});
+
+		it('runs unbalanced bodies to the end of the file', () => {
+			const [item] = extract('fn broken() {\n    if (x) {\n');
+
+			expect(item!.range).toEqual({ startLine: 1, startColumn: 1, endLine: 3, endColumn: 1 });
+		});
+	});
+
+	describe('containers', () => {
+		it('qualifies nested namespaces and gives members their class', () => {
+			const items = extract([
+				'namespace acme {',
+				'    namespace store {',
+				'        class Store {',
+				'            get(id) {',
+				'            }',
+				'            fn helper() {}',
+				'        }',
+				'    }',
+				'    fn outside() {}',
+				'}',
+				'fn global() {}'
+			].join('\n'));
+
+			expect(outline(items)).toEqual([
+				'class acme.store.Store 3-7',
+				'method Store.get 4-5',
+				'method Store.helper 6-6',
+				'function acme.outside 9-9',
+				'function global 11-11'
+			]);
+		});
+
+		it('scopes a namespace without a block to the rest of the file', () => {
+			const items = extract('namespace acme.tools;\n\nclass Tool {}\nfn run() {}');
+
+			expect(outline(items)).toEqual(['class acme.tools.Tool 3-3', 'function acme.tools.run 4-4']);
+		});
+
+		it('only matches member rules inside classes', () => {
+			const items = extract('call(x);\nclass Widget {\n    draw(canvas) {}\n}');
+
+			expect(outline(items)).toEqual(['class Widget 2-4', 'method Widget.draw 3-3']);
+		});
+	});
+
+	describe('values', () => {
+		it('ends constants at their semicolon or the end of their expression', () => {
+			const items = extract([
+				'const LIMIT = 10;',
+				'const TABLE = {',
+				'    a: 1,',
+				'}',
+				'const NEXT = LIMIT +',
+				'    1'
+			].join('\n'));
+
+			expect(outline(items)).toEqual(['variable LIMIT 1-1', 'variable TABLE 2-4', 'variable NEXT 5-6']);
+			expect(items[0]!.range).toEqual({ startLine: 1, startColumn: 1, endLine: 1, endColumn: 18 });
+			expect(items[0]!.keywords).toEqual(expect.arrayContaining(['LIMIT', 'variable', 'const']));
+		});
+
+		it('declares one item per entry of a grouped declaration', () => {
+			const items = extract('consts (\n    A = 1\n    B = [\n        2,\n    ]\n)\nfn after() {}');
+
+			expect(outline(items)).toEqual(['variable A 2-2', 'variable B 3-5', 'function after 7-7']);
+		});
+	});
+
+	describe('documentation', () => {
+		it('reads block comments above attributes and line comments', () => {
+			const items = extract([
+				'/**',
+				' * Adds numbers.',
+				' *',
+				' * Twice.',
+				' */',
+				'@inline',
+				'@pure',
+				'fn add() {}',
+				'',
+				'// Subtracts numbers.',
+				'// Once.',
+				'fn subtract() {}',
+				'',
+				'fn undocumented() {}'
+			].join('\n'));
+
+			expect(items.map(item => item.documentation)).toEqual(['Adds numbers.\n\nTwice.', 'Subtracts numbers.\nOnce.', undefined]);
+		});
+
+		it('lets languages clean up their doc markup', () => {
+			class MarkupExtractor extends PatternSymbolExtractor {
+				protected override _cleanDocumentation(text: string): string {
+					return text.replace(/<\/?b>/g, '');
+				}
+			}
+			const extractor = new MarkupExtractor({ id: 'toy', extensions: ['.toy'], blocks: 'braces', lineComments: ['//'], blockComments: false, stringQuotes: ['"'], rules: TOY_RULES });
+
+			expect(extractor.extract('sample.toy', '// Very <b>bold</b>.\nfn bold() {}')[0]!.documentation).toBe('Very bold.');
+		});
+	});
+
+	describe('access', () => {
+		it('reads visibility from modifiers and makes interface members public', () => {
+			const items = extract([
+				'public class Api {',
+				'    public open() {}',
+				'    protected check() {}',
+				'    private close() {}',
+				'    plain() {}',
+				'}',
+				'interface Shape {',
+				'    area();',
+				'}'
+			].join('\n'));
+
+			expect(items.map(item => [item.name, item.exported, item.visibility])).toEqual([
+				['Api', true, 'public'],
+				['open', true, 'public'],
+				['check', false, 'protected'],
+				['close', false, 'private'],
+				['plain', undefined, undefined],
+				['Shape', undefined, undefined],
+				['area', undefined, 'public']
+			]);
+			expect(items[2]!.keywords).toContain('protected');
+		});
+	});
+
+	describe('other block styles', () => {
+		it('ends indented blocks where indentation returns', () => {
+			const items = extract([
+				'class Store:',
+				'    def get(self,',
+				'            key):',
+				'        return key',
+				'',
+				'    def put(self): pass',
+				'def top():',
+				'    pass'
+			].join('\n'), {
+				blocks: 'indent',
+				lineComments: ['#'],
+				blockComments: false,
+				rules: [
+					{ pattern: /^\s*def\s+(?<name>\w+)/, type: 'function', memberType: 'method' },
+					{ pattern: /^\s*class\s+(?<name>\w+)/, type: 'class', isContainer: true }
+				]
+			});
+
+			expect(outline(items)).toEqual(['class Store 1-6', 'method Store.get 2-4', 'method Store.put 6-6', 'function top 7-8']);
+			expect(items[1]!.signature).toBe('def get(self, key)');
+		});
+
+		it('ends keyword blocks at their matching end', () => {
+			const items = extract([
+				'class Store',
+				'  def get(id)',
+				'    if id then',
+				'      puts "end"',
+				'    end',
+				'  end',
+				'end',
+				'def top; end'
+			].join('\n'), {
+				blocks: 'end',
+				lineComments: ['#'],
+				blockComments: false,
+				rules: [
+					{ pattern: /^\s*class\s+(?<name>\w+)/, type: 'class', isContainer: true },
+					{ pattern: /^\s*def\s+(?<name>\w+)/, type: 'function', memberType: 'method' }
+				]
+			});
+
+			expect(outline(items)).toEqual(['class Store 1-7', 'method Store.get 2-6', 'function top 8-8']);
+		});
+	});
+});
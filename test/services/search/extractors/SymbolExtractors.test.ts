@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SearchableCodeItem } from '@/services/search/SearchableCodeItem';
+import { SymbolExtractorRegistry } from '@/core/SymbolExtractorRegistry';
+import { CSharpSymbolExtractor } from '@/services/search/extractors/CSharpSymbolExtractor';
+import { GoSymbolExtractor } from '@/services/search/extractors/GoSymbolExtractor';
+import { JavaSymbolExtractor } from '@/services/search/extractors/JavaSymbolExtractor';
+import { KotlinSymbolExtractor } from '@/services/search/extractors/KotlinSymbolExtractor';
+import { PhpSymbolExtractor } from '@/services/search/extractors/PhpSymbolExtractor';
+import { PythonSymbolExtractor } from '@/services/search/extractors/PythonSymbolExtractor';
+import { RubySymbolExtractor } from '@/services/search/extractors/RubySymbolExtractor';
+import { RustSymbolExtractor } from '@/services/search/extractors/RustSymbolExtractor';
+import { SwiftSymbolExtractor } from '@/services/search/extractors/SwiftSymbolExtractor';
+import { TypeScriptSymbolExtractor } from '@/services/search/extractors/TypeScriptSymbolExtractor';
+
+/**
+ * Every source file under test/fixtures/extractors/<language>/ is extracted
+ * and compared with the items in the `.expected.json` file next to it.
+ */
+const FIXTURES = path.join(__dirname, '..', '..', '..', 'fixtures', 'extractors');
+
+interface ExpectedItem {
+	name: string;
+	type: string;
+	container?: string;
+	// startLine:startColumn-endLine:endColumn, 1-based with an exclusive end column
+	range: string;
+	exported?: boolean;
+	visibility?: string;
+	signature: string;
+	documentation?: string;
+}
+
+function toExpectedShape(item: SearchableCodeItem): ExpectedItem {
+	const range = item.range!;
+	return {
+		name: item.name,
+		type: item.type,
+		...(item.container ? { container: item.container } : {}),
+		range: `${range.startLine}:${range.startColumn}-${range.endLine}:${range.endColumn}`,
+		...(item.exported !== undefined ? { exported: item.exported } : {}),
+		...(item.visibility ? { visibility: item.visibility } : {}),
+		signature: item.signature,
+		...(item.documentation ? { documentation: item.documentation } : {})
+	};
+}
+
+function listFixtures(): Array<[string, string]> {
+	return fs.readdirSync(FIXTURES).sort().flatMap(language => fs.readdirSync(path.join(FIXTURES, language))
+		.filter(file => !file.endsWith('.expected.json'))
+		.sort()
+		.map((file): [string, string] => [language, file]));
+}
+
+describe('language symbol extractors', () => {
+	const registry = new SymbolExtractorRegistry();
+	[
+		new GoSymbolExtractor(),
+		new RustSymbolExtractor(),
+		new CSharpSymbolExtractor(),
+		new RubySymbolExtractor(),
+		new PhpSymbolExtractor(),
+		new KotlinSymbolExtractor(),
+		new SwiftSymbolExtractor(),
+		new JavaSymbolExtractor(),
+		new PythonSymbolExtractor(),
+		new TypeScriptSymbolExtractor()
+	].forEach(extractor => registry.register(extractor));
+
+	it.each(listFixtures())('%s: %s', (language, file) => {
+		const filePath = path.join(FIXTURES, language, file);
+		const expected: ExpectedItem[] = JSON.parse(fs.readFileSync(filePath.replace(/\.\w+$/, '.expected.json'), 'utf8'));
+
+		expect(registry.getForFile(filePath)?.id).toBe(language);
+		const items = registry.extract(filePath, fs.readFileSync(filePath, 'utf8'));
+
+		expect(items.map(toExpectedShape)).toEqual(expected);
+		for (const item of items) {
+			expect(item.lineNumber).toBe(item.range!.startLine);
+			expect(item.content.length).toBeGreaterThan(0);
+		}
+	});
+});
@@ -3,14 +3,19 @@ const path = require('path');
 module.exports = {
   target: 'node',
   mode: 'none',
-  entry: './src/extension.ts',
+  entry: {
+    extension: './src/extension.ts',
+    'mcp-server': './src/mcpServerBridge.ts'
+  },
   output: {
     path: path.resolve(__dirname, 'dist'),
-    filename: 'extension.js',
+    filename: '[name].js',
     libraryTarget: 'commonjs2'
   },
   externals: {
-    vscode: 'commonjs vscode'
+    vscode: 'commonjs vscode',
+    // Loaded from node_modules so the compiler finds its lib.*.d.ts files
+    typescript: 'commonjs typescript'
   },
   resolve: {
     extensions: ['.ts', '.js'],